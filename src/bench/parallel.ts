@@ -0,0 +1,136 @@
+/**
+ * Benchmark: one stream against parallel streams (--streams)
+ *
+ * Sends the same folder through the real pack → encrypt → decrypt →
+ * extract pipeline over a simulated link, once per stream count. Each
+ * simulated connection adds latency and only keeps a window's worth of
+ * bytes in flight, like a TCP connection whose window is full, so one
+ * connection tops out at window / RTT no matter how fast the machine is.
+ *
+ *   npm run bench -- --rtt 80 --window 256 --files 32 --size 512 --streams 1,2,4,8
+ *
+ * --rtt is in milliseconds, --window and --size in KB.
+ */
+
+import { parseArgs } from 'node:util';
+import { Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { mkdir, mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { createPackStream, createExtractStream } from '../utils/tar.js';
+import { createEncryptStream, createDecryptStream } from '../utils/crypto.js';
+import { createClaims, claimFilter } from '../utils/parallel.js';
+import { formatFileSize } from '../utils/fileSystem.js';
+
+const KB = 1024;
+
+/**
+ * One simulated connection
+ *
+ * Chunks arrive half a round trip after they were sent, and their room in
+ * the window is only freed once the "ack" is back a full round trip later.
+ */
+function createLink(rtt: number, window: number): Transform {
+  let inFlight = 0;
+  let blocked: (() => void) | null = null;
+  let delivered: Promise<void> = Promise.resolve();
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      inFlight += chunk.length;
+      delivered = new Promise((resolve) => setTimeout(() => {
+        this.push(chunk);
+        resolve();
+      }, rtt / 2));
+      setTimeout(() => {
+        inFlight -= chunk.length;
+        if (blocked && inFlight < window) {
+          const resume = blocked;
+          blocked = null;
+          resume();
+        }
+      }, rtt);
+
+      if (inFlight < window) callback();
+      else blocked = () => callback();
+    },
+
+    flush(callback) {
+      delivered.then(() => callback());
+    },
+  });
+}
+
+/**
+ * Send the folder over `streams` simulated connections
+ *
+ * @returns Milliseconds until every stream was extracted
+ */
+async function run(source: string, streams: number, rtt: number, window: number): Promise<number> {
+  const output = await mkdtemp(join(tmpdir(), 'ezshare-bench-out-'));
+  const key = randomBytes(32);
+  const filter = streams > 1 ? claimFilter(() => true, createClaims()) : undefined;
+
+  const start = performance.now();
+  await Promise.all(Array.from({ length: streams }, () =>
+    pipeline(
+      createPackStream(source, { filter }),
+      createEncryptStream(key),
+      createLink(rtt, window),
+      createDecryptStream(key),
+      createExtractStream(output)
+    )
+  ));
+  const elapsed = performance.now() - start;
+
+  await rm(output, { recursive: true, force: true });
+  return elapsed;
+}
+
+const { values } = parseArgs({
+  options: {
+    rtt: { type: 'string', default: '80' },
+    window: { type: 'string', default: '256' },
+    files: { type: 'string', default: '32' },
+    size: { type: 'string', default: '512' },
+    streams: { type: 'string', default: '1,2,4,8' },
+  },
+});
+
+const rtt = Number(values.rtt);
+const window = Number(values.window) * KB;
+const fileCount = Number(values.files);
+const fileSize = Number(values.size) * KB;
+const counts = values.streams.split(',').map(Number);
+
+const root = await mkdtemp(join(tmpdir(), 'ezshare-bench-src-'));
+const source = join(root, 'data');
+await mkdir(source);
+for (let i = 0; i < fileCount; i++) {
+  await writeFile(join(source, `file${i}.bin`), randomBytes(fileSize));
+}
+
+const total = fileCount * fileSize;
+console.log(
+  `${fileCount} files, ${formatFileSize(total)} in total; ` +
+  `link: ${rtt}ms RTT, ${formatFileSize(window)} window per connection\n`
+);
+console.log('streams      time    throughput   speedup');
+
+let baseline = 0;
+try {
+  for (const streams of counts) {
+    const elapsed = await run(source, streams, rtt, window);
+    baseline ||= elapsed;
+    console.log(
+      `${String(streams).padStart(7)}` +
+      `${(elapsed / 1000).toFixed(2).padStart(9)}s` +
+      `${`${formatFileSize(total / (elapsed / 1000))}/s`.padStart(14)}` +
+      `${(baseline / elapsed).toFixed(2).padStart(9)}x`
+    );
+  }
+} finally {
+  await rm(root, { recursive: true, force: true });
+}
@@ -5,20 +5,70 @@ import React from 'react';
 import { Shell } from './components/Shell.js';
 import { SendCommand } from './commands/send.js';
 import { ReceiveCommand } from './commands/receive.js';
+import { parseHostPort } from './utils/tcp.js';
+import { loadConfig, parseBootstrapNode, configPath, type EzshareConfig } from './utils/config.js';
+import { parseDuration } from './utils/duration.js';
+import { DEFAULT_STALL_TIMEOUT } from './utils/keepalive.js';
+import { parseRate, type RateSettings } from './utils/throttle.js';
+import { MAX_STREAMS } from './utils/parallel.js';
+import type { TransportOptions } from './utils/transport.js';
 
 const cli = meow(`
   Usage
     $ ezshare                             # Interactive shell mode
-    $ ezshare send <path>                 # Direct send
+    $ ezshare send <path>...              # Direct send (one or more files/folders)
     $ ezshare receive <key> [--output]    # Direct receive
 
   Examples
     $ ezshare                             # Launch interactive shell
     $ ezshare send ./myfile.zip           # Quick send
+    $ ezshare send ./notes.txt --code     # Share a short code like 7-orbit-lantern
+    $ ezshare send a.txt docs/ build/out.zip   # Several paths in one transfer
+    $ ezshare send ./build.tgz --max-downloads 5   # Hand the same file to 5 people
     $ ezshare receive abc123... -o ./downloads
+    $ ezshare receive 7-orbit-lantern
+    $ ezshare send ./data --transport lan        # Same network only, no internet needed
+    $ ezshare send ./data --transport tcp --listen :9000            # No DHT: direct TCP
+    $ ezshare send ./data --bootstrap dht.example.internal:49737   # Private DHT
+    $ ezshare send ./big.iso --wait forever   # Keep the key alive until someone connects
+    $ ezshare receive <key> --transport tcp --connect 10.0.0.5:9000
+    $ ezshare receive 7-orbit-lantern --yes   # Skip the accept/decline prompt
+    $ ezshare send ./secrets.tar --verify     # Compare fingerprints before anything is sent
+    $ ezshare send ./backup.tar --limit 5MB/s # Leave room on a shared uplink
+    $ ezshare send ./photos --streams 4       # Spread a folder over 4 connections
+    $ ezshare send ./site --follow-symlinks   # Send what links point to, not the links
+    $ ezshare send ./repo --respect-gitignore --exclude node_modules   # Leave out build output and deps
+    $ ezshare receive <key> --stats           # Show throughput and how we connected
+    $ ezshare receive <key> --include 'docs' --include 'src/**/*.ts' --exclude '*.log'
+    $ ezshare receive <key> --preserve-perms  # Keep modes exactly as sent (not through the umask)
 
   Options
     --output, -o  Output directory for received files (default: current directory)
+    --code, -c    Share a short, speakable code instead of the full key (send only, one receiver)
+    --max-downloads <n>  Serve up to n receivers at once with the same key (send only)
+    --multi       Serve any number of receivers until stopped (send only)
+    --transport   auto (default: LAN and DHT at once), hyperswarm (DHT only), lan or tcp
+    --listen      With --transport tcp: accept a connection on [host]:port
+    --connect     With --transport tcp: connect to host:port
+    --bootstrap   DHT bootstrap node host:port instead of the public ones; repeatable
+    --wait        How long to wait for the other peer, e.g. 90s, 10m or forever (default 30s)
+    --verify      Both users must confirm the connection fingerprint before any data flows
+    --limit       Bandwidth limit, e.g. 500KB/s or 5MB/s; +/- change it during the transfer
+    --streams <n> Send a folder over n connections at once, for high-latency links (send only)
+    --follow-symlinks  Send the files and folders symlinks point to instead of the links (send only)
+    --stats       When done, show bytes, time, average/peak throughput and the connection path and RTT
+    --stall-timeout  Give up (or reconnect) after this long without progress, e.g. 2m (default 30s)
+    --yes, -y     Accept the transfer without showing the file list prompt (receive only)
+    --include     Only download matching files or folders; repeatable (receive only)
+    --exclude     Skip matching files or folders; repeatable (on send: leave them out of the folder)
+    --respect-gitignore  Leave out what .gitignore files list, and .git folders (send only)
+    --preserve-perms  Keep file modes as sent instead of applying the umask; setuid/setgid are always dropped (receive only)
+    --preserve-owner  Restore the sender's numeric uid/gid; only when running as root (receive only)
+
+  Config file:
+    ${configPath()}
+    e.g. { "bootstrap": ["dht.example.internal:49737"], "limit": "5MB/s",
+           "schedule": [{ "from": "22:00", "to": "07:00", "limit": "unlimited" }] }
 
   Interactive Mode:
     Launch with no arguments to enter interactive shell mode.
@@ -29,36 +79,165 @@ const cli = meow(`
 `, {
   importMeta: import.meta,
   flags: {
-    output: { type: 'string', shortFlag: 'o' }
+    output: { type: 'string', shortFlag: 'o' },
+    code: { type: 'boolean', shortFlag: 'c', default: false },
+    maxDownloads: { type: 'number' },
+    multi: { type: 'boolean', default: false },
+    transport: { type: 'string', default: 'auto', choices: ['auto', 'hyperswarm', 'lan', 'tcp'] },
+    listen: { type: 'string' },
+    connect: { type: 'string' },
+    bootstrap: { type: 'string', isMultiple: true },
+    wait: { type: 'string' },
+    verify: { type: 'boolean', default: false },
+    limit: { type: 'string' },
+    streams: { type: 'number', default: 1 },
+    followSymlinks: { type: 'boolean', default: false },
+    respectGitignore: { type: 'boolean', default: false },
+    stats: { type: 'boolean', default: false },
+    stallTimeout: { type: 'string' },
+    yes: { type: 'boolean', shortFlag: 'y', default: false },
+    include: { type: 'string', isMultiple: true },
+    exclude: { type: 'string', isMultiple: true },
+    preservePerms: { type: 'boolean', default: false },
+    preserveOwner: { type: 'boolean', default: false }
   }
 });
 
 const [command, arg] = cli.input;
 
+/**
+ * Load the config file, exiting if it's invalid
+ */
+async function config(): Promise<EzshareConfig> {
+  try {
+    return await loadConfig();
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Build transport options from --transport/--listen/--connect/--bootstrap
+ * and the config file
+ */
+function transportOptions(config: EzshareConfig): TransportOptions {
+  const { transport, listen, connect } = cli.flags;
+  if (transport !== 'tcp') {
+    if (listen || connect) {
+      console.error('Error: --listen and --connect need --transport tcp');
+      process.exit(1);
+    }
+
+    try {
+      const bootstrap = cli.flags.bootstrap?.length
+        ? cli.flags.bootstrap.map(parseBootstrapNode)
+        : config.bootstrap;
+      return { kind: transport as 'auto' | 'hyperswarm' | 'lan', bootstrap };
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  if (!listen === !connect) {
+    console.error('Error: --transport tcp needs exactly one of --listen [host]:port or --connect host:port');
+    process.exit(1);
+  }
+  try {
+    return listen
+      ? { kind: 'tcp', listen: parseHostPort(listen) }
+      : { kind: 'tcp', connect: parseHostPort(connect!) };
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Parse a duration flag (--wait, --stall-timeout) into milliseconds
+ *
+ * @param fallback - When the flag isn't given (undefined keeps the command's own default)
+ */
+function durationOption(flag: 'wait' | 'stallTimeout', fallback?: number): number | undefined {
+  const value = cli.flags[flag];
+  if (value === undefined) return fallback;
+  try {
+    return parseDuration(value);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Bandwidth limit: --limit wins over the config file's limit and schedule
+ */
+function rateOption(config: EzshareConfig): RateSettings {
+  if (cli.flags.limit === undefined) {
+    return { limit: config.limit, schedule: config.schedule };
+  }
+  try {
+    return { limit: parseRate(cli.flags.limit) };
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
 // Interactive shell mode (no arguments)
 if (!command) {
-  render(<Shell />);
+  render(<Shell />, { exitOnCtrlC: false });
 }
 // Direct CLI mode - Send
 else if (command === 'send') {
   if (!arg) {
     console.error('Error: Please specify a file or directory to send');
-    console.log('Usage: ezshare send <path>');
+    console.log('Usage: ezshare send <path>... [--code | --max-downloads <n> | --multi]');
+    process.exit(1);
+  }
+
+  const { maxDownloads, multi, streams } = cli.flags;
+  if (maxDownloads !== undefined && (!Number.isInteger(maxDownloads) || maxDownloads < 1)) {
+    console.error('Error: --max-downloads must be a positive whole number');
+    process.exit(1);
+  }
+  if (!Number.isInteger(streams) || streams < 1 || streams > MAX_STREAMS) {
+    console.error(`Error: --streams must be a whole number from 1 to ${MAX_STREAMS}`);
+    process.exit(1);
+  }
+  if (streams > 1 && (multi || (maxDownloads ?? 1) > 1)) {
+    console.error('Error: --streams only works with a single receiver');
+    process.exit(1);
+  }
+  if (cli.flags.code && (multi || (maxDownloads ?? 1) > 1)) {
+    console.error('Error: --code only works with a single receiver (each one would be another guess at the code)');
+    process.exit(1);
+  }
+
+  const settings = await config();
+  const transport = transportOptions(settings);
+  if ((multi || (maxDownloads ?? 1) > 1) && transport.kind === 'tcp' && 'connect' in transport) {
+    console.error('Error: serving several receivers needs --listen, not --connect');
     process.exit(1);
   }
 
-  render(<SendCommand path={arg} onComplete={() => process.exit(0)} onError={() => process.exit(1)} />);
+  render(<SendCommand paths={cli.input.slice(1)} shortCode={cli.flags.code} maxDownloads={multi ? Infinity : maxDownloads ?? 1} transport={transport} wait={durationOption('wait')} verify={cli.flags.verify} rate={rateOption(settings)} streams={streams} symlinks={cli.flags.followSymlinks ? 'follow' : 'keep'} exclude={cli.flags.exclude} respectGitignore={cli.flags.respectGitignore} stats={cli.flags.stats} stallTimeout={durationOption('stallTimeout', DEFAULT_STALL_TIMEOUT)} onComplete={() => process.exit(0)} onCancel={() => process.exit(130)} onError={() => process.exit(1)} />, { exitOnCtrlC: false });
 }
 // Direct CLI mode - Receive
 else if (command === 'receive') {
   if (!arg) {
-    console.error('Error: Please specify a share key');
-    console.log('Usage: ezshare receive <key> [--output <dir>]');
+    console.error('Error: Please specify a share key or short code');
+    console.log('Usage: ezshare receive <key|code> [--output <dir>] [--yes] [--include <glob>] [--exclude <glob>]');
     process.exit(1);
   }
 
+  // A short code typed with spaces ("7 orbit lantern") is still one code
+  const shareKey = cli.input.slice(1).join('-');
   const outputPath = cli.flags.output || process.cwd();
-  render(<ReceiveCommand shareKey={arg} outputPath={outputPath} onComplete={() => process.exit(0)} onError={() => process.exit(1)} />);
+  const settings = await config();
+  const transport = transportOptions(settings);
+  render(<ReceiveCommand shareKey={shareKey} outputPath={outputPath} autoAccept={cli.flags.yes} include={cli.flags.include} exclude={cli.flags.exclude} transport={transport} wait={durationOption('wait')} verify={cli.flags.verify} rate={rateOption(settings)} stats={cli.flags.stats} stallTimeout={durationOption('stallTimeout', DEFAULT_STALL_TIMEOUT)} preservePermissions={cli.flags.preservePerms} preserveOwner={cli.flags.preserveOwner} onComplete={() => process.exit(0)} onCancel={() => process.exit(130)} onError={() => process.exit(1)} />, { exitOnCtrlC: false });
 }
 else {
   cli.showHelp();
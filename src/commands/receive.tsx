@@ -1,13 +1,57 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Box, Text } from 'ink';
 import { Spinner, ProgressBar } from '@inkjs/ui';
 import { pipeline } from 'node:stream/promises';
-import { Transform, PassThrough } from 'node:stream';
+import { Transform, type Duplex } from 'node:stream';
 import { appendFileSync } from 'node:fs';
-import { parseTopicKey, deriveKey, createDecryptStream } from '../utils/crypto.js';
+import { parseTopicKey, createDecryptStream } from '../utils/crypto.js';
+import { establishSession } from '../utils/handshake.js';
+import { exchangeHello, localHello } from '../utils/protocol.js';
+import {
+  createControlChannel,
+  confirmFingerprint,
+  isTransferManifest,
+  parseControlMessage,
+  cancelledError,
+  TransferCancelledError,
+  TransferStalledError,
+  type ControlChannel,
+} from '../utils/control.js';
+import { createWatchdog, startHeartbeat, DEFAULT_STALL_TIMEOUT, type Watchdog } from '../utils/keepalive.js';
+import { createMux, CHANNEL_CONTROL, CHANNEL_DATA } from '../utils/mux.js';
 import { createDecompressStream } from '../utils/compression.js';
-import { createExtractStream } from '../utils/tar.js';
-import { createReceiverSwarm, cleanupSwarm } from '../utils/network.js';
+import { createExtractStream, type ExtractTracker, type TransferManifest } from '../utils/tar.js';
+import type { UnsafeEntryError } from '../utils/sandbox.js';
+import { createAttributeRestorer } from '../utils/attributes.js';
+import {
+  openTransport,
+  waitForPeerWithRetry,
+  backoffDelay,
+  type TransportOptions,
+} from '../utils/transport.js';
+import { getConnectionInfo, formatConnectionInfo, type ConnectionInfo } from '../utils/network.js';
+import { formatSummary, type TransferSummary } from '../utils/stats.js';
+import { selectEntries } from '../utils/selection.js';
+import { createThrottleStream, type RateSettings } from '../utils/throttle.js';
+import {
+  journalPath,
+  loadJournal,
+  planResume,
+  createJournalRecorder,
+  type JournalRecorder,
+  type ResumeRequest,
+} from '../utils/resume.js';
+import {
+  joinStream,
+  parseParallelPlan,
+  STREAM_TIMEOUT,
+  type ParallelPlan,
+} from '../utils/parallel.js';
+import { ManifestPrompt } from '../components/ManifestPrompt.js';
+import { FingerprintPrompt } from '../components/FingerprintPrompt.js';
+import { useRateLimiter, RateLimitStatus } from '../components/RateLimit.js';
+import { useTransferMeter, ThroughputStatus, StatsSummary } from '../components/Throughput.js';
+import { useCancelKeys } from '../components/Cancel.js';
 
 // Debug logging to file (Ink captures stdout)
 const LOG_FILE = '/tmp/ezshare_debug.log';
@@ -24,11 +68,28 @@ function debugLog(message: string) {
 interface ReceiveCommandProps {
   shareKey: string;
   outputPath?: string;
+  autoAccept?: boolean;
+  include?: string[];
+  exclude?: string[];
+  transport?: TransportOptions;
+  wait?: number; // How long to look for the sender (ms, Infinity for no limit)
+  verify?: boolean; // Both users confirm the session fingerprint before receiving
+  rate?: RateSettings; // Bandwidth limit (--limit or the config file)
+  stats?: boolean; // Show a transfer summary when done (--stats)
+  stallTimeout?: number; // Give up after this long without progress (ms, --stall-timeout)
+  preservePermissions?: boolean; // Modes as sent instead of through the umask (--preserve-perms)
+  preserveOwner?: boolean; // Owners as sent, when running as root (--preserve-owner)
   onComplete?: () => void;
+  onCancel?: () => void; // The user pressed Esc or Ctrl-C
   onError?: (error: Error) => void;
 }
 
-type ReceiveState = 'connecting' | 'receiving' | 'done' | 'error';
+type ReceiveState = 'connecting' | 'verify' | 'confirm' | 'receiving' | 'reconnecting' | 'done' | 'declined' | 'cancelled' | 'error';
+
+// Constants
+const MAX_RECONNECTS = 5; // Dropped connections to recover from during one transfer
+const CANCEL_GRACE = 300; // Time for the cancel message to go out before hanging up
+const MAX_REJECTS_SHOWN = 5; // Skipped entries listed when done; the rest are in the log
 
 interface TransferMetadata {
   totalSize: number;
@@ -37,136 +98,488 @@ interface TransferMetadata {
   compressed: boolean;
 }
 
-export function ReceiveCommand({ shareKey, outputPath = process.cwd(), onComplete, onError }: ReceiveCommandProps) {
+/**
+ * Validate the decrypted metadata record
+ *
+ * @throws Error if the record isn't the JSON object the sender should send
+ */
+function parseTransferMetadata(record: Buffer): TransferMetadata {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(record.toString('utf-8'));
+  } catch {
+    throw new Error('Invalid transfer metadata: not valid JSON');
+  }
+
+  const value = parsed as Partial<TransferMetadata> | null;
+  if (
+    !value ||
+    typeof value.totalSize !== 'number' || value.totalSize < 0 ||
+    typeof value.fileCount !== 'number' || value.fileCount < 0 ||
+    typeof value.isDirectory !== 'boolean' ||
+    typeof value.compressed !== 'boolean'
+  ) {
+    throw new Error('Invalid transfer metadata: missing or malformed fields');
+  }
+
+  return {
+    totalSize: value.totalSize,
+    fileCount: value.fileCount,
+    isDirectory: value.isDirectory,
+    compressed: value.compressed,
+  };
+}
+
+export function ReceiveCommand({
+  shareKey,
+  outputPath = process.cwd(),
+  autoAccept = false,
+  include = [],
+  exclude = [],
+  transport,
+  wait,
+  verify = false,
+  rate: rateSettings,
+  stats = false,
+  stallTimeout = DEFAULT_STALL_TIMEOUT,
+  preservePermissions = false,
+  preserveOwner = false,
+  onComplete,
+  onCancel,
+  onError,
+}: ReceiveCommandProps) {
   const [state, setState] = useState<ReceiveState>('connecting');
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<TransferMetadata | null>(null);
+  const [manifest, setManifest] = useState<TransferManifest | null>(null);
+  const [initialSelection, setInitialSelection] = useState<Set<string>>(new Set());
+  const [resumable, setResumable] = useState(false);
+  const [attempt, setAttempt] = useState(1);
+  const [reconnects, setReconnects] = useState(0);
+  const [fingerprint, setFingerprint] = useState('');
+  const [verifying, setVerifying] = useState(false); // Prompt is up
+  const decide = useRef<((selection: Set<string> | null) => void) | null>(null);
+  const answerFingerprint = useRef<((match: boolean) => void) | null>(null);
+  const [summary, setSummary] = useState<TransferSummary | null>(null);
+  const [rejected, setRejected] = useState<UnsafeEntryError[]>([]); // Entries the sandbox refused
+  const { limiter, rate } = useRateLimiter(rateSettings);
+  const { meter, rate: throughput, eta } = useTransferMeter();
+  const cancelled = useRef(false);
+  const session = useRef<{ control: ControlChannel | null; hangUp: () => void } | null>(null);
+  const closeEndpoint = useRef<(() => Promise<void>) | null>(null);
+  const running = useRef<Promise<void> | null>(null);
+
+  // Esc/Ctrl-C: tell the sender (the control channel is free in our
+  // direction the whole time), then hang up; the journal keeps what we have
+  const cancel = async () => {
+    if (cancelled.current) return;
+    cancelled.current = true;
+    debugLog('[Receiver] Cancelled by user');
+    setState('cancelled');
+    try {
+      session.current?.control?.send({ type: 'cancel' });
+    } catch {
+      // Socket already gone
+    }
+    await new Promise(resolve => setTimeout(resolve, CANCEL_GRACE));
+    session.current?.hangUp();
+    await closeEndpoint.current?.().catch(() => undefined);
+    // Let the journal be saved before the caller exits
+    await Promise.race([running.current, new Promise(resolve => setTimeout(resolve, 1000))]);
+    if (onCancel) {
+      onCancel();
+    }
+  };
+  useCancelKeys(cancel, state === 'connecting' || state === 'verify' || state === 'receiving' || state === 'reconnecting');
 
   useEffect(() => {
-    startReceiving();
+    running.current = startReceiving();
   }, []);
 
   const startReceiving = async () => {
+    // Progress journal, so a dropped transfer can pick up where it stopped
+    const journalFile = journalPath(outputPath, shareKey);
+    let recorder: JournalRecorder | null = null;
+    // Folder times and modes are set once, when every stream and reconnect is done
+    const attributes = createAttributeRestorer({ preservePermissions, preserveOwner });
+
     try {
-      // Parse share key to get topic
-      const topic = parseTopicKey(shareKey);
-
-      // Derive encryption key from topic
-      const encryptionKey = deriveKey(topic);
-
-      // Create receiver swarm and get connection promise
-      const { swarm, connectionPromise } = await createReceiverSwarm(topic);
-
-      // Wait for peer connection (listener already registered)
-      const socket = await connectionPromise;
-      debugLog('[Receiver] Connected to sender');
-
-      // Add socket error handler
-      socket.on('error', (err) => {
-        debugLog('[Receiver] Socket error: ' + err);
-      });
-
-      socket.on('end', () => {
-        debugLog('[Receiver] Socket end event received');
-      });
-
-      socket.on('close', () => {
-        debugLog('[Receiver] Socket closed');
-      });
-
-      // Read metadata first (JSON header followed by newline)
-      const metadataBuffer: Buffer[] = [];
-      let metadataReceived = false;
-      let transferMetadata: TransferMetadata | null = null;
-
-      // Create a passthrough to split metadata from file data
-      const metadataExtractor = new Transform({
-        transform(chunk, encoding, callback) {
-          if (!metadataReceived) {
-            metadataBuffer.push(chunk);
-            const combined = Buffer.concat(metadataBuffer);
-            const newlineIndex = combined.indexOf('\n');
-
-            if (newlineIndex !== -1) {
-              // Found metadata
-              try {
-                const metadataJson = combined.slice(0, newlineIndex).toString();
-                debugLog('[Receiver] Received metadata: ' + metadataJson);
-                transferMetadata = JSON.parse(metadataJson);
-                setMetadata(transferMetadata);
+      // Parse share key (or short code) to get the discovery topic
+      const key = parseTopicKey(shareKey);
+      const { topic } = key;
+
+      // Open the transport (LAN and Hyperswarm DHT by default)
+      const endpoint = await openTransport(topic, 'receiver', transport);
+      closeEndpoint.current = () => endpoint.close();
+      debugLog(`[Receiver] Transport ready (${endpoint.description})`);
+
+      // What the user picked on the first connection; reconnects reuse it
+      let chosen: Set<string> | null = null;
+
+      // Every stream's connection, for the summary
+      const connections: ConnectionInfo[] = [];
+
+      for (let reconnect = 0; ; reconnect++) {
+        // Look for the sender, retrying discovery with backoff
+        const socket = await waitForPeerWithRetry(endpoint, { wait, onAttempt: setAttempt });
+        debugLog(`[Receiver] Connected to sender (${formatConnectionInfo(getConnectionInfo(socket))})`);
+
+        let streaming = false;
+        let stopHeartbeat = () => {};
+        session.current = { control: null, hangUp: () => socket.destroy() };
+
+        // Add socket error handler
+        socket.on('error', (err) => {
+          debugLog('[Receiver] Socket error: ' + err);
+        });
+
+        socket.on('end', () => {
+          debugLog('[Receiver] Socket end event received');
+        });
+
+        socket.on('close', () => {
+          debugLog('[Receiver] Socket closed');
+        });
+
+        try {
+          // Agree on protocol version and features before anything else
+          const protocol = await exchangeHello(socket, 'receiver', localHello({ verify }));
+          debugLog(`[Receiver] Negotiated protocol v${protocol.version} (${protocol.cipher})`);
+
+          // PAKE (short codes) + ephemeral X25519: fresh keys for this session only
+          const { receiveKey, controlSendKey, controlReceiveKey, fingerprint } =
+            await establishSession(socket, 'receiver', key, protocol.transcript);
+          debugLog('[Receiver] Session keys established');
+          setFingerprint(fingerprint);
+
+          // Control messages and data on channels of their own (see mux.ts),
+          // or one after the other on the bare socket with an older sender
+          const channels = protocol.extensions.includes('mux') ? createMux(socket) : null;
+          const controlStream = channels ? channels.channel(CHANNEL_CONTROL) : socket;
+          const dataStream = channels ? channels.channel(CHANNEL_DATA) : socket;
+
+          let watchdog: Watchdog | null = null;
+          const control = createControlChannel(controlStream, controlSendKey, controlReceiveKey, {
+            peer: 'sender',
+            onActivity: () => watchdog?.touch(),
+          });
+
+          // Heartbeats for the whole session, so the sender knows we're
+          // still here even while the user looks at a prompt
+          if (protocol.extensions.includes('keepalive')) {
+            session.current.control = control;
+            stopHeartbeat = startHeartbeat(() => control.send({ type: 'heartbeat' }));
+          }
 
-                // Push remaining data after newline
-                const remainingData = combined.slice(newlineIndex + 1);
-                debugLog(`[Receiver] Metadata extracted, ${remainingData.length} bytes of data after newline`);
-                if (remainingData.length > 0) {
-                  this.push(remainingData);
+          // With --verify on either side, both users confirm they see the
+          // same words before the manifest or any data comes through
+          if (protocol.verify) {
+            setVerifying(true);
+            setState('verify');
+            try {
+              await confirmFingerprint(control, new Promise<boolean>((resolve) => {
+                answerFingerprint.current = (match) => {
+                  setVerifying(false);
+                  resolve(match);
+                };
+              }));
+            } finally {
+              setVerifying(false);
+            }
+            debugLog('[Receiver] Fingerprint confirmed on both sides');
+          }
+
+          // Look at the manifest and let the user accept or decline
+          let resumeFrom: { path: string; offset: number } | undefined;
+          if (protocol.extensions.includes('manifest')) {
+            const message = await control.receive();
+            if (message.type !== 'manifest' || !isTransferManifest(message.manifest)) {
+              throw new Error('Sender did not send a valid transfer manifest');
+            }
+            debugLog(`[Receiver] Received manifest with ${message.manifest.entries.length} entries`);
+
+            if (!chosen) {
+              // Start from --include/--exclude, then let the user adjust
+              const filtered = selectEntries(message.manifest, { include, exclude });
+              let selection: Set<string> | null = filtered;
+              if (autoAccept) {
+                if (filtered.size === 0) {
+                  selection = null;
+                  setError('No files match --include/--exclude');
                 }
+              } else {
+                setManifest(message.manifest);
+                setInitialSelection(filtered);
+                setState('confirm');
+                selection = await new Promise<Set<string> | null>((resolve) => {
+                  decide.current = resolve;
+                });
+              }
 
-                metadataReceived = true;
-              } catch (err) {
-                debugLog('[Receiver] Failed to parse metadata: ' + err);
-                callback(err as Error);
+              if (!selection) {
+                debugLog('[Receiver] Transfer declined');
+                control.send({ type: 'decline' });
+                socket.end();
+
+                // Give the decline a moment to reach the sender before tearing down
+                await new Promise(resolve => setTimeout(resolve, 100));
+                await endpoint.close();
+                setState('declined');
+
+                if (onComplete) {
+                  onComplete();
+                }
                 return;
               }
+              chosen = selection;
+            }
+
+            // Check what an earlier attempt already got onto disk
+            let resume: ResumeRequest | undefined;
+            if (protocol.extensions.includes('resume')) {
+              const plan = await planResume(await loadJournal(journalFile), message.manifest, outputPath);
+              if (plan.request.completed.length > 0 || plan.request.partial) {
+                resume = plan.request;
+                resumeFrom = plan.request.partial;
+                debugLog(
+                  `[Receiver] Resuming: ${plan.request.completed.length} file(s) already complete` +
+                  (plan.request.partial ? `, ${plan.request.partial.path} from byte ${plan.request.partial.offset}` : '')
+                );
+              }
+              recorder = createJournalRecorder(journalFile, plan, message.manifest);
+            }
+
+            // Only list paths when the receiver wants part of the transfer
+            const partial = chosen.size < message.manifest.entries.length;
+            control.send({ type: 'accept', selection: partial ? [...chosen] : undefined, resume });
+            debugLog(`[Receiver] Transfer accepted (${partial ? `${chosen.size} entries` : 'everything'})`);
+          }
+
+          // How many connections the sender spreads the files over (--streams)
+          let plan: ParallelPlan | null = null;
+          if (protocol.extensions.includes('parallel')) {
+            const message = await control.receive();
+            if (message.type !== 'parallel') {
+              throw new Error(`Unexpected control message from sender: ${message.type}`);
+            }
+            plan = parseParallelPlan(message.streams, message.secret);
+            debugLog(`[Receiver] Receiving over ${plan.streams} stream(s)`);
+          }
+
+          // Metadata arrives as the encrypted metadata record, before any data
+          // (the same record on every stream)
+          let transferMetadata: TransferMetadata | null = null;
+
+          // Data or the sender's heartbeats must keep coming (see keepalive.ts)
+          let stalled: TransferStalledError | null = null;
+          watchdog = createWatchdog(stallTimeout, () => {
+            debugLog(`[Receiver] No progress for ${stallTimeout}ms, giving up`);
+            stalled = new TransferStalledError('sender', stallTimeout);
+            abort();
+          });
+
+          // Create progress trackers, one per stream, counting towards one total
+          let transferred = 0;
+          const createProgressTracker = () => new Transform({
+            transform(chunk, encoding, callback) {
+              watchdog.touch();
+              if (transferMetadata) {
+                transferred += chunk.length;
+                meter.add(chunk.length);
+                const pct = Math.round((transferred / transferMetadata.totalSize) * 100);
+                setProgress(Math.min(pct, 100));
+              }
+              callback(null, chunk);
+            },
+          });
+
+          // Start receiving
+          streaming = true;
+          setProgress(0);
+          setState('receiving');
+          debugLog('[Receiver] Starting receive pipeline');
+
+          // Build the pipeline: Socket → Throttle → Decrypt (metadata first) → Decompress → Progress → Tar Extract
+          const receiveFrom = async (
+            stream: Duplex,
+            streamKey: Buffer,
+            tracker?: ExtractTracker,
+            connection = stream
+          ): Promise<void> => {
+            const decryptStream = createDecryptStream(streamKey, {
+              onMetadata: (record) => {
+                const parsed = parseTransferMetadata(record);
+                if (transferMetadata) return;
+                transferMetadata = parsed;
+                debugLog('[Receiver] Received metadata: ' + JSON.stringify(transferMetadata));
+                meter.start(parsed.totalSize);
+                setMetadata(transferMetadata);
+              },
+              // Heartbeats, or the sender cancelling (thrown to fail the pipeline)
+              onControl: (record) => {
+                watchdog.touch();
+                const message = parseControlMessage(record);
+                const cancelled = cancelledError(message, 'sender');
+                if (cancelled) {
+                  debugLog(`[Receiver] ${cancelled.message}`);
+                  throw cancelled;
+                }
+              },
+            });
+            const decompressStream = await createDecompressStream();
+            const extractStream = createExtractStream(outputPath, {
+              resume: resumeFrom,
+              tracker,
+              attributes,
+              onReject: (err) => {
+                debugLog(`[Receiver] ${err.message}`);
+                setRejected((prev) => [...prev, err]);
+              },
+            });
+
+            await pipeline(
+              stream,
+              createThrottleStream(limiter),
+              decryptStream,
+              decompressStream,
+              createProgressTracker(),
+              extractStream
+            );
+
+            // Read once the data is through, when the RTT has settled
+            connections.push(getConnectionInfo(connection));
+          };
+
+          // Open the extra connections one after another while the first one
+          // is already receiving; the sender hands their files to the others
+          // if any of them doesn't come up
+          const extras: Duplex[] = [];
+          let failed = false;
+          const abort = () => {
+            failed = true;
+            socket.destroy();
+            for (const extra of extras) extra.destroy();
+          };
+          session.current.hangUp = abort;
+          const receiveExtras = async (): Promise<void> => {
+            if (!plan) return;
+            const running: Array<Promise<void>> = [];
+
+            for (let index = 1; index < plan.streams && !failed; index++) {
+              let extra: Duplex | undefined;
+              let streamKey: Buffer;
+              try {
+                extra = await endpoint.waitForPeer(STREAM_TIMEOUT);
+                extras.push(extra);
+                extra.on('error', (err) => {
+                  debugLog(`[Receiver] Stream ${index} socket error: ${err}`);
+                });
+                ({ receiveKey: streamKey } = await joinStream(extra, 'receiver', plan.secret));
+              } catch (err) {
+                extra?.destroy();
+                debugLog(`[Receiver] Stream ${index} did not come up (${(err as Error).message}), carrying on with ${index}`);
+                break;
+              }
+
+              debugLog(`[Receiver] Stream ${index} joined (${formatConnectionInfo(getConnectionInfo(extra))})`);
+              const run = receiveFrom(extra, streamKey, recorder?.tracker());
+              run.catch(abort);
+              running.push(run);
             }
-            callback();
-          } else {
-            // Pass through file data
-            callback(null, chunk);
+
+            await Promise.all(running);
+          };
+
+          // With mux the sender's heartbeats and a cancel come on the control
+          // channel while the data flows (without it, inside the data stream)
+          let peerCancelled: TransferCancelledError | null = null;
+          if (channels) {
+            (async () => {
+              const message = await control.receive();
+              throw new Error(`Unexpected control message from sender: ${message.type}`);
+            })().catch((err: Error) => {
+              if (failed) return;
+              debugLog(`[Receiver] ${err.message}`);
+              if (err instanceof TransferCancelledError) peerCancelled = err;
+              abort();
+            });
+          }
+
+          try {
+            await Promise.all([
+              receiveFrom(dataStream, receiveKey, recorder ?? undefined, socket),
+              receiveExtras(),
+            ]);
+          } catch (err) {
+            abort();
+            throw stalled ?? peerCancelled ?? err;
+          } finally {
+            watchdog.stop();
           }
-        },
-      });
-
-      // Create progress tracker
-      let transferred = 0;
-      const progressTracker = new Transform({
-        transform(chunk, encoding, callback) {
-          if (transferMetadata) {
-            transferred += chunk.length;
-            const pct = Math.round((transferred / transferMetadata.totalSize) * 100);
-            setProgress(Math.min(pct, 100));
+          break;
+        } catch (err) {
+          // A connection lost or stalled mid-transfer is worth another try:
+          // the sender keeps waiting with the same key and we resume from
+          // the journal. A cancel on either side is final.
+          if (
+            !streaming ||
+            reconnect >= MAX_RECONNECTS ||
+            cancelled.current ||
+            err instanceof TransferCancelledError
+          ) {
+            throw err;
           }
-          callback(null, chunk);
-        },
-      });
-
-      // Start receiving
-      setState('receiving');
-      debugLog('[Receiver] Starting receive pipeline');
-
-      // Build the pipeline: Socket → Metadata Extractor → Progress → Decrypt → Decompress → Tar Extract
-      const decryptStream = createDecryptStream(encryptionKey);
-      const decompressStream = await createDecompressStream();
-      const extractStream = createExtractStream(outputPath);
-
-      await pipeline(
-        socket,
-        metadataExtractor,
-        progressTracker,
-        decryptStream,
-        decompressStream,
-        extractStream
-      );
+          debugLog(`[Receiver] Connection lost mid-transfer (${(err as Error).message}), reconnecting`);
+          socket.destroy();
+          await recorder?.flush();
+          setReconnects(reconnect + 1);
+          setState('reconnecting');
+          await new Promise(resolve => setTimeout(resolve, backoffDelay(reconnect + 1)));
+        } finally {
+          stopHeartbeat();
+        }
+      }
 
       debugLog('[Receiver] Pipeline completed successfully');
+      await attributes.finish();
+      await recorder?.discard();
 
       // Transfer complete
+      const result = meter.summary(connections);
+      for (const line of formatSummary(result)) {
+        debugLog(`[Receiver] ${line}`);
+      }
+      if (stats) setSummary(result);
       setState('done');
 
       // Receiver cleanup - small delay to ensure socket is fully closed
       await new Promise(resolve => setTimeout(resolve, 100));
-      debugLog('[Receiver] Cleaning up receiver swarm');
-      await cleanupSwarm(swarm);
+      debugLog('[Receiver] Closing transport');
+      await endpoint.close();
 
       if (onComplete) {
         onComplete();
       }
     } catch (err) {
+      // Keep whatever made it to disk for the next attempt
+      if (recorder) {
+        await recorder.flush();
+        setResumable(true);
+      }
+
+      // Our own cancel: cancel() takes it from here
+      if (cancelled.current) return;
+
+      // Stop looking for the sender (the shell carries on)
+      await closeEndpoint.current?.().catch(() => undefined);
+
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       setError(errorMessage);
-      setState('error');
+      setState(err instanceof TransferCancelledError ? 'cancelled' : 'error');
 
+      // Give the error a moment to render before the caller exits
+      await new Promise(resolve => setTimeout(resolve, 100));
       if (onError) {
         onError(err as Error);
       }
@@ -185,9 +598,49 @@ export function ReceiveCommand({ shareKey, outputPath = process.cwd(), onComplet
         </Text>
       )}
 
+      {fingerprint && state !== 'connecting' && state !== 'reconnecting' && state !== 'verify' && (
+        <Text dimColor>Fingerprint: {fingerprint}</Text>
+      )}
+
       {state === 'connecting' && (
         <Box marginTop={1}>
-          <Spinner label="Connecting to peer..." />
+          <Spinner
+            label={attempt > 1 ? `Connecting to peer (attempt ${attempt})...` : 'Connecting to peer...'}
+          />
+        </Box>
+      )}
+
+      {state === 'reconnecting' && (
+        <Box marginTop={1}>
+          <Spinner
+            label={`Connection lost. Reconnecting to resume (reconnect ${reconnects} of ${MAX_RECONNECTS}, attempt ${attempt})...`}
+          />
+        </Box>
+      )}
+
+      {state === 'verify' && verifying && (
+        <Box marginTop={1}>
+          <FingerprintPrompt
+            fingerprint={fingerprint}
+            onAnswer={(match) => answerFingerprint.current?.(match)}
+          />
+        </Box>
+      )}
+
+      {state === 'verify' && !verifying && (
+        <Box marginTop={1}>
+          <Spinner label="Waiting for sender to confirm the fingerprint..." />
+        </Box>
+      )}
+
+      {state === 'confirm' && manifest && (
+        <Box marginTop={1}>
+          <ManifestPrompt
+            manifest={manifest}
+            initialSelection={initialSelection}
+            onAccept={(selection) => decide.current?.(selection)}
+            onDecline={() => decide.current?.(null)}
+          />
         </Box>
       )}
 
@@ -204,22 +657,69 @@ export function ReceiveCommand({ shareKey, outputPath = process.cwd(), onComplet
         </Box>
       )}
 
+      {state === 'receiving' && (
+        <Box marginTop={1} flexDirection="column">
+          <ThroughputStatus rate={throughput} eta={eta} />
+          <RateLimitStatus rate={rate} />
+        </Box>
+      )}
+
       {state === 'done' && (
         <Box marginTop={1} flexDirection="column">
           <Text color="green" bold>
             ✓ Transfer complete!
           </Text>
           <Text dimColor>Saved to: {outputPath}</Text>
+          {summary && <StatsSummary summary={summary} />}
+          {rejected.length > 0 && (
+            <Box marginTop={1} flexDirection="column">
+              <Text color="yellow">
+                ⚠ Skipped {rejected.length} unsafe {rejected.length === 1 ? 'entry' : 'entries'}:
+              </Text>
+              {rejected.slice(0, MAX_REJECTS_SHOWN).map((err, index) => (
+                <Text key={index} dimColor>  {err.path}: {err.reason}</Text>
+              ))}
+              {rejected.length > MAX_REJECTS_SHOWN && (
+                <Text dimColor>  ...and {rejected.length - MAX_REJECTS_SHOWN} more (see {LOG_FILE})</Text>
+              )}
+            </Box>
+          )}
           <Text dimColor>Press Esc to return</Text>
         </Box>
       )}
 
+      {state === 'declined' && (
+        <Box marginTop={1} flexDirection="column">
+          <Text color="yellow" bold>
+            ✗ Transfer declined
+          </Text>
+          <Text dimColor>{error ?? 'Nothing was saved'}</Text>
+          <Text dimColor>Press Esc to return</Text>
+        </Box>
+      )}
+
+      {state === 'cancelled' && (
+        <Box marginTop={1} flexDirection="column">
+          <Text color="yellow" bold>
+            ✗ Transfer cancelled
+          </Text>
+          <Text dimColor>{error ?? 'The sender was told you cancelled'}</Text>
+          {resumable && (
+            <Text color="yellow">Progress was saved. Run the same receive command again to resume.</Text>
+          )}
+          {error && <Text dimColor>Press Esc to return</Text>}
+        </Box>
+      )}
+
       {state === 'error' && (
         <Box marginTop={1} flexDirection="column">
           <Text color="red" bold>
             ✗ Transfer failed
           </Text>
           <Text color="red">{error}</Text>
+          {resumable && (
+            <Text color="yellow">Progress was saved. Run the same receive command again to resume.</Text>
+          )}
           <Text dimColor>Press Esc to return</Text>
         </Box>
       )}
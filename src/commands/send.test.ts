@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { PassThrough } from 'node:stream';
+import React from 'react';
+import { render } from 'ink';
+import { SendCommand } from './send.js';
+
+describe('SendCommand', () => {
+  it('should refuse a short code with several receivers', async () => {
+    // Not a terminal: nothing here reads keys
+    const stdin = new PassThrough() as unknown as NodeJS.ReadStream;
+    const stdout = Object.assign(new PassThrough(), { columns: 80 }) as unknown as NodeJS.WriteStream;
+    stdout.resume();
+
+    const error = await new Promise<Error>((resolve) => {
+      const instance = render(
+        React.createElement(SendCommand, {
+          paths: ['missing.txt'],
+          shortCode: true,
+          maxDownloads: 2,
+          onError: (err: Error) => {
+            instance.unmount();
+            resolve(err);
+          },
+        }),
+        { stdin, stdout, stderr: stdout, debug: true, patchConsole: false, exitOnCtrlC: false }
+      );
+    });
+
+    assert.match(error.message, /single receiver/);
+  });
+});
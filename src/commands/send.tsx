@@ -1,13 +1,53 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Box, Text } from 'ink';
 import { Spinner, ProgressBar } from '@inkjs/ui';
 import { pipeline } from 'node:stream/promises';
-import { Transform } from 'node:stream';
+import { Transform, type Duplex } from 'node:stream';
+import { basename } from 'node:path';
 import { appendFileSync } from 'node:fs';
-import { generateTopicKey, deriveKey, createEncryptStream } from '../utils/crypto.js';
+import {
+  generateTopicKey,
+  generateShortCode,
+  createEncryptStream,
+  type EncryptStream,
+  type ShareKey,
+  type ShortCode,
+} from '../utils/crypto.js';
+import { establishSession } from '../utils/handshake.js';
+import { exchangeHello, localHello } from '../utils/protocol.js';
+import {
+  createControlChannel,
+  confirmFingerprint,
+  TransferDeclinedError,
+  TransferCancelledError,
+  TransferStalledError,
+  type ControlMessage,
+} from '../utils/control.js';
+import { createWatchdog, startHeartbeat, DEFAULT_STALL_TIMEOUT } from '../utils/keepalive.js';
+import { createMux, CHANNEL_CONTROL, CHANNEL_DATA } from '../utils/mux.js';
 import { createCompressStream, shouldCompress } from '../utils/compression.js';
-import { createPackStream, getTransferMetadata } from '../utils/tar.js';
-import { createSenderSwarm, cleanupSwarm } from '../utils/network.js';
+import { createPackStream, getTransferManifest, type SymlinkMode, type TransferManifest } from '../utils/tar.js';
+import { loadIgnoreFilter } from '../utils/ignore.js';
+import { applySelection } from '../utils/selection.js';
+import { checkResumeRequest, applyResume, type ResumeRequest } from '../utils/resume.js';
+import { openTransport, type TransportOptions } from '../utils/transport.js';
+import { getConnectionInfo, formatConnectionInfo, type ConnectionInfo } from '../utils/network.js';
+import { formatSummary, type TransferMeter, type TransferSummary } from '../utils/stats.js';
+import { createThrottleStream, type RateLimiter, type RateSettings } from '../utils/throttle.js';
+import {
+  createParallelPlan,
+  createClaims,
+  claimFilter,
+  joinStream,
+  streamCount,
+  STREAM_TIMEOUT,
+  type ParallelPlan,
+} from '../utils/parallel.js';
+import { PeerList, type PeerStatus } from '../components/PeerList.js';
+import { FingerprintPrompt } from '../components/FingerprintPrompt.js';
+import { useRateLimiter, RateLimitStatus } from '../components/RateLimit.js';
+import { useTransferMeter, ThroughputStatus, StatsSummary } from '../components/Throughput.js';
+import { useCancelKeys } from '../components/Cancel.js';
 
 // Debug logging to file (Ink captures stdout)
 const LOG_FILE = '/tmp/ezshare_debug.log';
@@ -22,147 +62,656 @@ function debugLog(message: string) {
 }
 
 interface SendCommandProps {
-  path: string;
+  paths: string[]; // Files and folders to send; several go into one transfer, each under its own name
+  shortCode?: boolean;
+  maxDownloads?: number; // Receivers to serve; Infinity keeps sharing until stopped
+  transport?: TransportOptions;
+  wait?: number; // How long to wait for a receiver (ms, Infinity for no limit)
+  verify?: boolean; // Both users confirm the session fingerprint before sending
+  rate?: RateSettings; // Bandwidth limit (--limit or the config file)
+  streams?: number; // Connections to spread a folder over (single receiver only)
+  symlinks?: SymlinkMode; // Send symlinks as links or what they point to (--follow-symlinks)
+  exclude?: string[]; // Globs to leave out of a folder (--exclude)
+  respectGitignore?: boolean; // Leave out what .gitignore files do (--respect-gitignore)
+  stats?: boolean; // Show a transfer summary when done (--stats)
+  stallTimeout?: number; // Give up after this long without progress (ms, --stall-timeout)
   onComplete?: () => void;
+  onCancel?: () => void; // The user pressed Esc or Ctrl-C
   onError?: (error: Error) => void;
 }
 
-type SendState = 'init' | 'waiting' | 'sending' | 'done' | 'error';
+type SendState = 'init' | 'waiting' | 'verify' | 'approval' | 'sending' | 'serving' | 'done' | 'declined' | 'cancelled' | 'error';
+
+// Constants
+const CANCEL_GRACE = 300; // Time for the cancel message to go out before hanging up
+
+/**
+ * What every receiver session shares
+ */
+interface Share {
+  key: ShareKey | ShortCode;
+  paths: string[];
+  manifest: TransferManifest;
+  symlinks: SymlinkMode;
+  ignore: (tarPath: string) => boolean; // Excludes and ignore files; the manifest has been through it
+  verify: boolean; // Make both users confirm the fingerprint first (--verify)
+  limiter: RateLimiter; // One limit across all receivers
+  meter: TransferMeter; // One throughput meter across all receivers
+  stallTimeout: number;
+  cancelled: AbortSignal; // Fires when the user cancels, for every session
+  parallel?: { // Extra connections for a folder (--streams, single receiver only)
+    streams: number;
+    waitForPeer: (timeout?: number) => Promise<Duplex>;
+  };
+}
+
+/**
+ * What a single receiver session reports back to the UI
+ */
+interface SessionEvents {
+  onFingerprint: (fingerprint: string) => void;
+  verifyFingerprint: (fingerprint: string) => Promise<boolean>; // Ask the user
+  onApproval: () => void;
+  onStreaming: (totals: { totalSize: number; fileCount: number }) => void;
+  onProgress: (percent: number) => void;
+  onConnection: (info: ConnectionInfo) => void; // Each stream, as its data is through
+}
+
+/**
+ * A fingerprint waiting for the user to compare
+ */
+interface FingerprintCheck {
+  id: number; // Peer it belongs to (0 with a single receiver)
+  fingerprint: string;
+  answer: (match: boolean) => void;
+}
+
+/**
+ * Run one session with a connected receiver
+ *
+ * Resolves once the whole transfer is through and the receiver has closed
+ * the connection.
+ *
+ * @throws TransferDeclinedError if the receiver declines
+ * @throws TransferCancelledError if the receiver cancels
+ * @throws TransferStalledError if nothing moves for the stall timeout
+ * @throws FingerprintMismatchError if either user rejects the fingerprint
+ */
+async function serveReceiver(
+  socket: Duplex,
+  { key, paths, manifest, symlinks, ignore, verify, limiter, meter, stallTimeout, cancelled, parallel }: Share,
+  events: SessionEvents
+): Promise<void> {
+  // Agree on protocol version and features before anything else
+  const protocol = await exchangeHello(socket, 'sender', localHello({ verify }));
+  debugLog(`[Sender] Connection: ${formatConnectionInfo(getConnectionInfo(socket))}`);
+  debugLog(`[Sender] Negotiated protocol v${protocol.version} (${protocol.cipher})`);
+
+  // PAKE (short codes) + ephemeral X25519: fresh keys for this session only
+  const { sendKey, controlSendKey, controlReceiveKey, fingerprint } =
+    await establishSession(socket, 'sender', key, protocol.transcript);
+  debugLog('[Sender] Session keys established');
+  events.onFingerprint(fingerprint);
+
+  socket.on('error', (err) => {
+    debugLog('[Sender] Socket error: ' + err);
+  });
+
+  // Control messages and data on channels of their own (see mux.ts), or
+  // one after the other on the bare socket with an older receiver
+  const channels = protocol.extensions.includes('mux') ? createMux(socket) : null;
+  const controlStream = channels ? channels.channel(CHANNEL_CONTROL) : socket;
+  const dataStream = channels ? channels.channel(CHANNEL_DATA) : socket;
+
+  // The receiver sends heartbeats for the whole session (see keepalive.ts)
+  const keepalive = protocol.extensions.includes('keepalive');
+  const extras: Duplex[] = [];
+  const encrypts: EncryptStream[] = [];
+  let streaming = false;
+  let failure: Error | null = null;
+
+  // Tell the receiver why we're stopping: on the control channel, or
+  // inside the data stream once it has started if the receiver can't read
+  // both at once (no mux)
+  const notify = (message: ControlMessage) => {
+    if (!keepalive) return;
+    try {
+      if (!streaming || channels) {
+        control.send(message);
+        return;
+      }
+      for (const encrypt of encrypts) {
+        encrypt.sendControl(Buffer.from(JSON.stringify(message)));
+      }
+    } catch {
+      // Socket already gone
+    }
+  };
+
+  const fail = (err: Error, tell = true) => {
+    if (tell && !failure && !(err instanceof TransferCancelledError)) {
+      notify({ type: 'abort', reason: err.message });
+    }
+    failure ??= err;
+    socket.destroy(err);
+    for (const extra of extras) extra.destroy();
+  };
+
+  const peerWatch = keepalive
+    ? createWatchdog(stallTimeout, () => fail(new TransferStalledError('receiver', stallTimeout)))
+    : null;
+  const control = createControlChannel(controlStream, controlSendKey, controlReceiveKey, {
+    peer: 'receiver',
+    onActivity: () => peerWatch?.touch(),
+  });
+
+  // Esc/Ctrl-C: let the receiver know, then hang up
+  const onCancel = () => {
+    debugLog('[Sender] Cancelled by user');
+    notify({ type: 'cancel' });
+    setTimeout(() => fail(new Error('Transfer cancelled'), false), CANCEL_GRACE);
+  };
+  cancelled.addEventListener('abort', onCancel, { once: true });
+  let stopHeartbeat = () => {};
+  socket.once('close', () => {
+    peerWatch?.stop();
+    stopHeartbeat();
+    cancelled.removeEventListener('abort', onCancel);
+  });
+
+  // With --verify on either side, nothing (not even the manifest) goes out
+  // until both users have confirmed they see the same words
+  if (protocol.verify) {
+    await confirmFingerprint(control, events.verifyFingerprint(fingerprint));
+    debugLog('[Sender] Fingerprint confirmed on both sides');
+  }
+
+  // Show the receiver what's coming and wait for them to accept
+  let selection: Set<string> | null = null;
+  let resume: ResumeRequest | null = null;
+  if (protocol.extensions.includes('manifest')) {
+    events.onApproval();
+    control.send({ type: 'manifest', manifest });
+
+    const reply = await control.receive();
+    if (reply.type === 'decline') {
+      debugLog('[Sender] Receiver declined the transfer');
+      socket.destroy();
+      throw new TransferDeclinedError(reply.reason);
+    }
+    if (reply.type !== 'accept') {
+      const err = new Error(`Unexpected control message from receiver: ${reply.type}`);
+      fail(err);
+      throw err;
+    }
+
+    // Receiver may only ask for part of the manifest
+    if (reply.selection && manifest.isDirectory) {
+      const known = new Set(manifest.entries.map((entry) => entry.path));
+      if (!Array.isArray(reply.selection) || !reply.selection.every((item) => known.has(item))) {
+        // Tell the receiver why, and hang up
+        const err = new Error('Receiver selected files that are not in the manifest');
+        fail(err);
+        throw err;
+      }
+      selection = new Set(reply.selection);
+    }
+    debugLog(`[Sender] Receiver accepted ${selection ? `${selection.size} entries` : 'everything'}`);
+
+    // ...and may already have some of it from an earlier attempt
+    if (reply.resume && protocol.extensions.includes('resume')) {
+      try {
+        resume = checkResumeRequest(reply.resume, manifest);
+      } catch (err) {
+        fail(err as Error);
+        throw err;
+      }
+      debugLog(
+        `[Sender] Resuming: skipping ${resume.completed.length} file(s)` +
+        (resume.partial ? `, ${resume.partial.path} from byte ${resume.partial.offset}` : '')
+      );
+    }
+  }
+
+  const selected = selection ? applySelection(manifest, selection) : manifest;
+  const transferMetadata = resume ? applyResume(selected, resume) : selected;
+
+  // Only compress if the receiver can decompress zstd
+  const compress = paths.some(shouldCompress) && protocol.compression.includes('zstd');
+
+  // Spread a folder's files over several connections (--streams)
+  let plan: ParallelPlan | null = null;
+  if (protocol.extensions.includes('parallel')) {
+    const streams = parallel && transferMetadata.isDirectory
+      ? streamCount(parallel.streams, transferMetadata.fileCount)
+      : 1;
+    plan = createParallelPlan(streams);
+    control.send({
+      type: 'parallel',
+      streams,
+      secret: streams > 1 ? plan.secret.toString('base64') : undefined,
+    });
+    debugLog(`[Sender] Sending over ${streams} stream(s)`);
+  }
+
+  // Register socket close listener BEFORE pipeline starts
+  // This ensures we don't miss the close event
+  const socketClosed = new Promise<void>((resolve) => {
+    socket.once('close', () => {
+      debugLog('[Sender] Socket closed');
+      resolve();
+    });
+  });
+
+  // Keep reading the receiver's side while we send: heartbeats, or a cancel
+  if (keepalive) {
+    (async () => {
+      const message = await control.receive();
+      fail(new Error(`Unexpected control message from receiver: ${message.type}`));
+    })().catch((err: Error) => {
+      if (err instanceof TransferCancelledError) {
+        debugLog(`[Sender] ${err.message}`);
+        fail(err);
+      }
+    });
+  }
+
+  // No data moving for the stall timeout: the receiver is gone or stuck
+  let sending = 0;
+  const progressWatch = createWatchdog(stallTimeout, () => {
+    debugLog(`[Sender] No progress for ${stallTimeout}ms, giving up`);
+    fail(new TransferStalledError('receiver', stallTimeout));
+  });
+
+  // Peer connected! Start sending
+  events.onStreaming({
+    totalSize: transferMetadata.totalSize,
+    fileCount: transferMetadata.fileCount,
+  });
+  debugLog('[Sender] Starting transfer pipeline');
+  streaming = true;
+  stopHeartbeat = startHeartbeat(() => notify({ type: 'heartbeat' }));
+
+  // Transfer metadata travels as the encrypted metadata record
+  const metadataJson = JSON.stringify({
+    totalSize: transferMetadata.totalSize,
+    fileCount: transferMetadata.fileCount,
+    isDirectory: transferMetadata.isDirectory,
+    compressed: compress,
+  });
+
+  // Create progress trackers, one per stream, counting towards one total
+  // (only report whole-percent changes)
+  let transferred = 0;
+  let lastPercent = -1;
+  const createProgressTracker = () => new Transform({
+    transform(chunk, encoding, callback) {
+      transferred += chunk.length;
+      meter.add(chunk.length);
+      progressWatch.touch();
+      // With only empty files there's nothing to count: 100 comes once it's all through
+      const pct = transferMetadata.totalSize > 0
+        ? Math.min(Math.round((transferred / transferMetadata.totalSize) * 100), 100)
+        : 0;
+      if (pct !== lastPercent) {
+        lastPercent = pct;
+        events.onProgress(pct);
+      }
+      callback(null, chunk);
+    },
+  });
+
+  // With several streams, each file goes out on whichever one claims it first
+  const skipped = new Set(resume?.completed ?? []);
+  const selectedFilter = (tarPath: string) =>
+    ignore(tarPath) && (!selection || selection.has(tarPath)) && !skipped.has(tarPath);
+  const filter = plan && plan.streams > 1 ? claimFilter(selectedFilter, createClaims()) : selectedFilter;
+
+  // Build the pipeline: Tar → Compress → Throttle → Encrypt (metadata first) → Progress → Socket (data channel)
+  // (throttling before encryption keeps the encrypted chunks moving, so a
+  // cancel doesn't queue behind seconds of rate-limited data)
+  const streamTo = async (stream: Duplex, streamKey: Buffer, connection = stream): Promise<void> => {
+    const packStream = createPackStream(paths, { filter, resume: resume?.partial, symlinks });
+    const compressStream = await createCompressStream(compress);
+    const encryptStream = createEncryptStream(streamKey, {
+      metadata: Buffer.from(metadataJson),
+    });
+    encrypts.push(encryptStream);
+
+    sending++;
+    try {
+      await pipeline(
+        packStream,
+        compressStream,
+        createThrottleStream(limiter),
+        encryptStream,
+        createProgressTracker(),
+        stream
+      );
+    } finally {
+      if (--sending === 0) progressWatch.stop();
+    }
+
+    // Read once the data is through, when the RTT has settled
+    events.onConnection(getConnectionInfo(connection));
+  };
 
-export function SendCommand({ path, onComplete, onError }: SendCommandProps) {
+  // Extra connections come in one after another while the first one is
+  // already sending; one that doesn't turn up leaves more files for the rest
+  const serveExtras = async (): Promise<void> => {
+    if (!plan || !parallel) return;
+    const running: Array<Promise<void>> = [];
+
+    for (let index = 1; index < plan.streams; index++) {
+      let extra: Duplex | undefined;
+      let streamKey: Buffer;
+      try {
+        extra = await parallel.waitForPeer(STREAM_TIMEOUT);
+        if (failure) {
+          extra.destroy();
+          break;
+        }
+        extras.push(extra);
+        extra.on('error', (err) => {
+          debugLog(`[Sender] Stream ${index} socket error: ${err}`);
+        });
+        ({ sendKey: streamKey } = await joinStream(extra, 'sender', plan.secret));
+      } catch (err) {
+        extra?.destroy();
+        debugLog(`[Sender] Stream ${index} did not come up (${(err as Error).message}), carrying on with ${index}`);
+        break;
+      }
+
+      debugLog(`[Sender] Stream ${index} joined (${formatConnectionInfo(getConnectionInfo(extra))})`);
+      const closed = new Promise<void>((resolve) => extra.once('close', () => resolve()));
+      const run = streamTo(extra, streamKey).then(() => closed);
+      run.catch((err: Error) => fail(err));
+      running.push(run);
+    }
+
+    await Promise.all(running);
+  };
+
+  try {
+    await Promise.all([
+      streamTo(dataStream, sendKey, socket).then(() => {
+        debugLog('[Sender] Pipeline completed, waiting for socket to close');
+
+        // Wait for socket to fully close before cleaning up
+        // This ensures the receiver has finished and closed their end
+        return socketClosed;
+      }),
+      serveExtras(),
+    ]);
+  } catch (err) {
+    fail(err as Error);
+    throw failure ?? err;
+  } finally {
+    progressWatch.stop();
+  }
+  if (lastPercent !== 100) events.onProgress(100);
+}
+
+export function SendCommand({
+  paths,
+  shortCode = false,
+  maxDownloads = 1,
+  transport,
+  wait,
+  verify = false,
+  rate: rateSettings,
+  streams = 1,
+  symlinks = 'keep',
+  exclude = [],
+  respectGitignore = false,
+  stats = false,
+  stallTimeout = DEFAULT_STALL_TIMEOUT,
+  onComplete,
+  onCancel,
+  onError,
+}: SendCommandProps) {
   const [state, setState] = useState<SendState>('init');
   const [shareKey, setShareKey] = useState('');
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<{ totalSize: number; fileCount: number } | null>(null);
+  const [reconnects, setReconnects] = useState(0);
+  const [peers, setPeers] = useState<PeerStatus[]>([]);
+  const [via, setVia] = useState('');
+  const [fingerprint, setFingerprint] = useState('');
+  const [checks, setChecks] = useState<FingerprintCheck[]>([]);
+  const [summary, setSummary] = useState<TransferSummary | null>(null);
+  const { limiter, rate } = useRateLimiter(rateSettings);
+  const { meter, rate: throughput, eta } = useTransferMeter();
+  const cancelled = useRef(new AbortController());
+  const closeEndpoint = useRef<(() => Promise<void>) | null>(null);
+  const multi = maxDownloads > 1;
+
+  // Esc/Ctrl-C: every session tells its receiver, then we hang up
+  const cancel = async () => {
+    if (cancelled.current.signal.aborted) return;
+    cancelled.current.abort();
+    setState('cancelled');
+    await new Promise(resolve => setTimeout(resolve, CANCEL_GRACE * 2));
+    await closeEndpoint.current?.().catch(() => undefined);
+    if (onCancel) {
+      onCancel();
+    }
+  };
+  useCancelKeys(cancel, state !== 'done' && state !== 'declined' && state !== 'cancelled' && state !== 'error');
 
   useEffect(() => {
     startSending();
   }, []);
 
+  // Prompts are shown one at a time, in the order peers connected
+  const askFingerprint = (id: number, fingerprint: string) =>
+    new Promise<boolean>((resolve) => {
+      setChecks((prev) => [...prev, { id, fingerprint, answer: resolve }]);
+    });
+  const dropFingerprintCheck = (id: number) => {
+    setChecks((prev) => prev.filter((check) => check.id !== id));
+  };
+
   const startSending = async () => {
     try {
-      // Generate topic and display key
-      const { topic, displayKey } = generateTopicKey();
-      setShareKey(displayKey);
+      // A short code allows few enough guesses that each receiver gets
+      // only one: a share that stays open would let anyone keep guessing
+      if (shortCode && multi) {
+        throw new Error('A short code can only be used with a single receiver');
+      }
 
-      // Derive encryption key from topic
-      const encryptionKey = deriveKey(topic);
+      // Generate share key (public discovery topic + private encryption secret)
+      // or a short code whose secret comes out of the PAKE after connecting
+      const key = shortCode ? generateShortCode() : generateTopicKey();
+      const { topic, displayKey } = key;
+      setShareKey(displayKey);
 
-      // Get transfer metadata
-      const transferMetadata = await getTransferMetadata(path);
+      // Get transfer manifest (file list + totals), without what's excluded
+      // or ignored; packing goes through the same filter
+      const ignore = await loadIgnoreFilter(paths, { exclude, respectGitignore, symlinks });
+      const manifest = await getTransferManifest(paths, { symlinks, filter: ignore });
       setMetadata({
-        totalSize: transferMetadata.totalSize,
-        fileCount: transferMetadata.fileCount,
+        totalSize: manifest.totalSize,
+        fileCount: manifest.fileCount,
       });
 
-      // Create sender swarm
+      // Open the transport (LAN and Hyperswarm DHT by default)
       setState('waiting');
-      debugLog('[Sender] About to call createSenderSwarm');
-      const { swarm, waitForPeer } = await createSenderSwarm(topic);
-      debugLog('[Sender] createSenderSwarm completed, got waitForPeer function');
-
-      // Wait for peer connection
-      debugLog('[Sender] Calling waitForPeer()...');
-      const socket = await waitForPeer();
-      debugLog('[Sender] Got socket from waitForPeer');
-
-      // Register socket close listener BEFORE pipeline starts
-      // This ensures we don't miss the close event
-      const socketClosed = new Promise<void>((resolve) => {
-        socket.once('close', () => {
-          debugLog('[Sender] Socket closed');
-          resolve();
+      debugLog('[Sender] Opening transport');
+      const endpoint = await openTransport(topic, 'sender', transport);
+      const { waitForPeer, onPeer } = endpoint;
+      closeEndpoint.current = () => endpoint.close();
+      setVia(endpoint.description);
+      debugLog(`[Sender] Transport ready (${endpoint.description})`);
+
+      // Every stream's connection, for the summary
+      const connections: ConnectionInfo[] = [];
+
+      const share: Share = {
+        key,
+        paths,
+        manifest,
+        symlinks,
+        ignore,
+        verify,
+        limiter,
+        meter,
+        stallTimeout,
+        cancelled: cancelled.current.signal,
+        parallel: multi ? undefined : { streams, waitForPeer },
+      };
+
+      if (multi) {
+        // Every receiver gets its own session and pipeline; stop once
+        // enough of them have finished
+        setState('serving');
+        await new Promise<void>((resolve) => {
+          let active = 0;
+          let completed = 0;
+          let nextId = 0;
+
+          const stop = onPeer((socket) => {
+            if (completed + active >= maxDownloads) {
+              debugLog('[Sender] Download limit reached, turning peer away');
+              socket.destroy();
+              return;
+            }
+
+            const id = ++nextId;
+            active++;
+            const update = (patch: Partial<PeerStatus>) => {
+              setPeers((prev) => prev.map((peer) => (peer.id === id ? { ...peer, ...patch } : peer)));
+            };
+            setPeers((prev) => [...prev, { id, state: 'connecting', progress: 0 }]);
+            socket.on('error', (err) => {
+              debugLog(`[Sender] Peer ${id} socket error: ${err}`);
+            });
+
+            serveReceiver(socket, share, {
+              onFingerprint: (fingerprint) => update({ fingerprint }),
+              verifyFingerprint: (fingerprint) => {
+                update({ state: 'verify' });
+                return askFingerprint(id, fingerprint);
+              },
+              onApproval: () => update({ state: 'approval' }),
+              onStreaming: () => update({ state: 'sending' }),
+              onProgress: (pct) => update({ progress: pct }),
+              onConnection: (info) => connections.push(info),
+            })
+              .then(() => {
+                completed++;
+                update({ state: 'done', progress: 100 });
+              })
+              .catch((err: Error) => {
+                debugLog(`[Sender] Peer ${id} failed: ${err.message}`);
+                socket.destroy();
+                dropFingerprintCheck(id);
+                update({
+                  state: err instanceof TransferDeclinedError
+                    ? 'declined'
+                    : err instanceof TransferCancelledError ? 'cancelled' : 'failed',
+                  error: err.message,
+                });
+              })
+              .finally(() => {
+                active--;
+                if (completed >= maxDownloads && active === 0) {
+                  stop();
+                  resolve();
+                }
+              });
+          });
         });
-      });
-
-      // Add socket error handler
-      socket.on('error', (err) => {
-        console.error('[Sender] Socket error:', err);
-      });
-
-      debugLog('[Sender] About to set state to sending');
-      // Peer connected! Start sending
-      setState('sending');
-      debugLog('[Sender] Starting transfer pipeline');
-
-      // Create metadata prepend stream
-      const metadataJson = JSON.stringify({
-        totalSize: transferMetadata.totalSize,
-        fileCount: transferMetadata.fileCount,
-        isDirectory: transferMetadata.isDirectory,
-        compressed: shouldCompress(path),
-      }) + '\n';
-
-      let metadataSent = false;
-      const metadataPrepender = new Transform({
-        transform(chunk, encoding, callback) {
-          if (!metadataSent) {
-            // Send metadata as first chunk
-            this.push(Buffer.from(metadataJson));
-            metadataSent = true;
+      } else {
+        // If the connection drops mid-transfer, keep the key alive so the
+        // receiver can reconnect and resume where it left off
+        for (let attempt = 1; ; attempt++) {
+          debugLog('[Sender] Calling waitForPeer()...');
+          const socket = await waitForPeer(wait);
+          debugLog('[Sender] Got socket from waitForPeer');
+
+          let streaming = false;
+          try {
+            await serveReceiver(socket, share, {
+              onFingerprint: setFingerprint,
+              verifyFingerprint: (fingerprint) => {
+                setState('verify');
+                return askFingerprint(0, fingerprint);
+              },
+              onApproval: () => setState('approval'),
+              onStreaming: (totals) => {
+                streaming = true;
+                meter.start(totals.totalSize);
+                setMetadata(totals);
+                setProgress(0);
+                setState('sending');
+              },
+              onProgress: setProgress,
+              onConnection: (info) => connections.push(info),
+            });
+            break;
+          } catch (err) {
+            dropFingerprintCheck(0);
+            // A cancel on either side is final; anything else mid-transfer
+            // (a drop, a stall) is worth waiting for the receiver to resume
+            if (!streaming || cancelled.current.signal.aborted || err instanceof TransferCancelledError) {
+              socket.destroy();
+              throw err;
+            }
+            debugLog(`[Sender] Connection lost mid-transfer (${(err as Error).message}), waiting to resume`);
+            socket.destroy();
+            setReconnects(attempt);
+            setState('waiting');
           }
-          this.push(chunk);
-          callback();
-        },
-      });
-
-      // Create progress tracker
-      let transferred = 0;
-      const progressTracker = new Transform({
-        transform(chunk, encoding, callback) {
-          transferred += chunk.length;
-          const pct = Math.round((transferred / transferMetadata.totalSize) * 100);
-          setProgress(pct);
-          callback(null, chunk);
-        },
-      });
-
-      // Build the pipeline: Tar → Compress → Encrypt → Metadata → Progress → Socket
-      // Note: Metadata is added AFTER encryption so it's sent in plaintext
-      const packStream = createPackStream(path);
-      const compressStream = await createCompressStream(shouldCompress(path));
-      const encryptStream = createEncryptStream(encryptionKey);
-
-      await pipeline(
-        packStream,
-        compressStream,
-        encryptStream,
-        metadataPrepender,
-        progressTracker,
-        socket
-      );
-
-      debugLog('[Sender] Pipeline completed, waiting for socket to close');
-
-      // Wait for socket to fully close before cleaning up
-      // This ensures the receiver has finished and closed their end
-      await socketClosed;
+        }
+      }
 
-      debugLog('[Sender] Socket closed, cleaning up swarm');
+      debugLog('[Sender] Socket closed, closing transport');
 
       // Transfer complete
+      const result = meter.summary(connections);
+      for (const line of formatSummary(result)) {
+        debugLog(`[Sender] ${line}`);
+      }
+      if (stats) setSummary(result);
       setState('done');
-      await cleanupSwarm(swarm);
+      await endpoint.close();
+
+      // Give the final frame (and the summary) a moment to render before exit
+      await new Promise(resolve => setTimeout(resolve, 100));
 
       if (onComplete) {
         onComplete();
       }
     } catch (err) {
+      // Our own cancel: cancel() takes it from here
+      if (cancelled.current.signal.aborted) return;
+
+      // Stop announcing the key and taking connections (the shell carries on)
+      await closeEndpoint.current?.().catch(() => undefined);
+
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       setError(errorMessage);
-      setState('error');
+      setState(err instanceof TransferDeclinedError
+        ? 'declined'
+        : err instanceof TransferCancelledError ? 'cancelled' : 'error');
 
+      // Give the error a moment to render before the caller exits
+      await new Promise(resolve => setTimeout(resolve, 100));
       if (onError) {
         onError(err as Error);
       }
     }
   };
 
+  const finished = peers.filter((peer) => peer.state === 'done').length;
+  const check = checks[0];
+
   return (
     <Box flexDirection="column" padding={1}>
       <Text bold color="green">
-        📤 Sending: {path.split('/').pop()}
+        📤 Sending: {paths.map((path) => basename(path)).join(', ')}
       </Text>
 
       {metadata && (
@@ -177,16 +726,52 @@ export function SendCommand({ path, onComplete, onError }: SendCommandProps) {
         </Box>
       )}
 
-      {(state === 'waiting' || state === 'sending') && shareKey && (
+      {(state === 'waiting' || state === 'verify' || state === 'approval' || state === 'sending' || state === 'serving') && shareKey && (
         <Box marginTop={1} flexDirection="column">
-          <Text color="cyan">Share this key with receiver:</Text>
+          <Text color="cyan">Share this key with {multi ? 'receivers' : 'receiver'}:</Text>
           <Text bold>{shareKey}</Text>
+          {via && <Text dimColor>via {via}</Text>}
+          {!multi && fingerprint && state !== 'waiting' && (
+            <Text dimColor>Fingerprint: {fingerprint}</Text>
+          )}
+        </Box>
+      )}
+
+      {(state === 'verify' || state === 'serving') && check && (
+        <Box marginTop={1}>
+          <FingerprintPrompt
+            key={check.id}
+            fingerprint={check.fingerprint}
+            peer={multi ? `peer ${check.id}` : undefined}
+            onAnswer={(match) => {
+              dropFingerprintCheck(check.id);
+              check.answer(match);
+            }}
+          />
+        </Box>
+      )}
+
+      {state === 'verify' && !check && (
+        <Box marginTop={1}>
+          <Spinner label="Waiting for receiver to confirm the fingerprint..." />
         </Box>
       )}
 
       {state === 'waiting' && (
         <Box marginTop={1}>
-          <Spinner label="Waiting for peer to connect..." />
+          <Spinner
+            label={reconnects > 0
+              ? `Connection lost. Waiting for receiver to reconnect and resume (attempt ${reconnects + 1})...`
+              : wait === Infinity
+                ? 'Waiting for peer to connect (no time limit)...'
+                : 'Waiting for peer to connect...'}
+          />
+        </Box>
+      )}
+
+      {state === 'approval' && (
+        <Box marginTop={1}>
+          <Spinner label="Waiting for receiver to accept..." />
         </Box>
       )}
 
@@ -197,11 +782,50 @@ export function SendCommand({ path, onComplete, onError }: SendCommandProps) {
         </Box>
       )}
 
+      {state === 'serving' && (
+        <Box marginTop={1} flexDirection="column">
+          <Spinner
+            label={Number.isFinite(maxDownloads)
+              ? `Serving receivers: ${finished} of ${maxDownloads} done`
+              : `Serving receivers until stopped: ${finished} done (Esc to stop)`}
+          />
+          <PeerList peers={peers} />
+        </Box>
+      )}
+
+      {(state === 'sending' || state === 'serving') && (
+        <Box marginTop={1} flexDirection="column">
+          <ThroughputStatus rate={throughput} eta={multi ? undefined : eta} />
+          <RateLimitStatus rate={rate} />
+        </Box>
+      )}
+
       {state === 'done' && (
         <Box marginTop={1} flexDirection="column">
           <Text color="green" bold>
-            ✓ Transfer complete!
+            ✓ Transfer complete!{multi ? ` Sent to ${finished} receivers.` : ''}
+          </Text>
+          {summary && <StatsSummary summary={summary} />}
+          <Text dimColor>Press Esc to return</Text>
+        </Box>
+      )}
+
+      {state === 'cancelled' && (
+        <Box marginTop={1} flexDirection="column">
+          <Text color="yellow" bold>
+            ✗ Transfer cancelled
+          </Text>
+          <Text dimColor>{error ?? 'The receiver was told you cancelled'}</Text>
+          {error && <Text dimColor>Press Esc to return</Text>}
+        </Box>
+      )}
+
+      {state === 'declined' && (
+        <Box marginTop={1} flexDirection="column">
+          <Text color="yellow" bold>
+            ✗ Declined by receiver
           </Text>
+          <Text dimColor>{error}</Text>
           <Text dimColor>Press Esc to return</Text>
         </Box>
       )}
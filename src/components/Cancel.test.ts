@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { PassThrough } from 'node:stream';
+import React from 'react';
+import { render, Text } from 'ink';
+import { useCancelKeys } from './Cancel.js';
+
+/**
+ * Render with stdin and stdout that aren't terminals, as in a script or CI
+ *
+ * @returns Everything written to stdout and stderr
+ */
+async function renderWithoutTty(element: React.ReactElement): Promise<string> {
+  const stdin = new PassThrough() as PassThrough & { isTTY?: boolean };
+  const stdout = new PassThrough() as PassThrough & { columns: number };
+  stdout.columns = 80;
+  let output = '';
+  stdout.on('data', (chunk: Buffer) => (output += chunk.toString()));
+
+  const instance = render(element, {
+    stdin: stdin as unknown as NodeJS.ReadStream,
+    stdout: stdout as unknown as NodeJS.WriteStream,
+    stderr: stdout as unknown as NodeJS.WriteStream,
+    debug: true,
+    patchConsole: false,
+    exitOnCtrlC: false,
+  });
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  instance.unmount();
+  return output;
+}
+
+function Cancellable() {
+  useCancelKeys(() => {}, true);
+  return React.createElement(Text, null, 'sending');
+}
+
+describe('Cancel', () => {
+  it('should render without a TTY', async () => {
+    const output = await renderWithoutTty(React.createElement(Cancellable));
+    assert.ok(!output.includes('Raw mode is not supported'), output);
+    assert.ok(output.includes('sending'));
+  });
+});
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { useInput, useStdin } from 'ink';
+
+/**
+ * Esc or Ctrl-C stop the transfer while `active`
+ *
+ * Without a TTY (raw mode unsupported), Ctrl-C arrives as SIGINT instead.
+ */
+export function useCancelKeys(onCancel: () => void, active: boolean): void {
+  const { isRawModeSupported } = useStdin();
+  const latest = useRef(onCancel);
+  latest.current = onCancel;
+
+  useInput((input, key) => {
+    if (key.escape || (key.ctrl && input === 'c')) {
+      latest.current();
+    }
+  }, { isActive: isRawModeSupported === true && active });
+
+  useEffect(() => {
+    if (!active || isRawModeSupported) return;
+    const onSignal = () => latest.current();
+    process.once('SIGINT', onSignal);
+    return () => {
+      process.removeListener('SIGINT', onSignal);
+    };
+  }, [active, isRawModeSupported]);
+}
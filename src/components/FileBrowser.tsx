@@ -5,7 +5,7 @@ import { readDirectory, formatFileSize, type FileEntry } from '../utils/fileSyst
 
 interface FileBrowserProps {
   initialPath?: string;
-  onSelect: (path: string) => void;
+  onSelect: (paths: string[]) => void; // Everything marked, in the order it was marked
   onCancel: () => void;
 }
 
@@ -18,6 +18,8 @@ export function FileBrowser({
   const [files, setFiles] = useState<FileEntry[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [loading, setLoading] = useState(true);
+  // Marked with Space, in any folder, to send together
+  const [marked, setMarked] = useState<string[]>([]);
 
   useEffect(() => {
     loadDirectory(currentPath);
@@ -62,17 +64,27 @@ export function FileBrowser({
           // Navigate into directory
           setCurrentPath(selected.path);
         } else {
-          // File selected!
-          onSelect(selected.path);
+          // File selected! Along with anything marked
+          onSelect(marked.includes(selected.path) ? marked : [...marked, selected.path]);
         }
       }
     } else if (key.escape) {
       onCancel();
-    } else if (input === 's' && selectedIndex < files.length) {
-      // Quick shortcut: 's' to select current file/folder for sending
+    } else if (input === ' ') {
+      // Mark or unmark for sending together
       const selected = files[selectedIndex];
       if (selected && selected.name !== '..') {
-        onSelect(selected.path);
+        setMarked((prev) =>
+          prev.includes(selected.path) ? prev.filter((path) => path !== selected.path) : [...prev, selected.path]
+        );
+      }
+    } else if (input === 's' && selectedIndex < files.length) {
+      // Quick shortcut: 's' to send what's marked, or the current file/folder
+      const selected = files[selectedIndex];
+      if (marked.length > 0) {
+        onSelect(marked);
+      } else if (selected && selected.name !== '..') {
+        onSelect([selected.path]);
       }
     }
   });
@@ -88,7 +100,8 @@ export function FileBrowser({
   return (
     <Box flexDirection="column">
       <Text color="cyan">Current: {currentPath}</Text>
-      <Text dimColor>↑↓ to navigate | Enter to open/select | 's' to select | Esc to cancel</Text>
+      <Text dimColor>↑↓ to navigate | Enter to open/select | Space to mark | 's' to send | Esc to cancel</Text>
+      {marked.length > 0 && <Text color="yellow">{marked.length} marked</Text>}
 
       <Box flexDirection="column" marginTop={1}>
         {files.length === 0 ? (
@@ -98,6 +111,7 @@ export function FileBrowser({
             <Box key={file.path}>
               <Text color={idx === selectedIndex ? 'green' : undefined}>
                 {idx === selectedIndex ? '> ' : '  '}
+                {marked.includes(file.path) ? '[x] ' : ''}
                 {file.isDirectory ? '📁 ' : '📄 '}
                 {file.name}
                 {file.size !== undefined ? ` (${formatFileSize(file.size)})` : ''}
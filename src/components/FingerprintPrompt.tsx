@@ -0,0 +1,33 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { Select } from '@inkjs/ui';
+
+interface FingerprintPromptProps {
+  fingerprint: string;
+  peer?: string; // Which peer this is about, when there are several
+  onAnswer: (match: boolean) => void;
+}
+
+export function FingerprintPrompt({ fingerprint, peer, onAnswer }: FingerprintPromptProps) {
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan">
+        Verify {peer ?? 'the connection'}: read these words to the other person
+      </Text>
+      <Box marginTop={1}>
+        <Text bold>  {fingerprint}</Text>
+      </Box>
+      <Text dimColor>Only continue if they see exactly the same words.</Text>
+
+      <Box marginTop={1}>
+        <Select
+          options={[
+            { label: '✓ They match', value: 'match' },
+            { label: '✗ They don\'t match', value: 'mismatch' },
+          ]}
+          onChange={(value) => onAnswer(value === 'match')}
+        />
+      </Box>
+    </Box>
+  );
+}
@@ -28,20 +28,38 @@ export function HelpScreen({ onBack }: HelpScreenProps) {
       <Box marginTop={1} flexDirection="column">
         <Text bold>Direct CLI Mode:</Text>
         <Text>  hyperstream send &lt;path&gt;              - Send file/folder</Text>
+        <Text>  hyperstream send &lt;path&gt; &lt;path&gt;...  - Send several files/folders in one transfer</Text>
+        <Text>  hyperstream send &lt;path&gt; --code       - Send with a short code</Text>
+        <Text>  hyperstream send &lt;path&gt; --multi      - Send to many receivers at once</Text>
+        <Text>  hyperstream send &lt;path&gt; --transport lan - Local network only, no DHT</Text>
+        <Text>  hyperstream send &lt;path&gt; --transport tcp --listen :9000 - Direct TCP, no DHT</Text>
+        <Text>  hyperstream send &lt;path&gt; --bootstrap host:port - Use a private DHT</Text>
+        <Text>  hyperstream send &lt;path&gt; --wait 10m - Wait longer for the receiver (or "forever")</Text>
+        <Text>  hyperstream send &lt;path&gt; --verify - Both users confirm the connection fingerprint first</Text>
+        <Text>  hyperstream send &lt;path&gt; --limit 5MB/s - Cap bandwidth (+/- to change while sending)</Text>
+        <Text>  hyperstream send &lt;path&gt; --streams 4 - Send a folder over 4 connections at once</Text>
+        <Text>  hyperstream send &lt;path&gt; --follow-symlinks - Send what symlinks point to, not the links</Text>
+        <Text>  hyperstream send &lt;path&gt; --exclude &lt;glob&gt; --respect-gitignore - Leave files out of a folder</Text>
         <Text>  hyperstream receive &lt;key&gt; [-o dir]   - Receive file/folder</Text>
+        <Text>  hyperstream receive &lt;key&gt; --yes      - Receive without the accept prompt</Text>
+        <Text>  hyperstream receive &lt;key&gt; --stats    - Summary of throughput, path and RTT when done</Text>
+        <Text>  hyperstream receive &lt;key&gt; --stall-timeout 2m - Wait longer before treating a quiet peer as gone</Text>
+        <Text>  hyperstream receive &lt;key&gt; --include &lt;glob&gt; --exclude &lt;glob&gt; - Receive part of a folder</Text>
+        <Text>  hyperstream receive &lt;key&gt; --preserve-perms - Keep file modes as sent (setuid/setgid are dropped)</Text>
       </Box>
 
       <Box marginTop={1} flexDirection="column">
         <Text bold>Keyboard Shortcuts:</Text>
         <Text>  ↑↓        - Navigate menus/files</Text>
         <Text>  Enter     - Select/Confirm</Text>
-        <Text>  Esc       - Cancel/Go back</Text>
+        <Text>  Space     - Mark files/folders to send together (then 's')</Text>
+        <Text>  Esc       - Cancel/Go back (during a transfer, tells the other side)</Text>
         <Text>  q         - Quit (from command mode)</Text>
       </Box>
 
       <Box marginTop={1} flexDirection="column">
         <Text bold>How It Works:</Text>
-        <Text>  1. Sender selects a file/folder to share</Text>
+        <Text>  1. Sender selects files/folders to share</Text>
         <Text>  2. A unique share key is generated</Text>
         <Text>  3. Receiver enters the share key</Text>
         <Text>  4. Files are transferred peer-to-peer (P2P)</Text>
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Box, Text } from 'ink';
+import { Select } from '@inkjs/ui';
+import { formatFileSize } from '../utils/fileSystem.js';
+import { applySelection } from '../utils/selection.js';
+import { ManifestTree } from './ManifestTree.js';
+import type { TransferManifest } from '../utils/tar.js';
+
+const MAX_VISIBLE_ENTRIES = 15;
+
+interface ManifestPromptProps {
+  manifest: TransferManifest;
+  initialSelection: ReadonlySet<string>;
+  onAccept: (selection: Set<string>) => void;
+  onDecline: () => void;
+}
+
+export function ManifestPrompt({ manifest, initialSelection, onAccept, onDecline }: ManifestPromptProps) {
+  const [selection, setSelection] = useState<Set<string>>(() => new Set(initialSelection));
+  const [choosing, setChoosing] = useState(false);
+
+  if (choosing) {
+    return (
+      <ManifestTree
+        manifest={manifest}
+        initialSelection={selection}
+        onConfirm={(chosen) => {
+          setSelection(chosen);
+          setChoosing(false);
+        }}
+        onCancel={() => setChoosing(false)}
+      />
+    );
+  }
+
+  const selected = applySelection(manifest, selection);
+  const partial = selected.entries.length < manifest.entries.length;
+  const visible = selected.entries.slice(0, MAX_VISIBLE_ENTRIES);
+  const hidden = selected.entries.length - visible.length;
+
+  const options = [
+    ...(selected.entries.length > 0
+      ? [{ label: partial ? '✓ Accept selected' : '✓ Accept', value: 'accept' }]
+      : []),
+    ...(manifest.isDirectory ? [{ label: '☰ Choose files…', value: 'choose' }] : []),
+    { label: '✗ Decline', value: 'decline' },
+  ];
+
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan">The sender wants to send you:</Text>
+
+      <Box flexDirection="column" marginTop={1}>
+        {visible.length === 0 && <Text dimColor>  Nothing selected</Text>}
+        {visible.map((entry) => (
+          <Text key={entry.path}>
+            {'  '}
+            {entry.type === 'directory' ? '📁 ' : entry.type === 'symlink' ? '🔗 ' : '📄 '}
+            {entry.path}
+            {entry.type === 'file' ? ` (${formatFileSize(entry.size)})` : ''}
+          </Text>
+        ))}
+        {hidden > 0 && <Text dimColor>  …and {hidden} more</Text>}
+      </Box>
+
+      <Box marginTop={1}>
+        <Text bold>
+          {partial
+            ? `Selected: ${formatFileSize(selected.totalSize)} in ${selected.fileCount} of ${manifest.fileCount} file(s)`
+            : `Total: ${formatFileSize(manifest.totalSize)} in ${manifest.fileCount} file(s)`}
+        </Text>
+      </Box>
+
+      <Box marginTop={1}>
+        <Select
+          options={options}
+          onChange={(value) => {
+            if (value === 'accept') onAccept(selection);
+            else if (value === 'choose') setChoosing(true);
+            else onDecline();
+          }}
+        />
+      </Box>
+    </Box>
+  );
+}
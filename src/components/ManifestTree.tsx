@@ -0,0 +1,116 @@
+import React, { useState, useMemo } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { formatFileSize } from '../utils/fileSystem.js';
+import { withAncestors } from '../utils/selection.js';
+import type { TransferManifest, ManifestEntry } from '../utils/tar.js';
+
+const VISIBLE_ROWS = 15;
+
+interface ManifestTreeProps {
+  manifest: TransferManifest;
+  initialSelection: ReadonlySet<string>;
+  onConfirm: (selection: Set<string>) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Entries that can be ticked on their own: files, symlinks and empty
+ * folders. Folders with contents are ticked through their children.
+ */
+function leavesOf(entries: ManifestEntry[]): Map<string, string[]> {
+  const leaves = entries.filter((entry) =>
+    entry.type !== 'directory' ||
+    !entries.some((other) => other.path !== entry.path && other.path.startsWith(entry.path))
+  );
+
+  const byEntry = new Map<string, string[]>();
+  for (const entry of entries) {
+    byEntry.set(
+      entry.path,
+      entry.type !== 'directory'
+        ? [entry.path]
+        : leaves.filter((leaf) => leaf.path.startsWith(entry.path)).map((leaf) => leaf.path)
+    );
+  }
+  return byEntry;
+}
+
+export function ManifestTree({ manifest, initialSelection, onConfirm, onCancel }: ManifestTreeProps) {
+  const entries = manifest.entries;
+  const leaves = useMemo(() => leavesOf(entries), [entries]);
+  const allLeaves = useMemo(() => [...new Set([...leaves.values()].flat())], [leaves]);
+
+  const [cursor, setCursor] = useState(0);
+  const [checked, setChecked] = useState<Set<string>>(
+    () => new Set(allLeaves.filter((path) => initialSelection.has(path)))
+  );
+
+  const toggle = (paths: string[]) => {
+    setChecked((prev) => {
+      const next = new Set(prev);
+      const allChecked = paths.every((path) => next.has(path));
+      for (const path of paths) {
+        if (allChecked) next.delete(path);
+        else next.add(path);
+      }
+      return next;
+    });
+  };
+
+  useInput((input, key) => {
+    if (key.upArrow) {
+      setCursor((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setCursor((prev) => Math.min(entries.length - 1, prev + 1));
+    } else if (input === ' ') {
+      const entry = entries[cursor];
+      if (entry) toggle(leaves.get(entry.path) ?? []);
+    } else if (input === 'a') {
+      toggle(allLeaves);
+    } else if (key.return) {
+      onConfirm(withAncestors(manifest, checked));
+    } else if (key.escape) {
+      onCancel();
+    }
+  });
+
+  const start = Math.max(0, Math.min(cursor - Math.floor(VISIBLE_ROWS / 2), entries.length - VISIBLE_ROWS));
+  const visible = entries.slice(start, start + VISIBLE_ROWS);
+
+  const selectedFiles = entries.filter((entry) => entry.type === 'file' && checked.has(entry.path));
+  const selectedSize = selectedFiles.reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan">Choose what to download:</Text>
+      <Text dimColor>↑↓ to navigate | Space to toggle | 'a' to toggle all | Enter to confirm | Esc to go back</Text>
+
+      <Box flexDirection="column" marginTop={1}>
+        {visible.map((entry, offset) => {
+          const index = start + offset;
+          const paths = leaves.get(entry.path) ?? [];
+          const count = paths.filter((path) => checked.has(path)).length;
+          const mark = count === 0 ? '[ ]' : count === paths.length ? '[x]' : '[-]';
+          const segments = entry.path.replace(/\/$/, '').split('/');
+          const depth = segments.length - 1;
+
+          return (
+            <Text key={entry.path} color={index === cursor ? 'green' : undefined}>
+              {index === cursor ? '> ' : '  '}
+              {'  '.repeat(Math.max(0, depth))}
+              {mark} {entry.type === 'directory' ? '📁 ' : entry.type === 'symlink' ? '🔗 ' : '📄 '}
+              {segments[segments.length - 1]}
+              {entry.type === 'file' ? ` (${formatFileSize(entry.size)})` : ''}
+            </Text>
+          );
+        })}
+      </Box>
+
+      <Box marginTop={1}>
+        <Text bold>
+          Selected: {formatFileSize(selectedSize)} in {selectedFiles.length} file(s)
+        </Text>
+      </Box>
+    </Box>
+  );
+}
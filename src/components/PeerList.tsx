@@ -0,0 +1,65 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { ProgressBar } from '@inkjs/ui';
+
+export interface PeerStatus {
+  id: number;
+  state: 'connecting' | 'verify' | 'approval' | 'sending' | 'done' | 'declined' | 'cancelled' | 'failed';
+  progress: number;
+  fingerprint?: string; // Session fingerprint, once the handshake is done
+  error?: string;
+}
+
+interface PeerListProps {
+  peers: PeerStatus[];
+}
+
+const STATE_LABELS: Record<PeerStatus['state'], string> = {
+  connecting: 'Connecting...',
+  verify: 'Verifying fingerprint...',
+  approval: 'Waiting for accept...',
+  sending: 'Sending',
+  done: '✓ Done',
+  declined: '✗ Declined',
+  cancelled: '✗ Cancelled by receiver',
+  failed: '✗ Failed',
+};
+
+const STATE_COLORS: Partial<Record<PeerStatus['state'], string>> = {
+  done: 'green',
+  declined: 'yellow',
+  cancelled: 'yellow',
+  failed: 'red',
+};
+
+export function PeerList({ peers }: PeerListProps) {
+  if (peers.length === 0) {
+    return <Text dimColor>No receivers connected yet</Text>;
+  }
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      {peers.map((peer) => (
+        <Box key={peer.id}>
+          <Box width={10}>
+            <Text>Peer {peer.id}</Text>
+          </Box>
+          {peer.state === 'sending' ? (
+            <>
+              <Box width={30}>
+                <ProgressBar value={peer.progress} />
+              </Box>
+              <Text> {peer.progress}%</Text>
+            </>
+          ) : (
+            <Text color={STATE_COLORS[peer.state]}>
+              {STATE_LABELS[peer.state]}
+              {peer.error && peer.state === 'failed' ? `: ${peer.error}` : ''}
+            </Text>
+          )}
+          {peer.fingerprint && <Text dimColor>  [{peer.fingerprint}]</Text>}
+        </Box>
+      ))}
+    </Box>
+  );
+}
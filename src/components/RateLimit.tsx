@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Text, useInput, useStdin } from 'ink';
+import {
+  createRateLimiter,
+  formatRate,
+  rateAt,
+  stepRate,
+  type RateLimiter,
+  type RateSettings,
+} from '../utils/throttle.js';
+
+// Constants
+const SCHEDULE_CHECK_INTERVAL = 30 * 1000; // Rules are per minute; check twice a minute
+
+/**
+ * One bandwidth limiter for the whole command
+ *
+ * +/- step the limit up and down. Time-of-day rules apply until the user
+ * picks a limit by hand.
+ */
+export function useRateLimiter(settings: RateSettings = {}): { limiter: RateLimiter; rate: number } {
+  const limiter = useRef<RateLimiter | null>(null);
+  if (!limiter.current) {
+    limiter.current = createRateLimiter(rateAt(settings));
+  }
+  const [rate, setRate] = useState(limiter.current.rate);
+  const manual = useRef(false);
+  const { isRawModeSupported } = useStdin();
+
+  useInput((input) => {
+    if (input !== '+' && input !== '=' && input !== '-') return;
+    const bucket = limiter.current!;
+    manual.current = true;
+    bucket.setRate(stepRate(bucket.rate, input === '-' ? -1 : 1));
+    setRate(bucket.rate);
+  }, { isActive: isRawModeSupported === true });
+
+  useEffect(() => {
+    if (!settings.schedule?.length) return;
+    const timer = setInterval(() => {
+      const bucket = limiter.current!;
+      const scheduled = rateAt(settings);
+      if (!manual.current && scheduled !== bucket.rate) {
+        bucket.setRate(scheduled);
+        setRate(scheduled);
+      }
+    }, SCHEDULE_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  return { limiter: limiter.current, rate };
+}
+
+interface RateLimitStatusProps {
+  rate: number;
+}
+
+export function RateLimitStatus({ rate }: RateLimitStatusProps) {
+  return (
+    <Text dimColor>
+      Limit: {formatRate(rate)} (+/- to change)
+    </Text>
+  );
+}
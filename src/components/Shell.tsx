@@ -18,7 +18,7 @@ type ShellMode =
 
 interface ShellState {
   mode: ShellMode;
-  selectedPath?: string;
+  selectedPaths?: string[];
   transferKey?: string;
   transferProgress?: number;
   transferMode?: 'send' | 'receive';
@@ -65,11 +65,11 @@ export function Shell() {
     }
   };
 
-  const handleFileSelect = (path: string) => {
+  const handleFileSelect = (paths: string[]) => {
     setState((prev) => ({
       ...prev,
       mode: 'transfer',
-      selectedPath: path,
+      selectedPaths: paths,
     }));
   };
 
@@ -98,11 +98,15 @@ export function Shell() {
     setState((prev) => ({ ...prev, mode: 'command' }));
   };
 
-  // Global keyboard shortcuts
+  // Global keyboard shortcuts (during a transfer, Esc and Ctrl-C cancel it
+  // instead: see useCancelKeys)
   useInput((input, key) => {
     if (input === 'q' && state.mode === 'command') {
       process.exit(0);
     }
+    if (key.ctrl && input === 'c' && state.mode !== 'transfer') {
+      process.exit(0);
+    }
     if (key.escape && state.mode !== 'transfer') {
       setState((prev) => ({ ...prev, mode: 'command' }));
     }
@@ -145,10 +149,11 @@ export function Shell() {
           </Box>
         )}
 
-        {state.mode === 'transfer' && state.transferMode === 'send' && state.selectedPath && (
+        {state.mode === 'transfer' && state.transferMode === 'send' && state.selectedPaths && (
           <SendCommand
-            path={state.selectedPath}
+            paths={state.selectedPaths}
             onComplete={handleTransferComplete}
+            onCancel={handleCancel}
             onError={handleTransferError}
           />
         )}
@@ -157,6 +162,7 @@ export function Shell() {
           <ReceiveCommand
             shareKey={state.transferKey}
             onComplete={handleTransferComplete}
+            onCancel={handleCancel}
             onError={handleTransferError}
           />
         )}
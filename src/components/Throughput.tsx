@@ -0,0 +1,69 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Text } from 'ink';
+import { formatDuration } from '../utils/duration.js';
+import { formatRate } from '../utils/throttle.js';
+import {
+  createTransferMeter,
+  formatSummary,
+  type TransferMeter,
+  type TransferSummary,
+} from '../utils/stats.js';
+
+// Constants
+const REFRESH_INTERVAL = 1000; // Redraw the rate once a second, not on every chunk
+
+/**
+ * One throughput meter for the whole command
+ *
+ * The progress trackers feed the meter; the returned rate and ETA are
+ * refreshed once a second.
+ */
+export function useTransferMeter(): { meter: TransferMeter; rate: number; eta: number | null } {
+  const meter = useRef<TransferMeter | null>(null);
+  if (!meter.current) {
+    meter.current = createTransferMeter();
+  }
+  const [reading, setReading] = useState<{ rate: number; eta: number | null }>({ rate: 0, eta: null });
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = meter.current!;
+      setReading({ rate: current.rate(), eta: current.eta() });
+    }, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  return { meter: meter.current, ...reading };
+}
+
+interface ThroughputStatusProps {
+  rate: number;
+  eta?: number | null; // Leave out where there's no single total (several receivers)
+}
+
+export function ThroughputStatus({ rate, eta }: ThroughputStatusProps) {
+  if (rate <= 0) return null;
+  return (
+    <Text dimColor>
+      {formatRate(rate)}
+      {eta != null && ` · ETA ${eta < 1000 ? '<1s' : formatDuration(eta)}`}
+    </Text>
+  );
+}
+
+interface StatsSummaryProps {
+  summary: TransferSummary;
+}
+
+/**
+ * The --stats summary under "Transfer complete"
+ */
+export function StatsSummary({ summary }: StatsSummaryProps) {
+  return (
+    <Box flexDirection="column">
+      {formatSummary(summary).map((line) => (
+        <Text key={line} dimColor>{line}</Text>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,30 @@
+declare module 'hyperdht' {
+  interface DHTOptions {
+    bootstrap?: Array<{ host: string; port: number }>;
+    host?: string; // Local address to bind
+  }
+
+  interface DHTStats {
+    punches: { consistent: number; random: number; open: number };
+    relaying: { attempts: number; successes: number; aborts: number };
+  }
+
+  class DHT {
+    constructor(options?: DHTOptions);
+    stats: DHTStats;
+    destroy(): Promise<void>;
+  }
+
+  export default DHT;
+}
+
+declare module 'hyperdht/testnet.js' {
+  interface Testnet {
+    bootstrap: Array<{ host: string; port: number }>;
+    destroy(): Promise<void>;
+  }
+
+  function createTestnet(size?: number): Promise<Testnet>;
+
+  export default createTestnet;
+}
@@ -1,17 +1,27 @@
 declare module 'hyperswarm' {
   import { EventEmitter } from 'events';
   import { Socket } from 'net';
+  import DHT from 'hyperdht';
 
   interface JoinOptions {
     server?: boolean;
     client?: boolean;
   }
 
+  interface HyperswarmOptions {
+    bootstrap?: Array<{ host: string; port: number }>;
+    dht?: DHT; // Use this DHT node instead of creating one
+  }
+
   interface Discovery {
     flushed(): Promise<void>;
+    refresh(): Promise<void>;
   }
 
   class Hyperswarm extends EventEmitter {
+    constructor(options?: HyperswarmOptions);
+    destroyed: boolean;
+    dht: DHT;
     join(topic: Buffer, options?: JoinOptions): Discovery;
     flush(): Promise<void>;
     destroy(): Promise<void>;
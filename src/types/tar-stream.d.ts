@@ -6,11 +6,15 @@ declare module 'tar-stream' {
     size?: number;
     mode?: number;
     mtime?: Date;
+    uid?: number;
+    gid?: number;
     type?: 'file' | 'directory' | string;
+    linkname?: string;
   }
 
   interface Pack extends Readable {
     entry(header: Header, callback?: (err?: Error) => void): Writable;
+    entry(header: Header, content: string | Buffer, callback?: (err?: Error) => void): Writable;
     entry(header: Header): Writable;
     finalize(): void;
   }
@@ -0,0 +1,83 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdir, writeFile, rm, stat, lstat, symlink, chmod } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createAttributeRestorer, finalMode } from './attributes.js';
+
+describe('Attributes', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = join(tmpdir(), `attributes-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await chmod(dir, 0o700).catch(() => {});
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('finalMode', () => {
+    it('should apply the umask by default', () => {
+      assert.strictEqual(finalMode(0o777, false, 0o022), 0o755);
+      assert.strictEqual(finalMode(0o666, false, 0o077), 0o600);
+    });
+
+    it('should keep modes as sent when preserving them', () => {
+      assert.strictEqual(finalMode(0o777, true, 0o022), 0o777);
+      assert.strictEqual(finalMode(0o1777, true, 0o022), 0o1777);
+    });
+
+    it('should always drop setuid and setgid', () => {
+      assert.strictEqual(finalMode(0o4755, true, 0), 0o755);
+      assert.strictEqual(finalMode(0o2755, false, 0), 0o755);
+    });
+  });
+
+  describe('createAttributeRestorer', () => {
+    const mtime = new Date('2020-01-02T03:04:05Z');
+
+    it('should set mode and mtime on a file', async () => {
+      const file = join(dir, 'run.sh');
+      await writeFile(file, 'echo hi');
+      await createAttributeRestorer({ preservePermissions: true }).restore(file, { type: 'file', mode: 0o4751, mtime });
+
+      const stats = await stat(file);
+      assert.strictEqual(stats.mode & 0o7777, 0o751);
+      assert.strictEqual(stats.mtimeMs, mtime.getTime());
+    });
+
+    it('should set the mtime of a symlink itself', async () => {
+      const file = join(dir, 'target.txt');
+      const link = join(dir, 'link');
+      await writeFile(file, 'target');
+      await symlink('target.txt', link);
+      const before = await stat(file);
+
+      await createAttributeRestorer().restore(link, { type: 'symlink', mode: 0o777, mtime });
+
+      assert.strictEqual((await lstat(link)).mtimeMs, mtime.getTime());
+      const after = await stat(file);
+      assert.strictEqual(after.mtimeMs, before.mtimeMs);
+      assert.strictEqual(after.mode, before.mode);
+    });
+
+    it('should finish folders children first, after their contents', async () => {
+      const outer = join(dir, 'outer');
+      const inner = join(outer, 'inner');
+      await mkdir(inner, { recursive: true });
+      const restorer = createAttributeRestorer({ preservePermissions: true });
+      restorer.defer(outer, { type: 'directory', mode: 0o500, mtime });
+      restorer.defer(inner, { type: 'directory', mode: 0o755, mtime });
+
+      // Still writable until finish(), which sets the inner folder first
+      await writeFile(join(inner, 'late.txt'), 'late');
+      await restorer.finish();
+
+      assert.strictEqual((await stat(outer)).mode & 0o777, 0o500);
+      assert.strictEqual((await stat(inner)).mtimeMs, mtime.getTime());
+      assert.strictEqual((await stat(outer)).mtimeMs, mtime.getTime());
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * File attributes on extract
+ *
+ * The sender packs each entry's mode, mtime and numeric owner. While a
+ * file or folder is being written it is ours alone (WRITING_FILE_MODE,
+ * WRITING_FOLDER_MODE): nobody else reads a half-written file, and a
+ * read-only folder can still be filled. Once complete it gets:
+ *
+ *   - Its mode: as sent with --preserve-perms, otherwise with our umask
+ *     applied (like a file we'd created ourselves). setuid and setgid are
+ *     always dropped, so a peer can't hand us a program that runs as
+ *     someone else.
+ *   - Its mtime (symlinks too).
+ *   - Its owner, with --preserve-owner when running as root. Anyone else
+ *     couldn't chown, and owns everything they receive.
+ *
+ * Writing into a folder changes its mtime, so folders get theirs last,
+ * deepest first, once every stream of the transfer is done.
+ */
+
+import { chmod, lchown, lutimes } from 'node:fs/promises';
+
+// Constants
+export const WRITING_FILE_MODE = 0o600;
+export const WRITING_FOLDER_MODE = 0o700;
+const PERMISSION_BITS = 0o1777; // rwx for everyone, and sticky: not setuid/setgid
+const DEFAULT_FILE_MODE = 0o644; // For entries sent without a mode
+const DEFAULT_FOLDER_MODE = 0o755;
+
+export interface AttributeOptions {
+  preservePermissions?: boolean; // Modes as sent, not through our umask (--preserve-perms)
+  preserveOwner?: boolean; // uid/gid as sent, when running as root (--preserve-owner)
+}
+
+/**
+ * What an entry's header says about it
+ */
+export interface EntryAttributes {
+  type?: string;
+  mode?: number;
+  mtime?: Date;
+  uid?: number;
+  gid?: number;
+}
+
+/**
+ * Applies attributes to extracted entries
+ */
+export interface AttributeRestorer {
+  /**
+   * Set the attributes of a file or symlink that's been written
+   */
+  restore(path: string, attributes: EntryAttributes): Promise<void>;
+  /**
+   * Remember a folder, for finish() (the last call for a path wins)
+   */
+  defer(path: string, attributes: EntryAttributes): void;
+  /**
+   * Set the attributes of every deferred folder, deepest first
+   */
+  finish(): Promise<void>;
+}
+
+/**
+ * Final mode for an entry
+ *
+ * @param umask - Bits to clear unless preserving permissions
+ */
+export function finalMode(mode: number, preservePermissions: boolean, umask: number): number {
+  return preservePermissions ? mode & PERMISSION_BITS : mode & PERMISSION_BITS & ~umask;
+}
+
+/**
+ * Create a restorer for one transfer
+ *
+ * Share it between all the extract streams of the transfer (and across
+ * reconnects) so folders are only finished once everything is in.
+ */
+export function createAttributeRestorer(options: AttributeOptions = {}): AttributeRestorer {
+  const { preservePermissions = false } = options;
+  // Reading the umask means setting it; put it straight back
+  const umask = process.umask(0);
+  process.umask(umask);
+  const owner = options.preserveOwner === true && process.getuid?.() === 0;
+  const folders = new Map<string, EntryAttributes>();
+
+  const apply = async (path: string, attributes: EntryAttributes): Promise<void> => {
+    const { type, mode, mtime, uid, gid } = attributes;
+
+    // Owner first: chown can clear mode bits
+    if (owner && uid !== undefined && gid !== undefined) {
+      await lchown(path, uid, gid);
+    }
+    if (type !== 'symlink') {
+      const fallback = type === 'directory' ? DEFAULT_FOLDER_MODE : DEFAULT_FILE_MODE;
+      await chmod(path, finalMode(mode ?? fallback, preservePermissions, umask));
+    }
+    if (mtime) {
+      await lutimes(path, new Date(), mtime);
+    }
+  };
+
+  return {
+    restore: apply,
+
+    defer(path: string, attributes: EntryAttributes): void {
+      // Keeps its first place: a parent stays ahead of its children
+      folders.set(path, attributes);
+    },
+
+    async finish(): Promise<void> {
+      // A folder's entry comes before its contents, so going backwards
+      // sets children while a parent's final mode can't lock us out yet
+      const pending = [...folders].reverse();
+      folders.clear();
+      for (const [path, attributes] of pending) {
+        await apply(path, attributes);
+      }
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { loadConfig, configPath, parseBootstrapNode } from './config.js';
+
+describe('Config', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = join(tmpdir(), `config-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should find the config file from the environment', () => {
+    assert.strictEqual(configPath({ EZSHARE_CONFIG: '/etc/ezshare.json' }), '/etc/ezshare.json');
+    assert.strictEqual(configPath({ XDG_CONFIG_HOME: '/cfg' }), join('/cfg', 'ezshare', 'config.json'));
+  });
+
+  it('should treat a missing file as empty', async () => {
+    assert.deepStrictEqual(await loadConfig(join(dir, 'missing.json')), {});
+  });
+
+  it('should read bootstrap nodes', async () => {
+    const file = join(dir, 'config.json');
+    await writeFile(file, JSON.stringify({ bootstrap: ['dht.example.internal:49737', '[::1]:49738'] }));
+
+    assert.deepStrictEqual(await loadConfig(file), {
+      bootstrap: [
+        { host: 'dht.example.internal', port: 49737 },
+        { host: '::1', port: 49738 },
+      ],
+    });
+  });
+
+  it('should read a bandwidth limit and schedule', async () => {
+    const file = join(dir, 'config.json');
+    await writeFile(file, JSON.stringify({
+      limit: '5MB/s',
+      schedule: [{ from: '22:00', to: '07:00', limit: 'unlimited' }],
+    }));
+
+    assert.deepStrictEqual(await loadConfig(file), {
+      limit: 5 * 1024 * 1024,
+      schedule: [{ from: 22 * 60, to: 7 * 60, limit: Infinity }],
+    });
+
+    await writeFile(file, JSON.stringify({ schedule: [{ from: '22:00', limit: '1MB/s' }] }));
+    await assert.rejects(loadConfig(file), /need "from", "to" and "limit"/);
+  });
+
+  it('should reject an invalid file', async () => {
+    const file = join(dir, 'config.json');
+
+    await writeFile(file, '{ not json');
+    await assert.rejects(loadConfig(file), /not valid JSON/);
+
+    await writeFile(file, JSON.stringify({ bootstrap: 'dht.example.internal:49737' }));
+    await assert.rejects(loadConfig(file), /must be a list/);
+  });
+
+  it('should require a host and port for bootstrap nodes', () => {
+    assert.throws(() => parseBootstrapNode(':49737'), /Invalid bootstrap node/);
+    assert.throws(() => parseBootstrapNode('dht.example.internal'), /Invalid address/);
+  });
+});
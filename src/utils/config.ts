@@ -0,0 +1,128 @@
+/**
+ * User configuration
+ *
+ * Optional JSON file with defaults for settings that would otherwise need a
+ * flag on every run. Looked up at $EZSHARE_CONFIG, else
+ * $XDG_CONFIG_HOME/ezshare/config.json (~/.config/ezshare/config.json).
+ * Command-line flags always win over the file.
+ *
+ *   {
+ *     "bootstrap": ["dht1.example.internal:49737", "10.0.0.5:49737"],
+ *     "limit": "5MB/s",
+ *     "schedule": [{ "from": "22:00", "to": "07:00", "limit": "unlimited" }]
+ *   }
+ */
+
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parseHostPort } from './tcp.js';
+import { parseRate, parseTimeOfDay, type RateRule } from './throttle.js';
+
+export interface BootstrapNode {
+  host: string;
+  port: number;
+}
+
+export interface EzshareConfig {
+  bootstrap?: BootstrapNode[]; // Private DHT instead of the public bootstrap nodes
+  limit?: number; // Default bandwidth limit in bytes per second
+  schedule?: RateRule[]; // Time-of-day limits that override `limit`
+}
+
+/**
+ * Where the config file lives
+ */
+export function configPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.EZSHARE_CONFIG) return env.EZSHARE_CONFIG;
+  const base = env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'ezshare', 'config.json');
+}
+
+/**
+ * Parse a DHT bootstrap node given as "host:port"
+ *
+ * @throws Error if the host or port is missing
+ */
+export function parseBootstrapNode(value: string): BootstrapNode {
+  const { host, port } = parseHostPort(value);
+  if (!host || port === 0) {
+    throw new Error(`Invalid bootstrap node "${value}": expected host:port`);
+  }
+  return { host, port };
+}
+
+/**
+ * Parse one { "from": "HH:MM", "to": "HH:MM", "limit": "5MB/s" } rule
+ *
+ * @throws Error if a field is missing or invalid
+ */
+function parseRateRule(value: unknown, file: string): RateRule {
+  const rule = value as Record<string, unknown> | null;
+  if (
+    !rule ||
+    typeof rule.from !== 'string' ||
+    typeof rule.to !== 'string' ||
+    typeof rule.limit !== 'string'
+  ) {
+    throw new Error(
+      `Config file ${file}: schedule rules need "from", "to" and "limit", ` +
+      'e.g. { "from": "22:00", "to": "07:00", "limit": "unlimited" }'
+    );
+  }
+  return {
+    from: parseTimeOfDay(rule.from),
+    to: parseTimeOfDay(rule.to),
+    limit: parseRate(rule.limit),
+  };
+}
+
+/**
+ * Load the config file
+ *
+ * A missing file is the same as an empty one.
+ *
+ * @throws Error if the file exists but isn't valid
+ */
+export async function loadConfig(file: string = configPath()): Promise<EzshareConfig> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new Error(`Could not read config file ${file}: ${(err as Error).message}`);
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Config file ${file} is not valid JSON: ${(err as Error).message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Config file ${file} must contain a JSON object`);
+  }
+
+  const config: EzshareConfig = {};
+  if (parsed.bootstrap !== undefined) {
+    if (!Array.isArray(parsed.bootstrap) || !parsed.bootstrap.every((node) => typeof node === 'string')) {
+      throw new Error(`Config file ${file}: "bootstrap" must be a list of "host:port" strings`);
+    }
+    config.bootstrap = parsed.bootstrap.map(parseBootstrapNode);
+  }
+
+  if (parsed.limit !== undefined) {
+    if (typeof parsed.limit !== 'string') {
+      throw new Error(`Config file ${file}: "limit" must be a rate like "5MB/s"`);
+    }
+    config.limit = parseRate(parsed.limit);
+  }
+
+  if (parsed.schedule !== undefined) {
+    if (!Array.isArray(parsed.schedule)) {
+      throw new Error(`Config file ${file}: "schedule" must be a list of rules`);
+    }
+    config.schedule = parsed.schedule.map((rule: unknown) => parseRateRule(rule, file));
+  }
+  return config;
+}
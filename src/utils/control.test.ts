@@ -0,0 +1,196 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { randomBytes } from 'node:crypto';
+import {
+  sealMessage,
+  openMessage,
+  createControlChannel,
+  confirmFingerprint,
+  isTransferManifest,
+  FingerprintMismatchError,
+  TransferCancelledError,
+  MAX_CONTROL_MESSAGE_SIZE,
+  type ControlMessage,
+} from './control.js';
+import type { TransferManifest } from './tar.js';
+import { createDuplexPair } from './testing.js';
+
+const manifest: TransferManifest = {
+  totalSize: 3,
+  fileCount: 1,
+  isDirectory: true,
+  entries: [
+    { path: 'photos/', size: 0, mtime: 0, type: 'directory' },
+    { path: 'photos/cat.jpg', size: 3, mtime: 0, type: 'file' },
+  ],
+};
+
+/**
+ * Split a sealed frame into ciphertext and tag
+ */
+function splitFrame(frame: Buffer): { ciphertext: Buffer; tag: Buffer } {
+  const length = frame.readUInt32BE(0);
+  return { ciphertext: frame.subarray(4, 4 + length), tag: frame.subarray(4 + length) };
+}
+
+describe('Control channel', () => {
+  describe('Message sealing', () => {
+    it('should roundtrip a message', () => {
+      const key = randomBytes(32);
+      const message: ControlMessage = { type: 'manifest', manifest };
+      const { ciphertext, tag } = splitFrame(sealMessage(key, 0n, message));
+
+      assert.deepStrictEqual(openMessage(key, 0n, ciphertext, tag), message);
+    });
+
+    it('should reject tampered ciphertext', () => {
+      const key = randomBytes(32);
+      const { ciphertext, tag } = splitFrame(sealMessage(key, 0n, { type: 'accept' }));
+      ciphertext[0] ^= 0x01;
+
+      assert.throws(() => openMessage(key, 0n, ciphertext, tag), /failed authentication/);
+    });
+
+    it('should reject a message replayed at a different position', () => {
+      const key = randomBytes(32);
+      const { ciphertext, tag } = splitFrame(sealMessage(key, 0n, { type: 'accept' }));
+
+      assert.throws(() => openMessage(key, 1n, ciphertext, tag), /failed authentication/);
+    });
+
+    it('should refuse to seal oversized messages', () => {
+      const key = randomBytes(32);
+      const reason = 'x'.repeat(MAX_CONTROL_MESSAGE_SIZE);
+
+      assert.throws(() => sealMessage(key, 0n, { type: 'decline', reason }), /too large/);
+    });
+  });
+
+  describe('Channel over a socket', () => {
+    it('should deliver messages in both directions', async () => {
+      const [a, b] = createDuplexPair();
+      const aToB = randomBytes(32);
+      const bToA = randomBytes(32);
+      const sender = createControlChannel(a, aToB, bToA);
+      const receiver = createControlChannel(b, bToA, aToB);
+
+      sender.send({ type: 'manifest', manifest });
+      assert.deepStrictEqual(await receiver.receive(), { type: 'manifest', manifest });
+
+      receiver.send({ type: 'decline', reason: 'not today' });
+      assert.deepStrictEqual(await sender.receive(), { type: 'decline', reason: 'not today' });
+
+      a.destroy();
+    });
+
+    it('should skip heartbeats but count them as activity', async () => {
+      const [a, b] = createDuplexPair();
+      const aToB = randomBytes(32);
+      const bToA = randomBytes(32);
+      let frames = 0;
+      const receiver = createControlChannel(a, aToB, bToA, { onActivity: () => frames++ });
+      const sender = createControlChannel(b, bToA, aToB);
+
+      sender.send({ type: 'heartbeat' });
+      sender.send({ type: 'heartbeat' });
+      sender.send({ type: 'accept' });
+      assert.deepStrictEqual(await receiver.receive(), { type: 'accept' });
+      assert.strictEqual(frames, 3);
+      a.destroy();
+    });
+
+    it('should fail with who cancelled and why', async () => {
+      const [a, b] = createDuplexPair();
+      const aToB = randomBytes(32);
+      const bToA = randomBytes(32);
+      const sender = createControlChannel(a, aToB, bToA, { peer: 'receiver' });
+      const receiver = createControlChannel(b, bToA, aToB, { peer: 'sender' });
+
+      sender.send({ type: 'cancel' });
+      await assert.rejects(receiver.receive(), (err: Error) => {
+        assert.ok(err instanceof TransferCancelledError);
+        assert.strictEqual(err.message, 'Sender cancelled the transfer');
+        return true;
+      });
+
+      receiver.send({ type: 'abort', reason: 'disk full' });
+      await assert.rejects(sender.receive(), /Receiver aborted the transfer: disk full/);
+      a.destroy();
+    });
+
+    it('should reject a frame header announcing an oversized message', async () => {
+      const [a, b] = createDuplexPair();
+      const receiver = createControlChannel(b, randomBytes(32), randomBytes(32));
+
+      const header = Buffer.alloc(4);
+      header.writeUInt32BE(MAX_CONTROL_MESSAGE_SIZE + 1);
+      a.write(header);
+
+      await assert.rejects(receiver.receive(), /too large/);
+      a.destroy();
+    });
+  });
+
+  describe('Fingerprint confirmation', () => {
+    const channels = () => {
+      const [a, b] = createDuplexPair();
+      const aToB = randomBytes(32);
+      const bToA = randomBytes(32);
+      return {
+        socket: a,
+        sender: createControlChannel(a, aToB, bToA),
+        receiver: createControlChannel(b, bToA, aToB),
+      };
+    };
+
+    it('should go ahead once both users confirm', async () => {
+      const { socket, sender, receiver } = channels();
+
+      await Promise.all([
+        confirmFingerprint(sender, Promise.resolve(true)),
+        confirmFingerprint(receiver, Promise.resolve(true)),
+      ]);
+
+      // The channel carries on normally afterwards
+      sender.send({ type: 'manifest', manifest });
+      assert.deepStrictEqual(await receiver.receive(), { type: 'manifest', manifest });
+      socket.destroy();
+    });
+
+    it('should stop both sides if one user says no', async () => {
+      const { socket, sender, receiver } = channels();
+
+      // The receiver's user never answers: the sender's "no" still ends it
+      const results = await Promise.allSettled([
+        confirmFingerprint(sender, Promise.resolve(false)),
+        confirmFingerprint(receiver, new Promise<boolean>(() => {})),
+      ]);
+
+      for (const result of results) {
+        assert.strictEqual(result.status, 'rejected');
+        assert.ok((result as PromiseRejectedResult).reason instanceof FingerprintMismatchError);
+      }
+      assert.match((results[1] as PromiseRejectedResult).reason.message, /other side says/);
+      socket.destroy();
+    });
+  });
+
+  describe('Manifest validation', () => {
+    it('should accept a well-formed manifest', () => {
+      assert.strictEqual(isTransferManifest(manifest), true);
+    });
+
+    it('should reject manifests with malformed entries', () => {
+      assert.strictEqual(isTransferManifest(null), false);
+      assert.strictEqual(isTransferManifest({ ...manifest, entries: 'photos' }), false);
+      assert.strictEqual(
+        isTransferManifest({ ...manifest, entries: [{ path: 'x', size: -1, mtime: 0, type: 'file' }] }),
+        false
+      );
+      assert.strictEqual(
+        isTransferManifest({ ...manifest, entries: [{ path: 'x', size: 1, type: 'device' }] }),
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Encrypted control messages between sender and receiver
+ *
+ * Used for the conversation that happens before (and around) the file data:
+ * the fingerprint check (--verify), the manifest, the receiver's
+ * accept/decline, and so on. The receiver keeps using it while the data
+ * flows the other way, for heartbeats and to cancel (see keepalive.ts).
+ *
+ * Frame format:
+ *   [4 bytes: ciphertext length, big-endian]
+ *   [ciphertext: JSON message]
+ *   [16 bytes: GCM auth tag]
+ *
+ * Each direction has its own control key from the session handshake, and
+ * every frame uses the next value of a per-direction counter as its nonce,
+ * so frames can't be replayed, dropped or reordered without failing
+ * authentication.
+ */
+
+import type { Duplex } from 'node:stream';
+import { createCipheriv, createDecipheriv } from 'node:crypto';
+import { readExact } from './wire.js';
+import type { TransferManifest } from './tar.js';
+import type { ResumeRequest } from './resume.js';
+
+// Constants
+const ALGORITHM = 'aes-256-gcm' as const;
+const NONCE_SIZE = 12;
+const TAG_SIZE = 16;
+const LENGTH_SIZE = 4;
+const AAD = Buffer.from('ezshare-control-v1');
+export const MAX_CONTROL_MESSAGE_SIZE = 4 * 1024 * 1024; // Manifests of large folders
+
+/**
+ * Messages exchanged on the control channel
+ */
+export type ControlMessage =
+  | { type: 'verify'; match: boolean } // User's answer to "do the fingerprints match?"
+  | { type: 'manifest'; manifest: TransferManifest }
+  | {
+      type: 'accept';
+      selection?: string[]; // Manifest paths to send (all if omitted)
+      resume?: ResumeRequest; // What the receiver already has from an earlier attempt
+    }
+  | { type: 'decline'; reason?: string }
+  | {
+      type: 'parallel';
+      streams: number; // Connections carrying data, counting this one
+      secret?: string; // Base64 secret the extra connections authenticate with
+    }
+  | { type: 'join' } // First message on an extra connection (see parallel.ts)
+  | { type: 'heartbeat' } // Still here (see keepalive.ts)
+  | { type: 'cancel'; reason?: string } // The user stopped the transfer
+  | { type: 'abort'; reason: string }; // Something failed on the other side
+
+export type PeerRole = 'sender' | 'receiver';
+
+/**
+ * Thrown on the sender when the receiver declines the transfer
+ */
+export class TransferDeclinedError extends Error {
+  constructor(reason?: string) {
+    super(reason ? `Transfer declined by receiver: ${reason}` : 'Transfer declined by receiver');
+    this.name = 'TransferDeclinedError';
+  }
+}
+
+/**
+ * Thrown when the other side cancels or aborts the transfer
+ */
+export class TransferCancelledError extends Error {
+  constructor(
+    public readonly by: PeerRole | undefined,
+    public readonly reason?: string,
+    public readonly aborted = false
+  ) {
+    const who = by === 'sender' ? 'Sender' : by === 'receiver' ? 'Receiver' : 'The other side';
+    const what = aborted ? `${who} aborted the transfer` : `${who} cancelled the transfer`;
+    super(reason ? `${what}: ${reason}` : what);
+    this.name = 'TransferCancelledError';
+  }
+}
+
+/**
+ * Thrown when nothing has moved for the stall timeout (see keepalive.ts)
+ */
+export class TransferStalledError extends Error {
+  constructor(peer: PeerRole, timeout: number) {
+    super(`No progress for ${Math.round(timeout / 1000)}s: the ${peer} stopped responding`);
+    this.name = 'TransferStalledError';
+  }
+}
+
+/**
+ * Thrown when either user says the session fingerprints don't match
+ */
+export class FingerprintMismatchError extends Error {
+  constructor(byPeer: boolean) {
+    super(
+      byPeer
+        ? 'The other side says the fingerprints do not match. Nothing was transferred.'
+        : 'Fingerprints do not match. Nothing was transferred.'
+    );
+    this.name = 'FingerprintMismatchError';
+  }
+}
+
+export interface ControlChannel {
+  send(message: ControlMessage): void;
+
+  /**
+   * Next message from the peer, skipping heartbeats
+   *
+   * @throws TransferCancelledError if the peer cancels or aborts
+   */
+  receive(): Promise<ControlMessage>;
+}
+
+export interface ControlChannelOptions {
+  peer?: PeerRole; // Who's on the other end, for the cancel error message
+  onActivity?: () => void; // Every frame from the peer, heartbeats included (for the stall watchdog)
+}
+
+/**
+ * Nonce for control frame N: 4 zero bytes + 8-byte big-endian counter
+ */
+function makeNonce(counter: bigint): Buffer {
+  const nonce = Buffer.alloc(NONCE_SIZE);
+  nonce.writeBigUInt64BE(counter, NONCE_SIZE - 8);
+  return nonce;
+}
+
+/**
+ * Encrypt one control message into a frame
+ */
+export function sealMessage(key: Buffer, counter: bigint, message: ControlMessage): Buffer {
+  const plaintext = Buffer.from(JSON.stringify(message));
+  if (plaintext.length > MAX_CONTROL_MESSAGE_SIZE) {
+    throw new Error(
+      `Control message too large: ${plaintext.length} bytes (max ${MAX_CONTROL_MESSAGE_SIZE})`
+    );
+  }
+
+  const cipher = createCipheriv(ALGORITHM, key, makeNonce(counter));
+  cipher.setAAD(AAD);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  const length = Buffer.alloc(LENGTH_SIZE);
+  length.writeUInt32BE(ciphertext.length);
+  return Buffer.concat([length, ciphertext, cipher.getAuthTag()]);
+}
+
+/**
+ * Decrypt and validate one control message
+ *
+ * @throws Error if authentication fails or the message is malformed
+ */
+export function openMessage(
+  key: Buffer,
+  counter: bigint,
+  ciphertext: Buffer,
+  tag: Buffer
+): ControlMessage {
+  const decipher = createDecipheriv(ALGORITHM, key, makeNonce(counter));
+  decipher.setAAD(AAD);
+  decipher.setAuthTag(tag);
+
+  let plaintext: Buffer;
+  try {
+    plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new Error('Control message failed authentication');
+  }
+
+  return parseControlMessage(plaintext);
+}
+
+/**
+ * Parse a decrypted control message (a control frame, or a control record
+ * in the data stream)
+ *
+ * @throws Error if it isn't a JSON object with a type
+ */
+export function parseControlMessage(plaintext: Buffer): ControlMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(plaintext.toString('utf-8'));
+  } catch {
+    throw new Error('Control message is not valid JSON');
+  }
+  if (!message || typeof (message as { type?: unknown }).type !== 'string') {
+    throw new Error('Control message has no type');
+  }
+  return message as ControlMessage;
+}
+
+/**
+ * Turn a cancel or abort from the peer into the error to fail with
+ */
+export function cancelledError(message: ControlMessage, peer?: PeerRole): TransferCancelledError | null {
+  if (message.type === 'cancel') {
+    return new TransferCancelledError(peer, typeof message.reason === 'string' ? message.reason : undefined);
+  }
+  if (message.type === 'abort') {
+    return new TransferCancelledError(peer, typeof message.reason === 'string' ? message.reason : undefined, true);
+  }
+  return null;
+}
+
+/**
+ * Check that a manifest from the peer has the shape we expect
+ */
+export function isTransferManifest(value: unknown): value is TransferManifest {
+  const manifest = value as Partial<TransferManifest> | null;
+  return (
+    !!manifest &&
+    typeof manifest.totalSize === 'number' && manifest.totalSize >= 0 &&
+    typeof manifest.fileCount === 'number' && manifest.fileCount >= 0 &&
+    typeof manifest.isDirectory === 'boolean' &&
+    (manifest.roots === undefined ||
+      (Array.isArray(manifest.roots) && manifest.roots.every((root) => typeof root === 'string'))) &&
+    Array.isArray(manifest.entries) &&
+    manifest.entries.every((entry) =>
+      !!entry &&
+      typeof entry.path === 'string' &&
+      typeof entry.size === 'number' && entry.size >= 0 &&
+      typeof entry.mtime === 'number' &&
+      (entry.type === 'file' || entry.type === 'directory' || entry.type === 'symlink')
+    )
+  );
+}
+
+/**
+ * Create a control channel on a socket
+ *
+ * Reads happen directly on the socket, so only use this while no pipeline
+ * is consuming it.
+ *
+ * @param socket - Socket after the session handshake
+ * @param sendKey - Our control send key
+ * @param receiveKey - Our control receive key
+ * @param options - Who the peer is, and a hook for the stall watchdog
+ */
+export function createControlChannel(
+  socket: Duplex,
+  sendKey: Buffer,
+  receiveKey: Buffer,
+  options: ControlChannelOptions = {}
+): ControlChannel {
+  let sendCounter = 0n;
+  let receiveCounter = 0n;
+
+  return {
+    send(message: ControlMessage): void {
+      socket.write(sealMessage(sendKey, sendCounter, message));
+      sendCounter++;
+    },
+
+    async receive(): Promise<ControlMessage> {
+      for (;;) {
+        const header = await readExact(socket, LENGTH_SIZE);
+        const length = header.readUInt32BE(0);
+        // Reject before buffering, so a hostile peer can't make us wait forever
+        if (length > MAX_CONTROL_MESSAGE_SIZE) {
+          throw new Error(
+            `Control message too large: ${length} bytes (max ${MAX_CONTROL_MESSAGE_SIZE})`
+          );
+        }
+
+        const body = await readExact(socket, length + TAG_SIZE);
+        const message = openMessage(
+          receiveKey,
+          receiveCounter,
+          body.subarray(0, length),
+          body.subarray(length)
+        );
+        receiveCounter++;
+        options.onActivity?.();
+
+        if (message.type === 'heartbeat') continue;
+        const cancelled = cancelledError(message, options.peer);
+        if (cancelled) throw cancelled;
+        return message;
+      }
+    },
+  };
+}
+
+/**
+ * Trade both users' answers to "do the fingerprints match?"
+ *
+ * Sends our answer once the user gives it and fails as soon as either side
+ * says no, so nobody is left looking at a prompt the other side gave up on.
+ *
+ * @param confirmed - Resolves with the local user's answer
+ * @throws FingerprintMismatchError if either user rejects the fingerprint
+ */
+export async function confirmFingerprint(
+  control: ControlChannel,
+  confirmed: Promise<boolean>
+): Promise<void> {
+  const ours = confirmed.then((match) => {
+    control.send({ type: 'verify', match });
+    if (!match) throw new FingerprintMismatchError(false);
+  });
+  const theirs = control.receive().then((message) => {
+    if (message.type !== 'verify') {
+      throw new Error(`Unexpected control message from peer: ${message.type}`);
+    }
+    if (message.match !== true) throw new FingerprintMismatchError(true);
+  });
+  await Promise.all([ours, theirs]);
+}
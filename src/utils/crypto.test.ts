@@ -3,11 +3,15 @@
  * Run with: npx tsx src/utils/crypto.test.ts
  */
 
+import assert from 'node:assert';
 import { pipeline } from 'node:stream/promises';
-import { Readable, Writable } from 'node:stream';
+import { Readable, Writable, type Transform } from 'node:stream';
+import { randomBytes } from 'node:crypto';
 import {
   generateTopicKey,
+  generateShortCode,
   parseTopicKey,
+  splitShareSecret,
   deriveKey,
   createEncryptStream,
   createDecryptStream,
@@ -18,18 +22,22 @@ async function test() {
 
   // Test 1: Key generation and parsing
   console.log('Test 1: Key generation and parsing');
-  const { topic, displayKey } = generateTopicKey();
+  const { topic, encryptionSecret, displayKey } = generateTopicKey();
   console.log(`  Generated key: ${displayKey}`);
   console.log(`  Key length: ${displayKey.length} chars`);
 
-  const parsedTopic = parseTopicKey(displayKey);
-  const match = Buffer.compare(topic, parsedTopic) === 0;
+  const parsed = parseTopicKey(displayKey);
+  assert.strictEqual(parsed.kind, 'key');
+  const match =
+    parsed.kind === 'key' &&
+    Buffer.compare(topic, parsed.topic) === 0 &&
+    Buffer.compare(encryptionSecret, parsed.encryptionSecret) === 0;
   console.log(`  Roundtrip: ${match ? 'PASS' : 'FAIL'}\n`);
 
   // Test 2: Key derivation
   console.log('Test 2: Key derivation');
-  const key1 = deriveKey(topic);
-  const key2 = deriveKey(topic);
+  const key1 = deriveKey(encryptionSecret);
+  const key2 = deriveKey(encryptionSecret);
   const keysMatch = Buffer.compare(key1, key2) === 0;
   console.log(`  Key size: ${key1.length} bytes`);
   console.log(`  Deterministic: ${keysMatch ? 'PASS' : 'FAIL'}\n`);
@@ -57,7 +65,7 @@ async function test() {
 
   // Test 5: Wrong key should fail
   console.log('Test 5: Wrong key detection');
-  const wrongKey = deriveKey(generateTopicKey().topic);
+  const wrongKey = deriveKey(generateTopicKey().encryptionSecret);
   try {
     await encryptDecryptRoundtrip(key1, smallData, wrongKey);
     console.log('  Expected error but got success: FAIL\n');
@@ -65,9 +73,199 @@ async function test() {
     console.log(`  Correctly rejected: PASS\n`);
   }
 
+  // Test 6: Topic and encryption secret are independent
+  console.log('Test 6: Topic/secret separation');
+  assert.notDeepStrictEqual(topic, encryptionSecret);
+  assert.notDeepStrictEqual(topic, key1);
+  assert.notDeepStrictEqual(deriveKey(topic), key1);
+  // Re-splitting the topic as if it were a share secret gets nowhere either
+  assert.notDeepStrictEqual(splitShareSecret(topic).encryptionSecret, encryptionSecret);
+  console.log('  Topic, secret and key all differ: PASS\n');
+
+  // Test 7: A DHT observer holding only the topic cannot decrypt
+  console.log('Test 7: DHT observer cannot decrypt');
+  const observerKeys = [
+    topic,
+    deriveKey(topic),
+    deriveKey(splitShareSecret(topic).encryptionSecret),
+  ];
+  for (const observerKey of observerKeys) {
+    await assert.rejects(encryptDecryptRoundtrip(key1, smallData, observerKey));
+  }
+  console.log(`  All ${observerKeys.length} observer keys rejected: PASS\n`);
+
+  // Test 8: Versioned key format
+  console.log('Test 8: Key versioning');
+  assert.strictEqual(Buffer.from(displayKey, 'base64url')[0], 0x02);
+  const legacyKey = Buffer.alloc(32, 7).toString('base64url');
+  assert.throws(() => parseTopicKey(legacyKey), /older ezshare/);
+  const futureKey = Buffer.concat([Buffer.from([0x09]), Buffer.alloc(32)]).toString('base64url');
+  assert.throws(() => parseTopicKey(futureKey), /Unsupported key version 9/);
+  console.log('  Legacy and unknown versions rejected: PASS\n');
+
+  // Test 9: Short codes
+  console.log('Test 9: Short codes');
+  const shortCode = generateShortCode();
+  assert.match(shortCode.code, /^\d{1,3}-[a-z]+-[a-z]+$/);
+  const parsedCode = parseTopicKey(` ${shortCode.code.toUpperCase().replace(/-/g, ' ')} `);
+  assert.strictEqual(parsedCode.kind, 'code');
+  assert.deepStrictEqual(parsedCode.topic, shortCode.topic);
+  // Only the number picks the topic, so the words can't be guessed from the DHT
+  const [nameplate] = shortCode.code.split('-');
+  const sibling = parseTopicKey(`${nameplate}-acid-acorn`);
+  assert.deepStrictEqual(sibling.topic, shortCode.topic);
+  assert.throws(() => parseTopicKey('7-orbit-notaword'), /unknown word/);
+  console.log(`  Code ${shortCode.code} roundtrip: PASS\n`);
+
+  // Test 10: Truncation is detected
+  console.log('Test 10: Truncation detection');
+  const encrypted = await encryptToBuffer(key1, largeData);
+  const headerSize = 3 + 4; // magic + version + nonce prefix
+  const chunkSize = 4 + 64 * 1024 + 16;
+  // Cut cleanly after each full chunk, plus mid-chunk and header-only
+  const cutPoints = [headerSize, headerSize + chunkSize, headerSize + 2 * chunkSize, headerSize + 100, 5];
+  for (const cut of cutPoints) {
+    await assert.rejects(
+      decryptBuffer(key1, encrypted.subarray(0, cut)),
+      /truncated/,
+      `cut at ${cut} bytes should be detected`
+    );
+  }
+  // Empty input ends without any final chunk too
+  await assert.rejects(decryptBuffer(key1, Buffer.alloc(0)), /truncated/);
+  console.log(`  All ${cutPoints.length + 1} truncations rejected: PASS\n`);
+
+  // Test 11: Final flag can't be forged
+  console.log('Test 11: Forged final flag');
+  const forged = Buffer.from(encrypted.subarray(0, headerSize + chunkSize));
+  forged[headerSize] |= 0x80; // Mark the first full chunk as final
+  await assert.rejects(decryptBuffer(key1, forged), /authenticate/);
+  const trailing = Buffer.concat([encrypted, Buffer.from([1, 2, 3, 4])]);
+  await assert.rejects(decryptBuffer(key1, trailing), /after the final/);
+  console.log('  Forged final chunk and trailing data rejected: PASS\n');
+
+  // Test 12: Stream format versioning
+  console.log('Test 12: Stream versioning');
+  const legacy = Buffer.concat([randomBytes(4), Buffer.alloc(4)]); // v1: prefix + end marker
+  legacy[0] = 0x00;
+  await assert.rejects(decryptBuffer(key1, legacy), /older ezshare/);
+  const future = Buffer.from(encrypted);
+  future[2] = 0x03;
+  await assert.rejects(decryptBuffer(key1, future), /Unsupported encrypted stream version 3/);
+  const empty = await encryptDecryptRoundtrip(key1, Buffer.alloc(0));
+  assert.strictEqual(empty.length, 0);
+  console.log('  v1 and unknown versions rejected, empty stream ok: PASS\n');
+
+  // Test 13: Encrypted metadata record
+  console.log('Test 13: Metadata record');
+  const metadata = Buffer.from(JSON.stringify({ totalSize: 42, fileCount: 1 }));
+  const withMetadata = await encryptToBuffer(key1, smallData, metadata);
+  assert.strictEqual(withMetadata.includes(Buffer.from('totalSize')), false, 'metadata must not travel in plaintext');
+  const events: string[] = [];
+  const decrypted = await decryptBuffer(key1, withMetadata, (record) => {
+    events.push(`metadata:${record.toString()}`);
+  });
+  assert.deepStrictEqual(decrypted, smallData);
+  assert.deepStrictEqual(events, [`metadata:${metadata.toString()}`]);
+  // Clearing the metadata bit turns it into a data chunk the tag doesn't cover
+  const relabeled = Buffer.from(withMetadata);
+  relabeled[headerSize] &= ~0x40;
+  await assert.rejects(decryptBuffer(key1, relabeled), /authenticate/);
+  console.log('  Metadata encrypted, delivered first, and bound to its type: PASS\n');
+
+  // Test 14: Metadata size limit
+  console.log('Test 14: Metadata size limit');
+  assert.throws(() => createEncryptStream(key1, { metadata: Buffer.alloc(17 * 1024) }), /too large/);
+  // A hostile peer claiming a huge metadata record is rejected from the length alone
+  const hostile = Buffer.alloc(headerSize + 4);
+  withMetadata.copy(hostile, 0, 0, headerSize);
+  hostile.writeUInt32BE(0x40000000 | 0x3fffffff, headerSize);
+  await assert.rejects(decryptBuffer(key1, hostile), /metadata too large/);
+  console.log('  Oversized metadata rejected before buffering: PASS\n');
+
+  // Test 15: Control records between data chunks
+  console.log('Test 15: Control records');
+  const controlData = randomBytes(200 * 1024);
+  const encrypt = createEncryptStream(key1);
+  const sealed: Buffer[] = [];
+  encrypt.on('data', (chunk: Buffer) => sealed.push(chunk));
+  encrypt.write(controlData.subarray(0, 100 * 1024));
+  encrypt.sendControl(Buffer.from('{"type":"heartbeat"}'));
+  encrypt.end(controlData.subarray(100 * 1024));
+  await new Promise((resolve) => encrypt.once('end', resolve));
+  encrypt.sendControl(Buffer.from('{"type":"heartbeat"}')); // After the final chunk: ignored
+  const withControl = Buffer.concat(sealed);
+
+  const records: string[] = [];
+  const received = await pipelineToBuffer(withControl, createDecryptStream(key1, {
+    onControl: (record) => records.push(record.toString()),
+  }));
+  assert.deepStrictEqual(received, controlData);
+  assert.deepStrictEqual(records, ['{"type":"heartbeat"}']);
+  // A throwing handler (the peer cancelled) fails the stream
+  await assert.rejects(
+    pipelineToBuffer(withControl, createDecryptStream(key1, {
+      onControl: () => {
+        throw new Error('Sender cancelled the transfer');
+      },
+    })),
+    /Sender cancelled/
+  );
+  assert.throws(() => encrypt.sendControl(Buffer.alloc(5 * 1024)), /too large/);
+  console.log('  Control records delivered in order, out of the data: PASS\n');
+
   console.log('All tests completed!');
 }
 
+async function encryptToBuffer(key: Buffer, data: Buffer, metadata?: Buffer): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(
+    Readable.from([data]),
+    createEncryptStream(key, { metadata }),
+    new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    })
+  );
+  return Buffer.concat(chunks);
+}
+
+async function decryptBuffer(
+  key: Buffer,
+  data: Buffer,
+  onMetadata?: (metadata: Buffer) => void
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(
+    Readable.from(data.length > 0 ? [data] : []),
+    createDecryptStream(key, { onMetadata }),
+    new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    })
+  );
+  return Buffer.concat(chunks);
+}
+
+async function pipelineToBuffer(data: Buffer, transform: Transform): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(
+    Readable.from([data]),
+    transform,
+    new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    })
+  );
+  return Buffer.concat(chunks);
+}
+
 async function encryptDecryptRoundtrip(
   encryptKey: Buffer,
   data: Buffer,
@@ -97,4 +295,7 @@ async function encryptDecryptRoundtrip(
   return Buffer.concat(chunks);
 }
 
-test().catch(console.error);
+test().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -4,20 +4,49 @@
  * Uses AES-256-GCM with chunked encryption for true streaming support.
  * Each chunk is independently authenticated, allowing fail-fast on corruption.
  *
- * Stream format:
- *   [4 bytes: nonce prefix]     <- sent once at start
- *   [chunks...]
- *   [4 bytes: 0x00000000]       <- end marker
+ * Stream format (v2, STREAM construction):
+ *   [2 bytes: magic "EZ"][1 byte: stream version]   <- sent once at start
+ *   [4 bytes: nonce prefix]                          <- sent once at start
+ *   [metadata record]                                <- optional, chunk 0 only
+ *   [chunks...]                                      <- last one flagged final
  *
  * Chunk format:
- *   [4 bytes: plaintext length, big-endian]
+ *   [4 bytes: final (bit 31) | metadata (bit 30) | control (bit 29) | plaintext length]
  *   [ciphertext]
  *   [16 bytes: GCM auth tag]
  *
  * Nonce construction for chunk N:
- *   [4-byte random prefix][8-byte big-endian counter N]
+ *   [4-byte random prefix][7-byte big-endian counter N][1-byte final flag]
  *
- * This ensures unique nonces across all chunks and sessions.
+ * This ensures unique nonces across all chunks and sessions. The final flag
+ * is authenticated through the nonce (flipping it breaks the tag), so cutting
+ * the stream after any chunk is detected: the decryptor fails unless the
+ * last chunk it saw was authenticated as final. The stream header and the
+ * record type (data or metadata) are bound to every chunk as associated data.
+ *
+ * The metadata record carries the transfer description (sizes, file count)
+ * so it is encrypted like everything else. It is capped at MAX_METADATA_SIZE,
+ * checked before buffering, so a hostile peer can't make us buffer forever.
+ *
+ * Control records can go between any two chunks: small messages for the
+ * other side (heartbeats, cancel) that travel with the data, in order and
+ * authenticated like it, and are handed to options.onControl instead of
+ * being pushed downstream. They are the fallback for peers without mux:
+ * normally those messages go on the control channel (see mux.ts and
+ * keepalive.ts).
+ *
+ * v1 streams (no header, unauthenticated 4-zero-byte end marker) are
+ * rejected with a clear error rather than decrypted.
+ *
+ * Share keys:
+ *   The display key encodes [1 byte: key version][32 bytes: share secret].
+ *   The share secret is never used directly. HKDF splits it into a public
+ *   discovery topic (joined on the DHT) and a private encryption secret
+ *   (fed to deriveKey), so a DHT observer learns nothing about the AES key.
+ *
+ *   Short codes ("7-orbit-lantern") are the alternative. Only the number
+ *   picks the discovery topic; the whole code is fed to a PAKE after
+ *   connecting (see pake.ts), which yields the encryption secret.
  */
 
 import { Transform, TransformCallback } from 'node:stream';
@@ -26,70 +55,302 @@ import {
   createDecipheriv,
   randomBytes,
   hkdfSync,
+  randomInt,
 } from 'node:crypto';
+import { WORDLIST } from './wordlist.js';
 
 // Constants
 const ALGORITHM = 'aes-256-gcm' as const;
 const CHUNK_SIZE = 64 * 1024; // 64KB chunks - good balance of overhead vs latency
 const NONCE_PREFIX_SIZE = 4;
-const NONCE_SIZE = 12; // 4 prefix + 8 counter (standard GCM nonce)
+const NONCE_SIZE = 12; // 4 prefix + 7 counter + 1 final flag (standard GCM nonce)
+const COUNTER_SIZE = 7;
+const MAX_COUNTER = (1n << BigInt(COUNTER_SIZE * 8)) - 1n;
 const TAG_SIZE = 16; // GCM authentication tag
 const LENGTH_SIZE = 4; // uint32 for chunk length
 const KEY_SIZE = 32; // AES-256
 
+// Stream header
+const STREAM_MAGIC = Buffer.from('EZ');
+const STREAM_VERSION = 0x02;
+const STREAM_HEADER = Buffer.concat([STREAM_MAGIC, Buffer.from([STREAM_VERSION])]);
+const FLAG_MORE = 0x00;
+const FLAG_FINAL = 0x01;
+const FINAL_BIT = 0x80000000; // Bit 31 of the chunk length word
+const METADATA_BIT = 0x40000000; // Bit 30 of the chunk length word
+const CONTROL_BIT = 0x20000000; // Bit 29 of the chunk length word
+const LENGTH_MASK = 0x1fffffff;
+const RECORD_DATA = 0x00;
+const RECORD_METADATA = 0x01;
+const RECORD_CONTROL = 0x02;
+const MAX_METADATA_SIZE = 16 * 1024;
+const MAX_CONTROL_RECORD_SIZE = 4 * 1024;
+
+// Share key format
+const KEY_VERSION = 0x02;
+const LEGACY_KEY_VERSION = 0x01; // raw 32-byte topic used as the secret
+
 // HKDF parameters for key derivation
 const HKDF_SALT = 'hyperstream-v1';
 const HKDF_INFO = 'aes-256-gcm';
+const SHARE_KEY_SALT = 'ezshare-share-key-v2';
+const TOPIC_INFO = 'discovery-topic';
+const SECRET_INFO = 'encryption-secret';
+const CODE_TOPIC_SALT = 'ezshare-short-code-v1';
+
+// Short code format: <nameplate>-<word>-<word>
+const CODE_WORDS = 2;
+const MAX_NAMEPLATE = 999;
+const SHORT_CODE_PATTERN = /^(\d{1,3})((?:-[a-z]+)+)$/;
 
 /**
- * Derive AES-256 key from topic using HKDF-SHA256
+ * Keys derived from a share key
  *
- * Never use the topic directly as a key - always derive through HKDF
+ * topic is public (announced on the DHT); encryptionSecret must stay private.
+ */
+export interface ShareKey {
+  kind: 'key';
+  version: number;
+  topic: Buffer;
+  encryptionSecret: Buffer;
+}
+
+/**
+ * A parsed short code
+ *
+ * There is no encryption secret yet: it comes out of the PAKE exchange.
+ */
+export interface ShortCode {
+  kind: 'code';
+  topic: Buffer;
+  code: string;
+}
+
+/**
+ * Per-session input from the ephemeral X25519 handshake (see handshake.ts)
+ */
+export interface SessionContext {
+  sharedSecret: Buffer; // X25519 output, forgotten after the session
+  transcript: Buffer; // hello hash || sender public key || receiver public key
+  direction: 'sender-to-receiver' | 'receiver-to-sender';
+  purpose: 'data' | 'control'; // Encrypted stream vs. control messages
+}
+
+/**
+ * Derive AES-256 key from the encryption secret using HKDF-SHA256
+ *
+ * Never use the secret directly as a key - always derive through HKDF
  * for proper cryptographic key derivation with domain separation.
+ *
+ * With a session context the ephemeral DH output is mixed in, so a leaked
+ * share key alone can't decrypt recorded traffic, and each direction and
+ * purpose of each session gets its own key.
  */
-export function deriveKey(topic: Buffer): Buffer {
-  if (topic.length !== KEY_SIZE) {
-    throw new Error(`Topic must be ${KEY_SIZE} bytes, got ${topic.length}`);
+export function deriveKey(encryptionSecret: Buffer, session?: SessionContext): Buffer {
+  if (encryptionSecret.length !== KEY_SIZE) {
+    throw new Error(
+      `Encryption secret must be ${KEY_SIZE} bytes, got ${encryptionSecret.length}`
+    );
+  }
+  if (!session) {
+    return Buffer.from(
+      hkdfSync('sha256', encryptionSecret, HKDF_SALT, HKDF_INFO, KEY_SIZE)
+    );
   }
+
+  const ikm = Buffer.concat([encryptionSecret, session.sharedSecret]);
+  const info = Buffer.concat([
+    Buffer.from(`${HKDF_INFO}/${session.purpose}/${session.direction}/`),
+    session.transcript,
+  ]);
+  return Buffer.from(hkdfSync('sha256', ikm, HKDF_SALT, info, KEY_SIZE));
+}
+
+/**
+ * Split a share secret into the public discovery topic and the private
+ * encryption secret using HKDF-SHA256 with distinct info labels
+ */
+export function splitShareSecret(secret: Buffer): ShareKey {
+  if (secret.length !== KEY_SIZE) {
+    throw new Error(`Share secret must be ${KEY_SIZE} bytes, got ${secret.length}`);
+  }
+  const derive = (info: string) =>
+    Buffer.from(hkdfSync('sha256', secret, SHARE_KEY_SALT, info, KEY_SIZE));
+
+  return {
+    kind: 'key',
+    version: KEY_VERSION,
+    topic: derive(TOPIC_INFO),
+    encryptionSecret: derive(SECRET_INFO),
+  };
+}
+
+/**
+ * Generate a random share key
+ *
+ * @returns Derived topic/secret plus the display-friendly base64url string
+ */
+export function generateTopicKey(): ShareKey & { displayKey: string } {
+  const secret = randomBytes(KEY_SIZE);
+  const displayKey = Buffer.concat([Buffer.from([KEY_VERSION]), secret])
+    .toString('base64url');
+  return { ...splitShareSecret(secret), displayKey };
+}
+
+/**
+ * Derive the discovery topic for a short code from its nameplate only
+ *
+ * The words never touch the DHT, so observers can't guess them offline.
+ */
+function shortCodeTopic(nameplate: number): Buffer {
   return Buffer.from(
-    hkdfSync('sha256', topic, HKDF_SALT, HKDF_INFO, KEY_SIZE)
+    hkdfSync('sha256', String(nameplate), CODE_TOPIC_SALT, TOPIC_INFO, KEY_SIZE)
   );
 }
 
 /**
- * Generate a random topic key for sharing
+ * Generate a human-friendly short code like "7-orbit-lantern"
  *
- * @returns Object with raw topic buffer and display-friendly base64url string
+ * Security comes from the PAKE: the code only has to survive online guessing,
+ * and each wrong guess aborts the transfer.
  */
-export function generateTopicKey(): { topic: Buffer; displayKey: string } {
-  const topic = randomBytes(KEY_SIZE);
-  const displayKey = topic.toString('base64url');
-  return { topic, displayKey };
+export function generateShortCode(): ShortCode & { displayKey: string } {
+  const nameplate = randomInt(1, MAX_NAMEPLATE + 1);
+  const words = Array.from({ length: CODE_WORDS }, () =>
+    WORDLIST[randomInt(WORDLIST.length)]
+  );
+  const code = [nameplate, ...words].join('-');
+  return { kind: 'code', topic: shortCodeTopic(nameplate), code, displayKey: code };
+}
+
+/**
+ * Parse a short code, tolerating case and spaces instead of dashes
+ *
+ * @returns null if the input doesn't look like a short code at all
+ * @throws Error if it looks like a short code but contains unknown words
+ */
+function parseShortCode(input: string): ShortCode | null {
+  const normalized = input.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  const match = SHORT_CODE_PATTERN.exec(normalized);
+  if (!match) {
+    return null;
+  }
+
+  const nameplate = Number(match[1]);
+  const words = match[2].slice(1).split('-');
+  if (nameplate < 1 || nameplate > MAX_NAMEPLATE || words.length !== CODE_WORDS) {
+    throw new Error(
+      `Invalid short code: expected <number>-<word>-<word>, got "${input.trim()}"`
+    );
+  }
+
+  const unknown = words.filter((word) => !WORDLIST.includes(word));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid short code: unknown word(s) ${unknown.join(', ')}`);
+  }
+
+  return { kind: 'code', topic: shortCodeTopic(nameplate), code: normalized };
 }
 
 /**
- * Parse a display key back to a topic buffer
+ * Parse a display key or short code back to its discovery topic
  *
- * @param displayKey - base64url encoded topic key
- * @throws Error if key is invalid length
+ * Full keys also yield the encryption secret; short codes need a PAKE
+ * exchange with the peer first.
+ *
+ * @param displayKey - base64url encoded share key, or a short code
+ * @throws Error if the key is malformed or from an incompatible version
  */
-export function parseTopicKey(displayKey: string): Buffer {
-  const topic = Buffer.from(displayKey, 'base64url');
-  if (topic.length !== KEY_SIZE) {
+export function parseTopicKey(displayKey: string): ShareKey | ShortCode {
+  const shortCode = parseShortCode(displayKey);
+  if (shortCode) {
+    return shortCode;
+  }
+
+  const raw = Buffer.from(displayKey.trim(), 'base64url');
+
+  if (raw.length === KEY_SIZE) {
+    // Pre-v2 keys had no version byte and announced the secret itself
     throw new Error(
-      `Invalid key: expected ${KEY_SIZE} bytes, got ${topic.length}`
+      `Unsupported key version ${LEGACY_KEY_VERSION}: this key was created by an older ezshare. ` +
+      'Ask the sender to upgrade and share a new key.'
     );
   }
-  return topic;
+  if (raw.length !== KEY_SIZE + 1) {
+    throw new Error(
+      `Invalid key: expected ${KEY_SIZE + 1} bytes, got ${raw.length}`
+    );
+  }
+  if (raw[0] !== KEY_VERSION) {
+    throw new Error(
+      `Unsupported key version ${raw[0]}: expected ${KEY_VERSION}. ` +
+      'Sender and receiver may be running different ezshare versions.'
+    );
+  }
+  return splitShareSecret(raw.subarray(1));
 }
 
 /**
- * Construct nonce from prefix and counter
+ * Per-chunk flags; all of them are authenticated
  */
-function makeNonce(prefix: Buffer, counter: bigint): Buffer {
+interface ChunkFlags {
+  final: boolean;
+  metadata: boolean;
+  control?: boolean;
+}
+
+/**
+ * Options for createEncryptStream
+ */
+export interface EncryptStreamOptions {
+  metadata?: Buffer; // Sent encrypted before any data
+}
+
+/**
+ * An encrypting stream that can also send control records
+ */
+export interface EncryptStream extends Transform {
+  /**
+   * Send a control record right after the data encrypted so far
+   *
+   * Ignored once the final chunk has gone out.
+   *
+   * @throws Error if the record is larger than MAX_CONTROL_RECORD_SIZE
+   */
+  sendControl(record: Buffer): void;
+}
+
+/**
+ * Options for createDecryptStream
+ */
+export interface DecryptStreamOptions {
+  onMetadata?: (metadata: Buffer) => void; // Called before any data is pushed
+  onControl?: (record: Buffer) => void; // Control records; throwing fails the stream
+}
+
+/**
+ * Associated data for a chunk: stream header plus record type
+ */
+function chunkAad(flags: ChunkFlags): Buffer {
+  return Buffer.concat([
+    STREAM_HEADER,
+    Buffer.from([flags.metadata ? RECORD_METADATA : flags.control ? RECORD_CONTROL : RECORD_DATA]),
+  ]);
+}
+
+/**
+ * Construct nonce from prefix, counter and final-chunk flag
+ */
+function makeNonce(prefix: Buffer, counter: bigint, final: boolean): Buffer {
+  if (counter > MAX_COUNTER) {
+    throw new Error('Encrypted stream too long: chunk counter exhausted');
+  }
   const nonce = Buffer.alloc(NONCE_SIZE);
   prefix.copy(nonce, 0, 0, NONCE_PREFIX_SIZE);
-  nonce.writeBigUInt64BE(counter, NONCE_PREFIX_SIZE);
+  const counterBytes = Buffer.alloc(8);
+  counterBytes.writeBigUInt64BE(counter);
+  counterBytes.copy(nonce, NONCE_PREFIX_SIZE, 8 - COUNTER_SIZE);
+  nonce[NONCE_SIZE - 1] = final ? FLAG_FINAL : FLAG_MORE;
   return nonce;
 }
 
@@ -100,10 +361,12 @@ function encryptChunk(
   key: Buffer,
   noncePrefix: Buffer,
   counter: bigint,
-  plaintext: Buffer
+  plaintext: Buffer,
+  flags: ChunkFlags
 ): Buffer {
-  const nonce = makeNonce(noncePrefix, counter);
+  const nonce = makeNonce(noncePrefix, counter, flags.final);
   const cipher = createCipheriv(ALGORITHM, key, nonce);
+  cipher.setAAD(chunkAad(flags));
 
   const ciphertext = Buffer.concat([
     cipher.update(plaintext),
@@ -111,9 +374,14 @@ function encryptChunk(
   ]);
   const tag = cipher.getAuthTag();
 
-  // Output format: [length][ciphertext][tag]
+  // Output format: [flag|length][ciphertext][tag]
   const output = Buffer.alloc(LENGTH_SIZE + ciphertext.length + TAG_SIZE);
-  output.writeUInt32BE(plaintext.length, 0);
+  const word =
+    (flags.final ? FINAL_BIT : 0) +
+    (flags.metadata ? METADATA_BIT : 0) +
+    (flags.control ? CONTROL_BIT : 0) +
+    plaintext.length;
+  output.writeUInt32BE(word, 0);
   ciphertext.copy(output, LENGTH_SIZE);
   tag.copy(output, LENGTH_SIZE + ciphertext.length);
 
@@ -123,17 +391,20 @@ function encryptChunk(
 /**
  * Decrypt a single chunk with AES-256-GCM
  *
- * @throws Error if authentication fails (wrong key or corrupted data)
+ * @throws Error if authentication fails (wrong key, corrupted data, or
+ *   flags that don't match what the sender wrote)
  */
 function decryptChunk(
   key: Buffer,
   noncePrefix: Buffer,
   counter: bigint,
   ciphertext: Buffer,
-  tag: Buffer
+  tag: Buffer,
+  flags: ChunkFlags
 ): Buffer {
-  const nonce = makeNonce(noncePrefix, counter);
+  const nonce = makeNonce(noncePrefix, counter, flags.final);
   const decipher = createDecipheriv(ALGORITHM, key, nonce);
+  decipher.setAAD(chunkAad(flags));
   decipher.setAuthTag(tag);
 
   return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
@@ -144,30 +415,54 @@ function decryptChunk(
  *
  * Buffers input data and encrypts in CHUNK_SIZE chunks.
  * Outputs:
- *   1. Nonce prefix (4 bytes) - sent first
- *   2. Encrypted chunks
- *   3. End marker (4 zero bytes) - sent last
+ *   1. Stream header + nonce prefix - sent first
+ *   2. Encrypted metadata record, if options.metadata is given
+ *   3. Encrypted chunks, and control records wherever sendControl() is called
+ *   4. Final chunk (possibly empty) with the final flag set - sent last
  *
- * @param key - 32-byte AES key (use deriveKey to get this from topic)
+ * @param key - 32-byte AES key (from the session handshake or deriveKey)
+ * @param options - Optional metadata record
+ * @throws Error if the metadata is larger than MAX_METADATA_SIZE
  */
-export function createEncryptStream(key: Buffer): Transform {
+export function createEncryptStream(
+  key: Buffer,
+  options: EncryptStreamOptions = {}
+): EncryptStream {
   const noncePrefix = randomBytes(NONCE_PREFIX_SIZE);
   let counter = 0n;
   let buffer = Buffer.alloc(0);
   let headerSent = false;
+  let finished = false;
 
-  return new Transform({
+  if (options.metadata && options.metadata.length > MAX_METADATA_SIZE) {
+    throw new Error(
+      `Transfer metadata too large: ${options.metadata.length} bytes (max ${MAX_METADATA_SIZE})`
+    );
+  }
+
+  const sendHeader = (stream: Transform) => {
+    if (!headerSent) {
+      stream.push(Buffer.concat([STREAM_HEADER, noncePrefix]));
+      if (options.metadata) {
+        stream.push(encryptChunk(key, noncePrefix, counter, options.metadata, {
+          final: false,
+          metadata: true,
+        }));
+        counter++;
+      }
+      headerSent = true;
+    }
+  };
+
+  const stream = new Transform({
     transform(
       chunk: Buffer,
       _encoding: BufferEncoding,
       callback: TransformCallback
     ) {
       try {
-        // Send nonce prefix header on first data
-        if (!headerSent) {
-          this.push(noncePrefix);
-          headerSent = true;
-        }
+        // Send stream header on first data
+        sendHeader(this);
 
         buffer = Buffer.concat([buffer, chunk]);
 
@@ -176,7 +471,10 @@ export function createEncryptStream(key: Buffer): Transform {
           const plaintext = buffer.subarray(0, CHUNK_SIZE);
           buffer = buffer.subarray(CHUNK_SIZE);
 
-          const encrypted = encryptChunk(key, noncePrefix, counter, plaintext);
+          const encrypted = encryptChunk(key, noncePrefix, counter, plaintext, {
+            final: false,
+            metadata: false,
+          });
           counter++;
           this.push(encrypted);
         }
@@ -189,22 +487,41 @@ export function createEncryptStream(key: Buffer): Transform {
 
     flush(callback: TransformCallback) {
       try {
-        // Encrypt any remaining buffered data
-        if (buffer.length > 0) {
-          const encrypted = encryptChunk(key, noncePrefix, counter, buffer);
-          this.push(encrypted);
-        }
+        sendHeader(this);
 
-        // Send end marker (length = 0)
-        const endMarker = Buffer.alloc(LENGTH_SIZE, 0);
-        this.push(endMarker);
+        // Remaining data (or nothing) goes out as the authenticated final chunk
+        const encrypted = encryptChunk(key, noncePrefix, counter, buffer, {
+          final: true,
+          metadata: false,
+        });
+        finished = true;
+        this.push(encrypted);
 
         callback();
       } catch (err) {
         callback(err instanceof Error ? err : new Error(String(err)));
       }
     },
-  });
+  }) as EncryptStream;
+
+  stream.sendControl = (record: Buffer): void => {
+    if (record.length > MAX_CONTROL_RECORD_SIZE) {
+      throw new Error(
+        `Control record too large: ${record.length} bytes (max ${MAX_CONTROL_RECORD_SIZE})`
+      );
+    }
+    if (finished || stream.destroyed) return;
+
+    sendHeader(stream);
+    stream.push(encryptChunk(key, noncePrefix, counter, record, {
+      final: false,
+      metadata: false,
+      control: true,
+    }));
+    counter++;
+  };
+
+  return stream;
 }
 
 /**
@@ -212,18 +529,25 @@ export function createEncryptStream(key: Buffer): Transform {
  *
  * Parses and decrypts the encrypted stream format.
  * Expects:
- *   1. Nonce prefix (4 bytes)
- *   2. Encrypted chunks
- *   3. End marker (4 zero bytes)
+ *   1. Stream header + nonce prefix
+ *   2. Optional metadata record (handed to options.onMetadata)
+ *   3. Encrypted chunks and control records (handed to options.onControl)
+ *   4. A chunk authenticated as final
  *
- * @param key - 32-byte AES key (use deriveKey to get this from topic)
- * @throws Propagates authentication errors if data is corrupted
+ * @param key - 32-byte AES key (from the session handshake or deriveKey)
+ * @param options - Optional metadata and control record callbacks
+ * @throws Propagates authentication errors if data is corrupted, and fails
+ *   if the input ends before an authenticated final chunk (truncation)
  */
-export function createDecryptStream(key: Buffer): Transform {
+export function createDecryptStream(
+  key: Buffer,
+  options: DecryptStreamOptions = {}
+): Transform {
   let noncePrefix: Buffer | null = null;
   let counter = 0n;
   let buffer = Buffer.alloc(0);
   let chunkLength: number | null = null;
+  let flags: ChunkFlags = { final: false, metadata: false };
   let ended = false;
 
   return new Transform({
@@ -233,35 +557,76 @@ export function createDecryptStream(key: Buffer): Transform {
       callback: TransformCallback
     ) {
       if (ended) {
-        return callback();
+        return callback(new Error('Unexpected data after the final encrypted chunk'));
       }
 
       buffer = Buffer.concat([buffer, chunk]);
 
       try {
-        // Phase 1: Read nonce prefix (once)
+        // Phase 1: Read stream header and nonce prefix (once)
         if (noncePrefix === null) {
-          if (buffer.length < NONCE_PREFIX_SIZE) {
+          if (buffer.length < STREAM_HEADER.length + NONCE_PREFIX_SIZE) {
             return callback(); // Need more data
           }
+          if (!buffer.subarray(0, STREAM_MAGIC.length).equals(STREAM_MAGIC)) {
+            throw new Error(
+              'Unrecognized encrypted stream: peer may be running an older ezshare (v1 stream format)'
+            );
+          }
+          const version = buffer[STREAM_MAGIC.length];
+          if (version !== STREAM_VERSION) {
+            throw new Error(
+              `Unsupported encrypted stream version ${version}: expected ${STREAM_VERSION}`
+            );
+          }
+          buffer = buffer.subarray(STREAM_HEADER.length);
           noncePrefix = Buffer.from(buffer.subarray(0, NONCE_PREFIX_SIZE));
           buffer = buffer.subarray(NONCE_PREFIX_SIZE);
         }
 
         // Phase 2: Process chunks
         while (!ended) {
-          // Read chunk length if not yet known
+          // Read chunk length and final flag if not yet known
           if (chunkLength === null) {
             if (buffer.length < LENGTH_SIZE) {
               return callback(); // Need more data
             }
-            chunkLength = buffer.readUInt32BE(0);
+            const word = buffer.readUInt32BE(0);
+            flags = {
+              final: (word & FINAL_BIT) !== 0,
+              metadata: (word & METADATA_BIT) !== 0,
+              control: (word & CONTROL_BIT) !== 0,
+            };
+            chunkLength = word & LENGTH_MASK;
             buffer = buffer.subarray(LENGTH_SIZE);
 
-            // Check for end marker
-            if (chunkLength === 0) {
-              ended = true;
-              return callback();
+            // Reject before buffering, so a hostile peer can't make us wait
+            // for gigabytes
+            if (flags.metadata) {
+              if (counter !== 0n || flags.final) {
+                throw new Error('Metadata record must be the first encrypted chunk');
+              }
+              if (chunkLength > MAX_METADATA_SIZE) {
+                throw new Error(
+                  `Transfer metadata too large: ${chunkLength} bytes (max ${MAX_METADATA_SIZE})`
+                );
+              }
+              if (flags.control) {
+                throw new Error('Encrypted chunk cannot be both metadata and control');
+              }
+            } else if (flags.control) {
+              if (flags.final) {
+                throw new Error('Control record cannot be the final encrypted chunk');
+              }
+              if (chunkLength > MAX_CONTROL_RECORD_SIZE) {
+                throw new Error(
+                  `Control record too large: ${chunkLength} bytes (max ${MAX_CONTROL_RECORD_SIZE})`
+                );
+              }
+            } else if (chunkLength > CHUNK_SIZE) {
+              throw new Error(
+                `Invalid encrypted chunk length ${chunkLength} (max ${CHUNK_SIZE})`
+              );
             }
           }
 
@@ -276,18 +641,32 @@ export function createDecryptStream(key: Buffer): Transform {
           const tag = buffer.subarray(chunkLength, neededBytes);
           buffer = buffer.subarray(neededBytes);
 
-          // Decrypt and output
+          // Decrypt and output; forged flags fail authentication
           const plaintext = decryptChunk(
             key,
             noncePrefix,
             counter,
             ciphertext,
-            tag
+            tag,
+            flags
           );
           counter++;
           chunkLength = null;
 
-          this.push(plaintext);
+          if (flags.metadata) {
+            options.onMetadata?.(plaintext);
+          } else if (flags.control) {
+            options.onControl?.(plaintext);
+          } else if (plaintext.length > 0) {
+            this.push(plaintext);
+          }
+          if (flags.final) {
+            ended = true;
+          }
+        }
+
+        if (buffer.length > 0) {
+          throw new Error('Unexpected data after the final encrypted chunk');
         }
 
         callback();
@@ -296,5 +675,14 @@ export function createDecryptStream(key: Buffer): Transform {
         callback(err instanceof Error ? err : new Error(String(err)));
       }
     },
+
+    flush(callback: TransformCallback) {
+      if (!ended) {
+        return callback(new Error(
+          'Encrypted stream truncated: connection ended before the final chunk'
+        ));
+      }
+      callback();
+    },
   });
 }
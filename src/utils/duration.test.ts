@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseDuration, formatDuration } from './duration.js';
+
+describe('Durations', () => {
+  it('should parse units, combinations and bare seconds', () => {
+    assert.strictEqual(parseDuration('500ms'), 500);
+    assert.strictEqual(parseDuration('45s'), 45000);
+    assert.strictEqual(parseDuration('10m'), 600000);
+    assert.strictEqual(parseDuration('1h30m'), 5400000);
+    assert.strictEqual(parseDuration('90'), 90000);
+  });
+
+  it('should treat "forever" as no limit', () => {
+    assert.strictEqual(parseDuration('forever'), Infinity);
+  });
+
+  it('should reject anything else', () => {
+    assert.throws(() => parseDuration('soon'), /Invalid duration/);
+    assert.throws(() => parseDuration('10 minutes'), /Invalid duration/);
+    assert.throws(() => parseDuration('0s'), /longer than zero/);
+  });
+
+  it('should format durations for messages', () => {
+    assert.strictEqual(formatDuration(30000), '30s');
+    assert.strictEqual(formatDuration(5400000), '1h 30m');
+    assert.strictEqual(formatDuration(250), '250ms');
+    assert.strictEqual(formatDuration(Infinity), 'forever');
+  });
+});
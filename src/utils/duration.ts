@@ -0,0 +1,62 @@
+/**
+ * Human-friendly durations for flags like --wait
+ *
+ *   "45s", "10m", "1h30m", "500ms", a bare number of seconds, or
+ *   "forever" (Infinity)
+ */
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration into milliseconds
+ *
+ * @throws Error if the value isn't a positive duration
+ */
+export function parseDuration(value: string): number {
+  const text = value.trim().toLowerCase();
+  if (text === 'forever' || text === 'inf' || text === 'infinity') {
+    return Infinity;
+  }
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return parsePositive(Number(text) * 1000, value);
+  }
+
+  const parts = [...text.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  if (parts.length === 0 || parts.map((part) => part[0]).join('') !== text) {
+    throw new Error(`Invalid duration "${value}": expected e.g. 30s, 10m, 1h or forever`);
+  }
+  return parsePositive(
+    parts.reduce((sum, [, amount, unit]) => sum + Number(amount) * UNITS[unit], 0),
+    value
+  );
+}
+
+function parsePositive(ms: number, value: string): number {
+  if (!(ms > 0)) {
+    throw new Error(`Invalid duration "${value}": must be longer than zero`);
+  }
+  return Math.round(ms);
+}
+
+/**
+ * Format milliseconds for messages: "30s", "10m", "1h 30m", "forever"
+ */
+export function formatDuration(ms: number): string {
+  if (!Number.isFinite(ms)) return 'forever';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [
+    hours > 0 ? `${hours}h` : '',
+    minutes > 0 ? `${minutes}m` : '',
+    seconds > 0 ? `${seconds}s` : '',
+  ].filter(Boolean).join(' ');
+}
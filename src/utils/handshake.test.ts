@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { pipeline } from 'node:stream/promises';
+import { Readable, Writable } from 'node:stream';
+import { performHandshake, establishSession } from './handshake.js';
+import {
+  generateTopicKey,
+  generateShortCode,
+  deriveKey,
+  createEncryptStream,
+  createDecryptStream,
+} from './crypto.js';
+import { createDuplexPair } from './testing.js';
+
+async function encryptDecrypt(encryptKey: Buffer, decryptKey: Buffer, data: Buffer): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(
+    Readable.from([data]),
+    createEncryptStream(encryptKey),
+    createDecryptStream(decryptKey),
+    new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    })
+  );
+  return Buffer.concat(chunks);
+}
+
+describe('Session handshake', () => {
+  it('should give both sides matching keys for each direction', async () => {
+    const { encryptionSecret } = generateTopicKey();
+    const [senderSide, receiverSide] = createDuplexPair();
+
+    const [sender, receiver] = await Promise.all([
+      performHandshake(senderSide, 'sender', encryptionSecret),
+      performHandshake(receiverSide, 'receiver', encryptionSecret),
+    ]);
+
+    assert.deepStrictEqual(sender.sendKey, receiver.receiveKey);
+    assert.deepStrictEqual(sender.receiveKey, receiver.sendKey);
+    assert.notDeepStrictEqual(sender.sendKey, sender.receiveKey, 'Directions must use different keys');
+  });
+
+  it('should derive new keys for every session with the same share key', async () => {
+    const { encryptionSecret } = generateTopicKey();
+    const sendKeys: Buffer[] = [];
+
+    for (let i = 0; i < 2; i++) {
+      const [senderSide, receiverSide] = createDuplexPair();
+      const [sender] = await Promise.all([
+        performHandshake(senderSide, 'sender', encryptionSecret),
+        performHandshake(receiverSide, 'receiver', encryptionSecret),
+      ]);
+      sendKeys.push(sender.sendKey);
+    }
+
+    assert.notDeepStrictEqual(sendKeys[0], sendKeys[1]);
+  });
+
+  it('should not let a leaked share key decrypt a recorded session', async () => {
+    const { encryptionSecret } = generateTopicKey();
+    const [senderSide, receiverSide] = createDuplexPair();
+
+    const [sender] = await Promise.all([
+      performHandshake(senderSide, 'sender', encryptionSecret),
+      performHandshake(receiverSide, 'receiver', encryptionSecret),
+    ]);
+
+    // Someone who later learns the share key only gets the static key
+    const staticKey = deriveKey(encryptionSecret);
+    await assert.rejects(encryptDecrypt(sender.sendKey, staticKey, Buffer.from('secret')));
+  });
+
+  it('should produce unusable keys when the secrets differ', async () => {
+    const [senderSide, receiverSide] = createDuplexPair();
+
+    const [sender, receiver] = await Promise.all([
+      performHandshake(senderSide, 'sender', generateTopicKey().encryptionSecret),
+      performHandshake(receiverSide, 'receiver', generateTopicKey().encryptionSecret),
+    ]);
+
+    assert.notDeepStrictEqual(sender.sendKey, receiver.receiveKey);
+    await assert.rejects(encryptDecrypt(sender.sendKey, receiver.receiveKey, Buffer.from('data')));
+  });
+
+  it('should give both sides the same fingerprint', async () => {
+    const { encryptionSecret } = generateTopicKey();
+    const [senderSide, receiverSide] = createDuplexPair();
+
+    const [sender, receiver] = await Promise.all([
+      performHandshake(senderSide, 'sender', encryptionSecret),
+      performHandshake(receiverSide, 'receiver', encryptionSecret),
+    ]);
+
+    assert.match(sender.fingerprint, /^[a-z]+( [a-z]+){3}$/);
+    assert.strictEqual(sender.fingerprint, receiver.fingerprint);
+  });
+
+  it('should show different fingerprints to peers with someone in the middle', async () => {
+    // The attacker knows the share key and runs a handshake with each side
+    const { encryptionSecret } = generateTopicKey();
+    const [senderSide, attackerToSender] = createDuplexPair();
+    const [attackerToReceiver, receiverSide] = createDuplexPair();
+
+    const [sender, , , receiver] = await Promise.all([
+      performHandshake(senderSide, 'sender', encryptionSecret),
+      performHandshake(attackerToSender, 'receiver', encryptionSecret),
+      performHandshake(attackerToReceiver, 'sender', encryptionSecret),
+      performHandshake(receiverSide, 'receiver', encryptionSecret),
+    ]);
+
+    assert.notStrictEqual(sender.fingerprint, receiver.fingerprint);
+  });
+
+  it('should reject a low-order public key', async () => {
+    const [senderSide, receiverSide] = createDuplexPair();
+    const handshake = performHandshake(senderSide, 'sender', generateTopicKey().encryptionSecret);
+
+    receiverSide.write(Buffer.alloc(32)); // all-zero point
+    await assert.rejects(handshake, /invalid public key/);
+  });
+
+  it('should carry transfer data over the socket after the handshake', async () => {
+    const { code } = generateShortCode();
+    const key = { kind: 'code' as const, topic: Buffer.alloc(32), code };
+    const [senderSide, receiverSide] = createDuplexPair();
+
+    const [sender, receiver] = await Promise.all([
+      establishSession(senderSide, 'sender', key),
+      establishSession(receiverSide, 'receiver', key),
+    ]);
+
+    const payload = Buffer.from('hello after handshake');
+    const received: Buffer[] = [];
+    await Promise.all([
+      pipeline(Readable.from([payload]), createEncryptStream(sender.sendKey), senderSide),
+      pipeline(
+        receiverSide,
+        createDecryptStream(receiver.receiveKey),
+        new Writable({
+          write(chunk, _encoding, callback) {
+            received.push(chunk);
+            callback();
+          },
+        })
+      ),
+    ]);
+
+    assert.deepStrictEqual(Buffer.concat(received), payload);
+  });
+});
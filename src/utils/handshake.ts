@@ -0,0 +1,178 @@
+/**
+ * Session handshake run right after the protocol hellos (see protocol.ts)
+ *
+ * 1. Short codes only: SPAKE2 turns the code into an encryption secret
+ * 2. Both sides send a fresh ephemeral X25519 public key (32 bytes)
+ * 3. The DH output is mixed with the encryption secret in deriveKey,
+ *    giving separate keys per direction for this session only
+ *
+ * The hello transcript is hashed into the key derivation too, so a
+ * middlebox that rewrites the hellos ends up with mismatched keys.
+ *
+ * Both sides also derive a fingerprint: a few words the users can read to
+ * each other. Someone who learned the share key and sits in the middle
+ * runs two separate handshakes, so each side sees different words.
+ *
+ * The ephemeral private keys never leave memory, so recorded traffic stays
+ * unreadable even if the share key later leaks from a chat log.
+ */
+
+import type { Duplex } from 'node:stream';
+import {
+  createHash,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  type KeyObject,
+} from 'node:crypto';
+import {
+  deriveKey,
+  type SessionContext,
+  type ShareKey,
+  type ShortCode,
+} from './crypto.js';
+import { runPake, type PakeRole } from './pake.js';
+import { readExact } from './wire.js';
+import { WORDLIST } from './wordlist.js';
+
+// Constants
+const PUBLIC_KEY_SIZE = 32;
+const FINGERPRINT_WORDS = 4; // 32 bits: one guess in ~4 billion for an attacker
+const FINGERPRINT_SALT = 'ezshare-fingerprint-v1';
+
+// DER prefix for a raw X25519 public key wrapped as SubjectPublicKeyInfo
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+export type HandshakeRole = PakeRole;
+
+/**
+ * Keys for one session; never reused across connections
+ */
+export interface SessionKeys {
+  sendKey: Buffer;
+  receiveKey: Buffer;
+  controlSendKey: Buffer;
+  controlReceiveKey: Buffer;
+  fingerprint: string; // Short authentication string, same on both sides
+}
+
+/**
+ * Export the raw 32-byte X25519 public key
+ */
+function rawPublicKey(publicKey: KeyObject): Buffer {
+  const der = publicKey.export({ format: 'der', type: 'spki' });
+  return der.subarray(der.length - PUBLIC_KEY_SIZE);
+}
+
+/**
+ * Import a raw 32-byte X25519 public key
+ */
+function importPublicKey(raw: Buffer): KeyObject {
+  return createPublicKey({
+    key: Buffer.concat([X25519_SPKI_PREFIX, raw]),
+    format: 'der',
+    type: 'spki',
+  });
+}
+
+/**
+ * Turn the session secrets into words for the users to compare
+ */
+function deriveFingerprint(encryptionSecret: Buffer, sharedSecret: Buffer, transcript: Buffer): string {
+  const ikm = Buffer.concat([encryptionSecret, sharedSecret]);
+  const bytes = Buffer.from(hkdfSync('sha256', ikm, FINGERPRINT_SALT, transcript, FINGERPRINT_WORDS));
+  return [...bytes].map((byte) => WORDLIST[byte]).join(' ');
+}
+
+/**
+ * Exchange ephemeral X25519 keys and derive per-direction session keys
+ *
+ * @param socket - Connected socket, before the transfer pipeline starts
+ * @param role - Which side of the transfer we are
+ * @param encryptionSecret - Secret from the share key or the PAKE
+ * @param context - Earlier handshake bytes to bind into the keys (hellos)
+ * @throws Error if the peer disconnects or sends an invalid public key
+ */
+export async function performHandshake(
+  socket: Duplex,
+  role: HandshakeRole,
+  encryptionSecret: Buffer,
+  context: Buffer = Buffer.alloc(0)
+): Promise<SessionKeys> {
+  const { publicKey, privateKey } = generateKeyPairSync('x25519');
+  const ourPublic = rawPublicKey(publicKey);
+  socket.write(ourPublic);
+
+  const peerPublic = await readExact(socket, PUBLIC_KEY_SIZE);
+
+  let sharedSecret: Buffer;
+  try {
+    sharedSecret = diffieHellman({
+      privateKey,
+      publicKey: importPublicKey(peerPublic),
+    });
+  } catch {
+    socket.destroy();
+    throw new Error('Handshake failed: peer sent an invalid public key');
+  }
+
+  // A low-order peer key forces an all-zero output; refuse it
+  if (sharedSecret.every((byte) => byte === 0)) {
+    socket.destroy();
+    throw new Error('Handshake failed: peer sent an invalid public key');
+  }
+
+  const transcript = Buffer.concat([
+    createHash('sha256').update(context).digest(),
+    role === 'sender' ? ourPublic : peerPublic,
+    role === 'sender' ? peerPublic : ourPublic,
+  ]);
+
+  const derive = (
+    direction: SessionContext['direction'],
+    purpose: SessionContext['purpose']
+  ) => deriveKey(encryptionSecret, { sharedSecret, transcript, direction, purpose });
+
+  const senderToReceiver = derive('sender-to-receiver', 'data');
+  const receiverToSender = derive('receiver-to-sender', 'data');
+  const controlSenderToReceiver = derive('sender-to-receiver', 'control');
+  const controlReceiverToSender = derive('receiver-to-sender', 'control');
+  const fingerprint = deriveFingerprint(encryptionSecret, sharedSecret, transcript);
+  sharedSecret.fill(0);
+
+  return role === 'sender'
+    ? {
+      sendKey: senderToReceiver,
+      receiveKey: receiverToSender,
+      controlSendKey: controlSenderToReceiver,
+      controlReceiveKey: controlReceiverToSender,
+      fingerprint,
+    }
+    : {
+      sendKey: receiverToSender,
+      receiveKey: senderToReceiver,
+      controlSendKey: controlReceiverToSender,
+      controlReceiveKey: controlSenderToReceiver,
+      fingerprint,
+    };
+}
+
+/**
+ * Run every handshake step needed for a share key or short code
+ *
+ * @param context - Earlier handshake bytes to bind into the keys (hellos)
+ * @returns Session keys ready for the encrypt/decrypt streams
+ */
+export async function establishSession(
+  socket: Duplex,
+  role: HandshakeRole,
+  key: ShareKey | ShortCode,
+  context?: Buffer
+): Promise<SessionKeys> {
+  const encryptionSecret = key.kind === 'code'
+    ? await runPake(socket, role, key.code)
+    : key.encryptionSecret;
+
+  return performHandshake(socket, role, encryptionSecret, context);
+}
@@ -0,0 +1,142 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdir, writeFile, rm, symlink } from 'node:fs/promises';
+import { join, basename } from 'node:path';
+import { tmpdir } from 'node:os';
+import { parseIgnoreFile, isIgnored, loadIgnoreFilter, IGNORE_FILE } from './ignore.js';
+import { getTransferManifest } from './tar.js';
+
+describe('Ignore', () => {
+  describe('Ignore file rules', () => {
+    it('should skip comments and blank lines', () => {
+      assert.strictEqual(parseIgnoreFile('# build output\n\n  \ndist\n').length, 1);
+    });
+
+    it('should match names without a slash at any depth', () => {
+      const rules = parseIgnoreFile('*.log\nnode_modules/');
+      assert.ok(isIgnored(rules, 'debug.log'));
+      assert.ok(isIgnored(rules, 'src/deep/debug.log'));
+      assert.ok(isIgnored(rules, 'packages/app/node_modules/'));
+      assert.ok(!isIgnored(rules, 'src/index.ts'));
+    });
+
+    it('should only match folders with a trailing slash', () => {
+      const rules = parseIgnoreFile('build/');
+      assert.ok(isIgnored(rules, 'build/'));
+      assert.ok(!isIgnored(rules, 'build'));
+    });
+
+    it('should anchor patterns with a slash to the ignore file folder', () => {
+      const rules = parseIgnoreFile('/dist\ndocs/*.pdf', 'web/');
+      assert.ok(isIgnored(rules, 'web/dist/'));
+      assert.ok(!isIgnored(rules, 'web/src/dist/'));
+      assert.ok(!isIgnored(rules, 'dist/'));
+      assert.ok(isIgnored(rules, 'web/docs/manual.pdf'));
+      assert.ok(!isIgnored(rules, 'web/docs/old/manual.pdf'));
+    });
+
+    it('should let a later negation bring a file back', () => {
+      const rules = parseIgnoreFile('*.log\n!keep.log\n\\!important');
+      assert.ok(isIgnored(rules, 'a.log'));
+      assert.ok(!isIgnored(rules, 'logs/keep.log'));
+      assert.ok(isIgnored(rules, '!important'));
+    });
+  });
+
+  describe('loadIgnoreFilter', () => {
+    let root: string;
+    let name: string;
+
+    beforeEach(async () => {
+      root = join(tmpdir(), `ignore-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      name = basename(root);
+      await mkdir(join(root, 'src', 'generated'), { recursive: true });
+      await mkdir(join(root, 'node_modules', 'pkg'), { recursive: true });
+      await mkdir(join(root, '.git'), { recursive: true });
+      await writeFile(join(root, 'README.md'), 'readme');
+      await writeFile(join(root, 'debug.log'), 'log');
+      await writeFile(join(root, 'src', 'index.ts'), 'code');
+      await writeFile(join(root, 'src', 'generated', 'out.ts'), 'generated');
+      await writeFile(join(root, 'node_modules', 'pkg', 'index.js'), 'dependency');
+      await writeFile(join(root, '.git', 'HEAD'), 'ref');
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    const sentPaths = async (options: Parameters<typeof loadIgnoreFilter>[1]) => {
+      const filter = await loadIgnoreFilter(root, options);
+      const manifest = await getTransferManifest(root, { filter });
+      return manifest.entries.map((entry) => entry.path.slice(name.length + 1)).sort();
+    };
+
+    it('should leave out --exclude globs', async () => {
+      const paths = await sentPaths({ exclude: ['node_modules', '*.log'] });
+      assert.ok(!paths.some((path) => path.startsWith('node_modules') || path.endsWith('.log')));
+      assert.ok(paths.includes('src/index.ts'));
+    });
+
+    it('should read .ezshareignore files in nested folders', async () => {
+      await writeFile(join(root, IGNORE_FILE), 'node_modules/\n');
+      await writeFile(join(root, 'src', IGNORE_FILE), 'generated/\n');
+
+      const paths = await sentPaths({});
+      assert.ok(!paths.includes('node_modules/'));
+      assert.ok(!paths.includes('src/generated/'));
+      assert.ok(paths.includes('src/index.ts'));
+      assert.ok(paths.includes('.git/HEAD'), '.git is only left out with --respect-gitignore');
+    });
+
+    it('should only read .gitignore files with respectGitignore', async () => {
+      await writeFile(join(root, '.gitignore'), '*.log\n');
+
+      assert.ok((await sentPaths({})).includes('debug.log'));
+      const paths = await sentPaths({ respectGitignore: true });
+      assert.ok(!paths.includes('debug.log'));
+      assert.ok(!paths.some((path) => path.startsWith('.git/')));
+      assert.ok(paths.includes('.gitignore'));
+    });
+
+    it('should read ignore files in linked folders when following symlinks', async () => {
+      const linked = `${root}-linked`;
+      await mkdir(linked);
+      await writeFile(join(linked, 'secret.key'), 'key');
+      await writeFile(join(linked, 'notes.txt'), 'notes');
+      await writeFile(join(linked, IGNORE_FILE), '*.key\n');
+      await symlink(linked, join(root, 'shared'));
+
+      try {
+        const filter = await loadIgnoreFilter(root, { symlinks: 'follow' });
+        const manifest = await getTransferManifest(root, { filter, symlinks: 'follow' });
+        const paths = manifest.entries.map((entry) => entry.path.slice(name.length + 1));
+        assert.ok(paths.includes('shared/notes.txt'));
+        assert.ok(!paths.includes('shared/secret.key'));
+      } finally {
+        await rm(linked, { recursive: true, force: true });
+      }
+    });
+
+    it('should keep the manifest totals to what is sent', async () => {
+      const filter = await loadIgnoreFilter(root, { exclude: ['node_modules', '.git', '*.log'] });
+      const manifest = await getTransferManifest(root, { filter });
+      assert.strictEqual(manifest.fileCount, 3);
+      assert.strictEqual(manifest.totalSize, 'readme'.length + 'code'.length + 'generated'.length);
+    });
+
+    it('should give each folder its own ignore files when sending several', async () => {
+      const other = join(root, 'other');
+      await mkdir(other);
+      await writeFile(join(other, 'debug.log'), 'log');
+      await writeFile(join(other, IGNORE_FILE), '*.log\n');
+      const paths = [join(root, 'src'), other, join(root, 'debug.log')];
+
+      const filter = await loadIgnoreFilter(paths);
+      const manifest = await getTransferManifest(paths, { filter });
+      const sent = manifest.entries.map((entry) => entry.path);
+      assert.ok(!sent.includes('other/debug.log'));
+      assert.ok(sent.includes('debug.log'), 'a file named on its own is always sent');
+      assert.ok(sent.includes('src/index.ts'));
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Leaving files out when sending a folder
+ *
+ * Three sources, combined into one filter that both the manifest walk and
+ * the pack walk use, so the totals match what's sent (when several folders
+ * are sent, each has its own):
+ *
+ *   - `--exclude` globs, with the same rules as the receiver's (see
+ *     selection.ts). They always win.
+ *   - `.ezshareignore` files, in the shared folder or any folder in it.
+ *   - With --respect-gitignore, `.gitignore` files too, and `.git` folders.
+ *
+ * Ignore files follow .gitignore syntax, relative to the folder they're in:
+ * '#' starts a comment, a trailing '/' only matches folders, '!' brings
+ * back something an earlier line left out, and a pattern with a '/' (other
+ * than a trailing one) is anchored to the ignore file's folder, while one
+ * without matches a name at any depth. The last matching line wins. Like
+ * git, nothing inside a left-out folder can be brought back.
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { globToRegExp, matchesGlob } from './selection.js';
+import { packRoots, sourceEntry, inodeKey, type SymlinkMode } from './tar.js';
+
+// Constants
+export const IGNORE_FILE = '.ezshareignore';
+const GITIGNORE_FILE = '.gitignore';
+
+export interface IgnoreOptions {
+  exclude?: string[]; // Globs to leave out (--exclude)
+  respectGitignore?: boolean; // Also read .gitignore files (--respect-gitignore)
+  symlinks?: SymlinkMode; // Look inside linked folders too, as the send does with --follow-symlinks
+}
+
+/**
+ * One line of an ignore file
+ */
+export interface IgnoreRule {
+  base: string; // Folder of the ignore file, relative to the shared folder ('' or ending in '/')
+  regex: RegExp;
+  anchored: boolean; // Matched against the path from `base`, not just the name
+  negate: boolean;
+  folderOnly: boolean;
+}
+
+/**
+ * Parse the lines of an ignore file
+ *
+ * @param base - Folder the file is in, relative to the shared folder
+ */
+export function parseIgnoreFile(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trimEnd();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    // "\#" and "\!" stand for a name starting with that character
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const folderOnly = line.endsWith('/');
+    line = line.replace(/\/+$/, '');
+    const anchored = line.includes('/');
+    line = line.replace(/^\/+/, '');
+    if (line === '') continue;
+
+    rules.push({ base, regex: globToRegExp(line), anchored, negate, folderOnly });
+  }
+  return rules;
+}
+
+/**
+ * Does this path (relative to the shared folder) fall to the rules?
+ *
+ * @param path - '/'-separated, folders ending in '/'
+ */
+export function isIgnored(rules: IgnoreRule[], path: string): boolean {
+  const folder = path.endsWith('/');
+  const trimmed = path.replace(/\/+$/, '');
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (!trimmed.startsWith(rule.base) || (rule.folderOnly && !folder)) continue;
+
+    const fromBase = trimmed.slice(rule.base.length);
+    const subject = rule.anchored ? fromBase : fromBase.slice(fromBase.lastIndexOf('/') + 1);
+    if (rule.regex.test(subject)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Read an ignore file, if there is one
+ */
+async function readRules(folder: string, file: string, base: string): Promise<IgnoreRule[]> {
+  try {
+    return parseIgnoreFile(await readFile(join(folder, file), 'utf-8'), base);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+/**
+ * Rules for one shared folder, from every ignore file in the folders that
+ * aren't left out themselves
+ *
+ * @returns Whether a path (relative to the folder) is left out
+ */
+async function folderFilter(sourcePath: string, options: IgnoreOptions): Promise<(path: string) => boolean> {
+  const { exclude = [], respectGitignore = false, symlinks = 'keep' } = options;
+  const rules: IgnoreRule[] = respectGitignore ? parseIgnoreFile('.git/') : [];
+  const leftOut = (path: string) =>
+    exclude.some((pattern) => matchesGlob(path, pattern)) || isIgnored(rules, path);
+
+  // Parent folders first, so a folder's rules come after its parents'.
+  // Goes into the same folders as the send (see getTransferManifest)
+  async function collect(folder: string, base: string, ancestors: Set<string>): Promise<void> {
+    if (respectGitignore) rules.push(...(await readRules(folder, GITIGNORE_FILE, base)));
+    rules.push(...(await readRules(folder, IGNORE_FILE, base)));
+
+    for (const entry of await readdir(folder, { withFileTypes: true })) {
+      const path = `${base}${entry.name}/`;
+      if (!entry.isDirectory() && !(symlinks === 'follow' && entry.isSymbolicLink())) continue;
+
+      const fullPath = join(folder, entry.name);
+      const source = await sourceEntry(fullPath, entry, symlinks, ancestors);
+      if (source?.type === 'directory' && !leftOut(path)) {
+        ancestors.add(inodeKey(source.stats));
+        await collect(fullPath, path, ancestors);
+        ancestors.delete(inodeKey(source.stats));
+      }
+    }
+  }
+  await collect(sourcePath, '', new Set([inodeKey(await stat(sourcePath))]));
+  return leftOut;
+}
+
+/**
+ * Build the send filter for a file or folder, or several
+ *
+ * Each folder sent has its own rules, from its own ignore files. A file
+ * named on its own is always sent: it was asked for.
+ *
+ * @returns A filter on tar paths (as for createPackStream): true to send
+ */
+export async function loadIgnoreFilter(
+  source: string | string[],
+  options: IgnoreOptions = {}
+): Promise<(tarPath: string) => boolean> {
+  const roots = typeof source === 'string' ? [{ path: source, name: '' }] : packRoots(source);
+
+  // Shared folders by the top-level name their tar paths start with
+  // (any name, for a single path)
+  const folders = new Map<string, (path: string) => boolean>();
+  for (const root of roots) {
+    if ((await stat(root.path)).isDirectory()) {
+      folders.set(roots.length > 1 ? root.name : '', await folderFilter(root.path, options));
+    }
+  }
+  if (folders.size === 0) return () => true;
+
+  return (tarPath) => {
+    const slash = tarPath.indexOf('/');
+    if (slash === -1) return true;
+    const leftOut = folders.get(roots.length > 1 ? tarPath.slice(0, slash) : '');
+    const path = tarPath.slice(slash + 1);
+    return !leftOut || path === '' || !leftOut(path);
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { createWatchdog, startHeartbeat } from './keepalive.js';
+
+describe('Keepalive', () => {
+  describe('Watchdog', () => {
+    it('should fire once nothing moves for the timeout', async () => {
+      let stalls = 0;
+      const watchdog = createWatchdog(50, () => stalls++);
+
+      await sleep(120);
+      assert.strictEqual(stalls, 1, 'fires once, not on every timeout');
+      watchdog.stop();
+    });
+
+    it('should stay quiet while something keeps moving', async () => {
+      let stalls = 0;
+      const watchdog = createWatchdog(60, () => stalls++);
+
+      for (let i = 0; i < 6; i++) {
+        await sleep(20);
+        watchdog.touch();
+      }
+      watchdog.stop();
+      await sleep(100);
+      assert.strictEqual(stalls, 0);
+    });
+
+    it('should never fire with no timeout', async () => {
+      let stalls = 0;
+      createWatchdog(Infinity, () => stalls++);
+
+      await sleep(20);
+      assert.strictEqual(stalls, 0);
+    });
+  });
+
+  describe('Heartbeat', () => {
+    it('should send until stopped, ignoring send errors', async () => {
+      let beats = 0;
+      const stop = startHeartbeat(() => {
+        beats++;
+        throw new Error('socket closed');
+      }, 20);
+
+      await sleep(110);
+      stop();
+      const sent = beats;
+      await sleep(60);
+      assert.ok(sent >= 3, `expected several heartbeats, got ${sent}`);
+      assert.strictEqual(beats, sent, 'no heartbeats after stop');
+    });
+  });
+});
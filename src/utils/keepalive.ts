@@ -0,0 +1,72 @@
+/**
+ * Keepalive and stall detection
+ *
+ * A peer whose laptop goes to sleep doesn't close the connection: its
+ * socket just goes quiet, and a pipeline waiting on it would wait forever.
+ * Both sides send a heartbeat every few seconds for as long as the session
+ * runs, and a watchdog fails the transfer once nothing has moved (no data,
+ * no heartbeat) for the stall timeout (--stall-timeout).
+ *
+ * Heartbeats go over the control channel, which runs beside the data on a
+ * channel of its own (see mux.ts), along with a cancel or abort. With a
+ * receiver that has no mux, the control channel is only free in the
+ * receiver's direction once data flows: the sender's heartbeats, cancel and
+ * abort then go inside the encrypted data stream as control records (see
+ * crypto.ts).
+ */
+
+// Constants
+export const HEARTBEAT_INTERVAL = 5000;
+export const DEFAULT_STALL_TIMEOUT = 30000; // Three missed heartbeats and then some
+
+export interface Watchdog {
+  touch(): void; // Something moved: start the countdown again
+  stop(): void;
+}
+
+/**
+ * Call `onStall` once if `touch()` isn't called for `timeout` ms
+ *
+ * Does not keep the process alive. Infinity never fires.
+ */
+export function createWatchdog(timeout: number, onStall: () => void): Watchdog {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const arm = () => {
+    if (timer) clearTimeout(timer);
+    if (stopped || !Number.isFinite(timeout)) return;
+    timer = setTimeout(() => {
+      stopped = true;
+      onStall();
+    }, timeout);
+    timer.unref();
+  };
+  arm();
+
+  return {
+    touch: arm,
+    stop(): void {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Call `send` every `interval` ms until the returned function is called
+ *
+ * Errors from `send` (the socket is already gone) are ignored: the
+ * watchdog on the other side is what notices.
+ */
+export function startHeartbeat(send: () => void, interval = HEARTBEAT_INTERVAL): () => void {
+  const timer = setInterval(() => {
+    try {
+      send();
+    } catch {
+      // Socket closed under us
+    }
+  }, interval);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { randomBytes } from 'node:crypto';
+import { createLanTransport, lanTag, encodeLanMessage, decodeLanMessage, type LanOptions } from './lan.js';
+import { raceTransports } from './transport.js';
+import { readExact } from './wire.js';
+
+// Loopback only, on a random port so parallel runs don't hear each other
+const loopback = (): LanOptions => ({
+  interface: '127.0.0.1',
+  port: 40000 + Math.floor(Math.random() * 20000),
+});
+
+describe('LAN discovery', () => {
+  it('should round-trip discovery messages', () => {
+    const tag = lanTag(randomBytes(32));
+    const decoded = decodeLanMessage(encodeLanMessage({ kind: 1, tag, port: 9000 }));
+    assert.deepStrictEqual(decoded, { kind: 1, tag, port: 9000 });
+  });
+
+  it('should ignore datagrams that are not ours', () => {
+    assert.strictEqual(decodeLanMessage(Buffer.from('hello')), null);
+    const message = encodeLanMessage({ kind: 1, tag: randomBytes(32), port: 9000 });
+    message.write('XXXXXX', 0);
+    assert.strictEqual(decodeLanMessage(message), null);
+  });
+
+  it('should never put the topic itself on the wire', () => {
+    const topic = randomBytes(32);
+    const message = encodeLanMessage({ kind: 1, tag: lanTag(topic), port: 9000 });
+    assert.strictEqual(message.indexOf(topic), -1);
+  });
+
+  it('should connect a receiver to a sender on loopback', async () => {
+    const topic = randomBytes(32);
+    const options = loopback();
+    const sender = await createLanTransport(topic, 'sender', options);
+    const receiver = await createLanTransport(topic, 'receiver', options);
+
+    const [a, b] = await Promise.all([sender.waitForPeer(), receiver.waitForPeer()]);
+    b.write(Buffer.from('ping'));
+    assert.strictEqual((await readExact(a, 4)).toString(), 'ping');
+
+    await receiver.close();
+    await sender.close();
+  });
+
+  it('should not connect to a sender sharing a different topic', async () => {
+    const options = loopback();
+    const topic = randomBytes(32);
+    const other = await createLanTransport(randomBytes(32), 'sender', options);
+    const sender = await createLanTransport(topic, 'sender', options);
+    const receiver = await createLanTransport(topic, 'receiver', options);
+
+    let strayPeer = false;
+    other.onPeer(() => {
+      strayPeer = true;
+    });
+    await Promise.all([sender.waitForPeer(), receiver.waitForPeer()]);
+    assert.strictEqual(strayPeer, false);
+
+    await receiver.close();
+    await sender.close();
+    await other.close();
+  });
+
+  describe('Racing transports', () => {
+    it('should let a receiver connect by whichever path finds the sender', async () => {
+      const topic = randomBytes(32);
+      const lanA = loopback();
+      const lanB = loopback();
+
+      // Sender only reachable via B; the receiver tries both
+      const sender = await createLanTransport(topic, 'sender', lanB);
+      const receiver = await raceTransports('A + B', 'receiver', [
+        createLanTransport(topic, 'receiver', lanA),
+        createLanTransport(topic, 'receiver', lanB),
+      ]);
+
+      const [a, b] = await Promise.all([sender.waitForPeer(), receiver.waitForPeer()]);
+      b.write(Buffer.from('ping'));
+      assert.strictEqual((await readExact(a, 4)).toString(), 'ping');
+
+      await receiver.close();
+      await sender.close();
+    });
+
+    it('should give the sender the connection the receiver speaks on', async () => {
+      const topic = randomBytes(32);
+      const lanA = loopback();
+      const lanB = loopback();
+
+      const sender = await raceTransports('A + B', 'sender', [
+        createLanTransport(topic, 'sender', lanA),
+        createLanTransport(topic, 'sender', lanB),
+      ]);
+      const viaA = await createLanTransport(topic, 'receiver', lanA);
+      const viaB = await createLanTransport(topic, 'receiver', lanB);
+
+      // Connected both ways, but only B is used
+      const [, socketB] = await Promise.all([viaA.waitForPeer(), viaB.waitForPeer()]);
+      socketB.write(Buffer.from('B'));
+
+      const chosen = await sender.waitForPeer();
+      assert.strictEqual((await readExact(chosen, 1)).toString(), 'B');
+
+      await viaA.close();
+      await viaB.close();
+      await sender.close();
+    });
+
+    it('should fail if no transport opens', async () => {
+      await assert.rejects(
+        raceTransports('none', 'receiver', [
+          Promise.reject(new Error('first failure')),
+          Promise.reject(new Error('second failure')),
+        ]),
+        /first failure/
+      );
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * LAN discovery over UDP multicast
+ *
+ * The sender listens on an ephemeral TCP port and announces it to the local
+ * network once a second, tagged with a hash of the share topic. A receiver
+ * asks once when it starts (so it needn't wait for the next announcement)
+ * and connects straight to the first sender whose tag matches: no DHT, no
+ * relay, no internet.
+ *
+ * Announcements are unauthenticated, so anyone on the LAN can answer one;
+ * as with plain TCP, the session handshake that follows is what proves the
+ * other side holds the share key.
+ */
+
+import { createSocket, type Socket as UdpSocket } from 'node:dgram';
+import { createHash } from 'node:crypto';
+import type { Duplex } from 'node:stream';
+import type { Transport, TransportRole } from './transport.js';
+import { createTcpTransport } from './tcp.js';
+import { createPeerQueue } from './peerQueue.js';
+import { formatDuration } from './duration.js';
+
+// Constants
+const MULTICAST_GROUP = '239.255.42.99'; // Organization-local scope
+const DISCOVERY_PORT = 47821;
+const ANNOUNCE_INTERVAL = 1000; // 1 second
+const CONNECTION_TIMEOUT = 30000; // 30 seconds
+const MAGIC = Buffer.from('EZLAN1');
+const TAG_SIZE = 32;
+const MESSAGE_SIZE = MAGIC.length + 1 + TAG_SIZE + 2;
+
+const ANNOUNCE = 1;
+const QUERY = 2;
+
+export interface LanOptions {
+  group?: string; // Multicast group (default 239.255.42.99)
+  port?: number; // UDP discovery port (default 47821)
+  interface?: string; // Local IPv4 address of the interface to use (default: let the OS pick)
+}
+
+interface LanMessage {
+  kind: typeof ANNOUNCE | typeof QUERY;
+  tag: Buffer;
+  port: number; // TCP port of the sender (0 in queries)
+}
+
+/**
+ * Tag that identifies a share on the LAN
+ *
+ * Derived from the topic rather than being the topic, so what goes out on
+ * the LAN can't be used to look the share up on the DHT.
+ */
+export function lanTag(topic: Buffer): Buffer {
+  return createHash('sha256').update('ezshare-lan/').update(topic).digest();
+}
+
+/**
+ * Encode a discovery datagram
+ */
+export function encodeLanMessage(message: LanMessage): Buffer {
+  const buffer = Buffer.alloc(MESSAGE_SIZE);
+  MAGIC.copy(buffer, 0);
+  buffer.writeUInt8(message.kind, MAGIC.length);
+  message.tag.copy(buffer, MAGIC.length + 1);
+  buffer.writeUInt16BE(message.port, MAGIC.length + 1 + TAG_SIZE);
+  return buffer;
+}
+
+/**
+ * Parse a discovery datagram
+ *
+ * @returns The message, or null for anything that isn't one of ours
+ */
+export function decodeLanMessage(buffer: Buffer): LanMessage | null {
+  if (buffer.length !== MESSAGE_SIZE || !buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+    return null;
+  }
+  const kind = buffer.readUInt8(MAGIC.length);
+  if (kind !== ANNOUNCE && kind !== QUERY) {
+    return null;
+  }
+  return {
+    kind,
+    tag: Buffer.from(buffer.subarray(MAGIC.length + 1, MAGIC.length + 1 + TAG_SIZE)),
+    port: buffer.readUInt16BE(MAGIC.length + 1 + TAG_SIZE),
+  };
+}
+
+/**
+ * Join the discovery group
+ *
+ * Several ezshare processes on one machine share the port (SO_REUSEADDR),
+ * and multicast loopback stays on so they can find each other.
+ */
+async function openDiscoverySocket(options: LanOptions): Promise<UdpSocket> {
+  const socket = createSocket({ type: 'udp4', reuseAddr: true });
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(options.port ?? DISCOVERY_PORT, () => {
+      socket.removeListener('error', reject);
+      resolve();
+    });
+  });
+
+  try {
+    socket.addMembership(options.group ?? MULTICAST_GROUP, options.interface);
+    if (options.interface) {
+      socket.setMulticastInterface(options.interface);
+    }
+    socket.setMulticastTTL(1); // Never leave the local network
+    socket.setMulticastLoopback(true);
+  } catch (err) {
+    socket.close();
+    throw new Error(`LAN discovery unavailable: ${(err as Error).message}`);
+  }
+
+  // A lost datagram is retried by the next announcement
+  socket.on('error', () => undefined);
+  return socket;
+}
+
+/**
+ * Sender: accept TCP connections and announce the port
+ */
+async function lanSender(topic: Buffer, options: LanOptions): Promise<Transport> {
+  const tag = lanTag(topic);
+  const listener = await createTcpTransport({ listen: { port: 0 } });
+  const socket = await openDiscoverySocket(options);
+  const announcement = encodeLanMessage({ kind: ANNOUNCE, tag, port: listener.address!.port });
+
+  const announce = () => {
+    socket.send(announcement, options.port ?? DISCOVERY_PORT, options.group ?? MULTICAST_GROUP, () => undefined);
+  };
+
+  // Answer a receiver that just started right away instead of on the next tick
+  socket.on('message', (datagram) => {
+    const message = decodeLanMessage(datagram);
+    if (message?.kind === QUERY && message.tag.equals(tag)) {
+      announce();
+    }
+  });
+
+  announce();
+  const timer = setInterval(announce, ANNOUNCE_INTERVAL);
+
+  return {
+    description: 'LAN',
+    waitForPeer: (timeout) => listener.waitForPeer(timeout),
+    onPeer: (handler) => listener.onPeer(handler),
+    async close(): Promise<void> {
+      clearInterval(timer);
+      socket.close();
+      await listener.close();
+    },
+  };
+}
+
+/**
+ * Receiver: ask for the share and connect to the first sender that announces it
+ *
+ * Only dials while someone is waiting for a peer, so a reconnect (the next
+ * waitForPeer()) finds the sender again without piling up connections.
+ */
+async function lanReceiver(topic: Buffer, options: LanOptions): Promise<Transport> {
+  const tag = lanTag(topic);
+  const socket = await openDiscoverySocket(options);
+  const connectors: Transport[] = [];
+  const peers = createPeerQueue<Duplex>();
+  let dialing = false;
+
+  socket.on('message', async (datagram: Buffer, from: { address: string }) => {
+    const message = decodeLanMessage(datagram);
+    if (dialing || !peers.wanted() || message?.kind !== ANNOUNCE || !message.tag.equals(tag)) {
+      return;
+    }
+
+    dialing = true;
+    const connector = await createTcpTransport({ connect: { host: from.address, port: message.port } });
+    connectors.push(connector);
+    try {
+      peers.push(await connector.waitForPeer());
+    } catch {
+      // Stale announcement: wait for the next one
+    } finally {
+      dialing = false;
+    }
+  });
+
+  const query = () => {
+    socket.send(
+      encodeLanMessage({ kind: QUERY, tag, port: 0 }),
+      options.port ?? DISCOVERY_PORT,
+      options.group ?? MULTICAST_GROUP,
+      () => undefined
+    );
+  };
+
+  return {
+    description: 'LAN',
+
+    waitForPeer(timeout = CONNECTION_TIMEOUT): Promise<Duplex> {
+      const next = peers.next(timeout, () => new Error(
+        `Connection timeout after ${formatDuration(timeout)}. ` +
+        'No sender for this share key found on the local network.'
+      ));
+      query();
+      return next;
+    },
+
+    onPeer(): () => void {
+      throw new Error('A LAN receiver connects to a single sender');
+    },
+
+    async close(): Promise<void> {
+      socket.close();
+      await Promise.all(connectors.map((connector) => connector.close()));
+    },
+  };
+}
+
+/**
+ * Create a LAN transport for one side of a transfer
+ *
+ * @param topic - Public discovery topic (only a hash of it is sent)
+ * @param role - Whether we announce (sender) or look for an announcement (receiver)
+ * @param options - Multicast group, port and interface overrides
+ * @throws Error if the machine has no multicast-capable network
+ */
+export async function createLanTransport(
+  topic: Buffer,
+  role: TransportRole,
+  options: LanOptions = {}
+): Promise<Transport> {
+  return role === 'sender' ? lanSender(topic, options) : lanReceiver(topic, options);
+}
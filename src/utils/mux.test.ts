@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { randomBytes } from 'node:crypto';
+import { once } from 'node:events';
+import { pipeline } from 'node:stream/promises';
+import { Readable } from 'node:stream';
+import { readExact } from './wire.js';
+import { createControlChannel } from './control.js';
+import { createEncryptStream, createDecryptStream } from './crypto.js';
+import {
+  createMux,
+  encodeFrame,
+  CHANNEL_CONTROL,
+  CHANNEL_DATA,
+  MAX_FRAME_SIZE,
+} from './mux.js';
+import { createDuplexPair } from './testing.js';
+
+/**
+ * Everything a stream delivers until it ends
+ */
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+describe('Channel multiplexing', () => {
+  it('should keep channels apart on one socket', async () => {
+    const [a, b] = createDuplexPair();
+    const left = createMux(a);
+    const right = createMux(b);
+
+    left.channel(CHANNEL_DATA).write(Buffer.from('data 1 '));
+    left.channel(CHANNEL_CONTROL).end(Buffer.from('control'));
+    left.channel(CHANNEL_DATA).end(Buffer.from('data 2'));
+
+    const [control, data] = await Promise.all([
+      collect(right.channel(CHANNEL_CONTROL)),
+      collect(right.channel(CHANNEL_DATA)),
+    ]);
+    assert.strictEqual(control.toString(), 'control');
+    assert.strictEqual(data.toString(), 'data 1 data 2');
+    a.destroy();
+  });
+
+  it('should split large writes into frames', async () => {
+    const [a, b] = createDuplexPair();
+    const left = createMux(a);
+    const right = createMux(b);
+
+    const payload = randomBytes(MAX_FRAME_SIZE * 2 + 100);
+    left.channel(CHANNEL_DATA).end(payload);
+    assert.deepStrictEqual(await collect(right.channel(CHANNEL_DATA)), payload);
+    a.destroy();
+  });
+
+  it('should carry control messages while the data is flowing', async () => {
+    const [a, b] = createDuplexPair();
+    const sender = createMux(a);
+    const receiver = createMux(b);
+    const aToB = randomBytes(32);
+    const bToA = randomBytes(32);
+    const key = randomBytes(32);
+    const senderControl = createControlChannel(sender.channel(CHANNEL_CONTROL), aToB, bToA);
+    const receiverControl = createControlChannel(receiver.channel(CHANNEL_CONTROL), bToA, aToB);
+
+    const data = randomBytes(300 * 1024);
+    const chunks = [data.subarray(0, 150 * 1024), data.subarray(150 * 1024)];
+    const received = collect(receiver.channel(CHANNEL_DATA).pipe(createDecryptStream(key)));
+
+    // Control goes out halfway through, and back the other way
+    const sending = pipeline(
+      Readable.from((async function* () {
+        yield chunks[0];
+        senderControl.send({ type: 'accept' });
+        yield chunks[1];
+      })()),
+      createEncryptStream(key),
+      sender.channel(CHANNEL_DATA)
+    );
+    assert.deepStrictEqual(await receiverControl.receive(), { type: 'accept' });
+    receiverControl.send({ type: 'decline' });
+    assert.deepStrictEqual(await senderControl.receive(), { type: 'decline' });
+
+    await sending;
+    assert.deepStrictEqual(await received, data);
+    a.destroy();
+  });
+
+  it('should end open channels and fail writes when the socket closes', async () => {
+    const [a, b] = createDuplexPair();
+    const left = createMux(a);
+    const right = createMux(b);
+
+    const reading = readExact(right.channel(CHANNEL_CONTROL), 10);
+    a.destroy();
+    await assert.rejects(reading, /Connection closed/);
+
+    const data = left.channel(CHANNEL_DATA);
+    data.write(Buffer.from('late'));
+    const [err] = await once(data, 'error');
+    assert.match((err as Error).message, /Connection closed/);
+  });
+
+  it('should reject frames for channels that are not open', async () => {
+    const [a, b] = createDuplexPair();
+    createMux(b);
+    const closed = once(b, 'error');
+
+    a.write(encodeFrame(7, Buffer.from('hi')));
+    const [err] = await closed;
+    assert.match((err as Error).message, /unknown channel 7/);
+  });
+
+  it('should reject an oversized frame before buffering it', async () => {
+    const [a, b] = createDuplexPair();
+    createMux(b);
+    const closed = once(b, 'error');
+
+    const header = Buffer.alloc(6);
+    header[0] = CHANNEL_DATA;
+    header.writeUInt32BE(MAX_FRAME_SIZE + 1, 2);
+    a.write(header);
+    const [err] = await closed;
+    assert.match((err as Error).message, /Frame too large/);
+  });
+
+  it('should reject frames after the end of a channel', async () => {
+    const [a, b] = createDuplexPair();
+    createMux(b);
+    const closed = once(b, 'error');
+
+    a.write(encodeFrame(CHANNEL_CONTROL, Buffer.alloc(0), true));
+    a.write(encodeFrame(CHANNEL_CONTROL, Buffer.from('more')));
+    const [err] = await closed;
+    assert.match((err as Error).message, /after the end of channel 0/);
+  });
+});
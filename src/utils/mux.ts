@@ -0,0 +1,236 @@
+/**
+ * Logical channels over one connection
+ *
+ * Once the session keys are agreed, a connection that negotiated the 'mux'
+ * extension stops being one byte stream: the control messages and the
+ * encrypted data stream each get a channel of their own, so either side
+ * can send a control message (a heartbeat, a cancel) at any point in the
+ * transfer instead of tucking it into the data. Other kinds of traffic
+ * (acks, progress reports, several items in one session) can get further
+ * channels without opening new connections.
+ *
+ * Frame format:
+ *   [1 byte: channel id]
+ *   [1 byte: flags (bit 0: end of channel)]
+ *   [4 bytes: payload length, big-endian]
+ *   [payload]
+ *
+ * The framing adds no encryption: every channel's payload is sealed
+ * already (control frames, the encrypted stream), so tampering with a
+ * frame header can only break the session, not change what's delivered.
+ *
+ * All channels share the socket, so one that nobody reads from eventually
+ * holds back the others; both commands keep reading the control channel
+ * for the whole session.
+ */
+
+import { Duplex } from 'node:stream';
+
+// Constants
+const HEADER_SIZE = 6; // channel + flags + length
+const FLAG_END = 0x01;
+const CHANNEL_BUFFER = 1024 * 1024; // Readable high water mark per channel
+export const MAX_FRAME_SIZE = 256 * 1024;
+
+// Channel ids
+export const CHANNEL_CONTROL = 0;
+export const CHANNEL_DATA = 1;
+
+export interface Mux {
+  /**
+   * The stream for one channel
+   *
+   * @throws Error if the channel wasn't opened with createMux
+   */
+  channel(id: number): Duplex;
+}
+
+/**
+ * Encode one frame
+ *
+ * @throws Error if the payload is larger than MAX_FRAME_SIZE
+ */
+export function encodeFrame(channel: number, payload: Buffer, end = false): Buffer {
+  if (payload.length > MAX_FRAME_SIZE) {
+    throw new Error(`Frame too large: ${payload.length} bytes (max ${MAX_FRAME_SIZE})`);
+  }
+
+  const header = Buffer.alloc(HEADER_SIZE);
+  header[0] = channel;
+  header[1] = end ? FLAG_END : 0;
+  header.writeUInt32BE(payload.length, 2);
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Split a socket into channels
+ *
+ * Takes over reading from the socket: nothing else should read from it
+ * afterwards. Ending a channel tells the peer (its side of the channel
+ * ends too) but leaves the socket open. When the socket ends or closes,
+ * every channel still open ends, and writes fail.
+ *
+ * A frame for a channel that isn't open, an oversized frame or one after
+ * the end of its channel destroys the socket.
+ *
+ * @param socket - Socket after the session handshake
+ * @param ids - Channels to open; both peers must open the same ones
+ */
+export function createMux(
+  socket: Duplex,
+  ids: number[] = [CHANNEL_CONTROL, CHANNEL_DATA]
+): Mux {
+  const channels = new Map<number, Duplex>();
+  const ended = new Set<number>(); // Channels the peer (or the socket) ended
+  const blocked = new Set<number>(); // Channels whose reader is behind
+  let closed = false;
+
+  const send = (frames: Buffer[], callback: (err?: Error | null) => void) => {
+    if (closed || socket.destroyed) {
+      callback(new Error('Connection closed'));
+      return;
+    }
+
+    let flushed = true;
+    for (const frame of frames) {
+      flushed = socket.write(frame);
+    }
+    if (flushed) {
+      callback();
+      return;
+    }
+
+    // Wait for the socket to catch up before taking more
+    const done = (err?: Error) => {
+      socket.removeListener('drain', onDrain);
+      socket.removeListener('close', onClose);
+      callback(err);
+    };
+    const onDrain = () => done();
+    const onClose = () => done(new Error('Connection closed'));
+    socket.once('drain', onDrain);
+    socket.once('close', onClose);
+  };
+
+  const unblock = (id: number) => {
+    if (blocked.delete(id) && blocked.size === 0) {
+      socket.resume();
+    }
+  };
+
+  for (const id of ids) {
+    const channel = new Duplex({
+      readableHighWaterMark: CHANNEL_BUFFER,
+      read() {
+        unblock(id);
+      },
+      write(chunk: Buffer, _encoding, callback) {
+        const frames: Buffer[] = [];
+        for (let offset = 0; offset < chunk.length; offset += MAX_FRAME_SIZE) {
+          frames.push(encodeFrame(id, chunk.subarray(offset, offset + MAX_FRAME_SIZE)));
+        }
+        send(frames, callback);
+      },
+      final(callback) {
+        send([encodeFrame(id, Buffer.alloc(0), true)], callback);
+      },
+      destroy(err, callback) {
+        unblock(id);
+        callback(err);
+      },
+    });
+
+    // A write racing the socket closing (a heartbeat, say) fails, but
+    // whoever uses the channel sees the socket close anyway: don't let a
+    // channel nobody is watching right now crash the process
+    channel.on('error', () => {});
+    channels.set(id, channel);
+  }
+
+  const fail = (message: string) => {
+    socket.removeListener('data', onData);
+    socket.destroy(new Error(message));
+  };
+
+  // Collect bytes until a whole frame is there, so a frame split over
+  // many small packets is only copied once
+  let pending: Buffer[] = [];
+  let pendingLength = 0;
+  let needed = HEADER_SIZE;
+
+  const onData = (chunk: Buffer) => {
+    pending.push(chunk);
+    pendingLength += chunk.length;
+    if (pendingLength < needed) return;
+
+    let buffer = pending.length === 1 ? pending[0] : Buffer.concat(pending);
+    needed = HEADER_SIZE;
+    while (buffer.length >= HEADER_SIZE) {
+      const id = buffer[0];
+      const flags = buffer[1];
+      const length = buffer.readUInt32BE(2);
+
+      // Check the header before buffering the payload
+      const channel = channels.get(id);
+      if (!channel) {
+        fail(`Peer sent a frame for unknown channel ${id}`);
+        return;
+      }
+      if (length > MAX_FRAME_SIZE) {
+        fail(`Frame too large: ${length} bytes (max ${MAX_FRAME_SIZE})`);
+        return;
+      }
+      if (ended.has(id)) {
+        fail(`Peer sent a frame after the end of channel ${id}`);
+        return;
+      }
+      if (buffer.length < HEADER_SIZE + length) {
+        needed = HEADER_SIZE + length;
+        break;
+      }
+
+      const payload = buffer.subarray(HEADER_SIZE, HEADER_SIZE + length);
+      buffer = buffer.subarray(HEADER_SIZE + length);
+
+      // A channel we destroyed ourselves (its pipeline failed) drops what
+      // still arrives instead of holding up the others
+      if (length > 0 && !channel.destroyed && !channel.push(payload)) {
+        blocked.add(id);
+        socket.pause();
+      }
+      if (flags & FLAG_END) {
+        ended.add(id);
+        if (!channel.destroyed) channel.push(null);
+      }
+    }
+
+    pending = buffer.length > 0 ? [buffer] : [];
+    pendingLength = buffer.length;
+  };
+
+  const endAll = () => {
+    for (const [id, channel] of channels) {
+      if (ended.has(id)) continue;
+      ended.add(id);
+      if (!channel.destroyed) channel.push(null);
+    }
+  };
+
+  socket.on('data', onData);
+  socket.once('end', endAll);
+  socket.once('close', () => {
+    closed = true;
+    endAll();
+  });
+  socket.resume();
+
+  return {
+    channel(id: number): Duplex {
+      const channel = channels.get(id);
+      if (!channel) {
+        throw new Error(`Channel ${id} is not open`);
+      }
+      return channel;
+    },
+  };
+}
@@ -1,14 +1,36 @@
-import { describe, it } from 'node:test';
+import { describe, it, before, after } from 'node:test';
 import assert from 'node:assert';
 import type { Socket } from 'node:net';
-import { createSenderSwarm, createReceiverSwarm, cleanupSwarm } from './network.js';
+import createTestnet from 'hyperdht/testnet.js';
+import {
+  createSenderSwarm,
+  createReceiverSwarm,
+  cleanupSwarm,
+  getConnectionInfo,
+  formatConnectionInfo,
+  type SwarmOptions,
+} from './network.js';
 import { generateTopicKey } from './crypto.js';
+import { openTransport } from './transport.js';
 
 describe('Network Utility', () => {
+  // In-process DHT on loopback, so these tests don't need the internet
+  let testnet: Awaited<ReturnType<typeof createTestnet>>;
+  let dht: SwarmOptions;
+
+  before(async () => {
+    testnet = await createTestnet(3);
+    dht = { bootstrap: testnet.bootstrap };
+  });
+
+  after(async () => {
+    await testnet.destroy();
+  });
+
   describe('Swarm creation', () => {
     it('should create sender swarm successfully', async () => {
       const { topic } = generateTopicKey();
-      const { swarm, waitForPeer } = await createSenderSwarm(topic);
+      const { swarm, waitForPeer } = await createSenderSwarm(topic, dht);
 
       assert.ok(swarm, 'Swarm should be created');
       assert.strictEqual(typeof waitForPeer, 'function', 'waitForPeer should be a function');
@@ -18,10 +40,10 @@ describe('Network Utility', () => {
 
     it('should create receiver swarm successfully', async () => {
       const { topic } = generateTopicKey();
-      const { swarm, connectionPromise } = await createReceiverSwarm(topic);
+      const { swarm, waitForPeer } = await createReceiverSwarm(topic, dht);
 
       assert.ok(swarm, 'Swarm should be created');
-      assert.ok(connectionPromise instanceof Promise, 'connectionPromise should be a Promise');
+      assert.strictEqual(typeof waitForPeer, 'function', 'waitForPeer should be a function');
 
       await cleanupSwarm(swarm);
     });
@@ -32,10 +54,10 @@ describe('Network Utility', () => {
       const { topic } = generateTopicKey();
 
       // Create sender first
-      const sender = await createSenderSwarm(topic);
+      const sender = await createSenderSwarm(topic, dht);
 
       // Create receiver
-      const receiver = await createReceiverSwarm(topic);
+      const receiver = await createReceiverSwarm(topic, dht);
 
       // Wait for connections with timeout
       const timeout = 10000; // 10 seconds
@@ -47,7 +69,7 @@ describe('Network Utility', () => {
       ]);
 
       const receiverPeerPromise = Promise.race([
-        receiver.connectionPromise,
+        receiver.waitForPeer(),
         new Promise<null>((_, reject) =>
           setTimeout(() => reject(new Error('Receiver connection timeout')), timeout)
         )
@@ -77,13 +99,13 @@ describe('Network Utility', () => {
       const testMessage = 'Hello, P2P!';
 
       // Create sender and receiver
-      const sender = await createSenderSwarm(topic);
-      const receiver = await createReceiverSwarm(topic);
+      const sender = await createSenderSwarm(topic, dht);
+      const receiver = await createReceiverSwarm(topic, dht);
 
       // Wait for connections
       const [senderSocket, receiverSocket] = await Promise.all([
         sender.waitForPeer(),
-        receiver.connectionPromise
+        receiver.waitForPeer()
       ]);
 
       // Set up data receiver
@@ -105,19 +127,42 @@ describe('Network Utility', () => {
       await cleanupSwarm(receiver.swarm);
     });
 
+    it('should report how each side is connected', async () => {
+      const { topic } = generateTopicKey();
+      const sender = await createSenderSwarm(topic, dht);
+      const receiver = await createReceiverSwarm(topic, dht);
+      const [senderSocket, receiverSocket] = await Promise.all([
+        sender.waitForPeer(),
+        receiver.waitForPeer()
+      ]);
+
+      // Everything is on loopback: no hole punch or relay needed
+      for (const socket of [senderSocket, receiverSocket]) {
+        const info = getConnectionInfo(socket);
+        assert.match(info.remoteAddress ?? '', /^127\.0\.0\.1:\d+$/);
+        assert.strictEqual(info.path, 'direct');
+        assert.match(formatConnectionInfo(info), /^127\.0\.0\.1:\d+, direct/);
+      }
+
+      senderSocket.destroy();
+      receiverSocket.destroy();
+      await cleanupSwarm(sender.swarm);
+      await cleanupSwarm(receiver.swarm);
+    });
+
     it('should handle bidirectional communication', async () => {
       const { topic } = generateTopicKey();
       const senderMessage = 'From sender';
       const receiverMessage = 'From receiver';
 
       // Create sender and receiver
-      const sender = await createSenderSwarm(topic);
-      const receiver = await createReceiverSwarm(topic);
+      const sender = await createSenderSwarm(topic, dht);
+      const receiver = await createReceiverSwarm(topic, dht);
 
       // Wait for connections
       const [senderSocket, receiverSocket] = await Promise.all([
         sender.waitForPeer(),
-        receiver.connectionPromise
+        receiver.waitForPeer()
       ]);
 
       // Set up bidirectional communication
@@ -156,7 +201,7 @@ describe('Network Utility', () => {
   describe('Cleanup', () => {
     it('should clean up swarm properly', async () => {
       const { topic } = generateTopicKey();
-      const { swarm } = await createSenderSwarm(topic);
+      const { swarm } = await createSenderSwarm(topic, dht);
 
       await cleanupSwarm(swarm);
 
@@ -169,12 +214,12 @@ describe('Network Utility', () => {
     it('should close connections on cleanup', async () => {
       const { topic } = generateTopicKey();
 
-      const sender = await createSenderSwarm(topic);
-      const receiver = await createReceiverSwarm(topic);
+      const sender = await createSenderSwarm(topic, dht);
+      const receiver = await createReceiverSwarm(topic, dht);
 
       const [senderSocket, receiverSocket] = await Promise.all([
         sender.waitForPeer(),
-        receiver.connectionPromise
+        receiver.waitForPeer()
       ]);
 
       // Cleanup sender swarm
@@ -197,22 +242,22 @@ describe('Network Utility', () => {
       const { topic } = generateTopicKey();
 
       // Create one sender
-      const sender = await createSenderSwarm(topic);
+      const sender = await createSenderSwarm(topic, dht);
 
       // Create two receivers
-      const receiver1 = await createReceiverSwarm(topic);
-      const receiver2 = await createReceiverSwarm(topic);
+      const receiver1 = await createReceiverSwarm(topic, dht);
+      const receiver2 = await createReceiverSwarm(topic, dht);
 
       // Track connections
       const connections: Socket[] = [];
-      sender.swarm.on('connection', (socket: Socket) => {
+      const stop = sender.onPeer((socket: Socket) => {
         connections.push(socket);
       });
 
       // Wait for receivers to connect
       await Promise.all([
-        receiver1.connectionPromise,
-        receiver2.connectionPromise
+        receiver1.waitForPeer(),
+        receiver2.waitForPeer()
       ]);
 
       // Wait a bit for sender to register both connections
@@ -222,10 +267,28 @@ describe('Network Utility', () => {
       assert.ok(connections.length >= 2, `Sender should have at least 2 connections, got ${connections.length}`);
 
       // Cleanup
+      stop();
       connections.forEach(socket => socket.destroy());
       await cleanupSwarm(sender.swarm);
       await cleanupSwarm(receiver1.swarm);
       await cleanupSwarm(receiver2.swarm);
     });
+
+    it('should give one receiver a second connection while the first is open', async () => {
+      const { topic } = generateTopicKey();
+      const sender = await openTransport(topic, 'sender', { kind: 'hyperswarm', ...dht });
+      const receiver = await openTransport(topic, 'receiver', { kind: 'hyperswarm', ...dht });
+
+      // Parallel streams: both connections stay up side by side
+      const [first] = await Promise.all([receiver.waitForPeer(10000), sender.waitForPeer(10000)]);
+      const [second] = await Promise.all([receiver.waitForPeer(10000), sender.waitForPeer(10000)]);
+
+      assert.notStrictEqual(first, second);
+      assert.strictEqual(first.destroyed, false, 'First connection should still be open');
+      assert.strictEqual(second.destroyed, false);
+
+      await receiver.close();
+      await sender.close();
+    });
   });
 });
@@ -1,10 +1,19 @@
 import Hyperswarm from 'hyperswarm';
+import DHT from 'hyperdht';
 import type { Socket } from 'net';
+import type { Duplex } from 'node:stream';
 import { appendFileSync } from 'node:fs';
+import type { BootstrapNode } from './config.js';
+import { createPeerQueue } from './peerQueue.js';
+import { formatDuration } from './duration.js';
 
 const CONNECTION_TIMEOUT = 30000; // 30 seconds
 const LOG_FILE = '/tmp/ezshare_debug.log';
 
+export interface SwarmOptions {
+  bootstrap?: BootstrapNode[]; // DHT bootstrap nodes (default: the public ones)
+}
+
 function debugLog(message: string) {
   const timestamp = new Date().toISOString();
   const logLine = `[${timestamp}] ${message}\n`;
@@ -16,21 +25,150 @@ function debugLog(message: string) {
   console.error(message); // Use stderr to avoid Ink interference
 }
 
+/**
+ * How the data gets to the peer
+ *
+ *   direct      - straight to the peer's address (TCP, same network, open NAT)
+ *   holepunched - UDP through both NATs after a hole punch
+ *   relayed     - through a blind relay node on the DHT
+ */
+export type ConnectionPath = 'direct' | 'holepunched' | 'relayed';
+
+/**
+ * What we know about one connection, for diagnosing slow transfers
+ */
+export interface ConnectionInfo {
+  remoteAddress: string | null; // host:port of the peer (or its relay), as seen from here
+  path: ConnectionPath;
+  rtt: number | null; // Smoothed round-trip time in ms, if the transport measures it
+}
+
+// How each Hyperswarm connection was made, worked out as it comes in
+const connectionPaths = new WeakMap<object, ConnectionPath>();
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * Create a swarm on the public DHT or on the given bootstrap nodes
+ */
+function createSwarm(options: SwarmOptions): Hyperswarm {
+  const { bootstrap } = options;
+  // A DHT that only exists on this machine (local testnet): peers can't
+  // hole-punch to each other unless they bind to loopback too, and
+  // Hyperswarm has no option for the bind address
+  const swarm = bootstrap && bootstrap.length > 0 && bootstrap.every((node) => isLoopback(node.host))
+    ? new Hyperswarm({ dht: new DHT({ bootstrap, host: '127.0.0.1' }) })
+    : new Hyperswarm({ bootstrap });
+
+  // Hyperswarm doesn't say how a connection was made, but its DHT node
+  // counts hole punches and relays: if one went up since the last
+  // connection, that's how this one got through
+  const counts = () => {
+    const { punches, relaying } = swarm.dht.stats;
+    return { punched: punches.consistent + punches.random, relayed: relaying.successes };
+  };
+  let seen = counts();
+
+  swarm.on('connection', (socket: Socket) => {
+    // Connections nobody reads from (duplicates, other receivers on the same
+    // topic) must not crash the process when the other end resets them
+    socket.on('error', () => undefined);
+
+    const now = counts();
+    connectionPaths.set(
+      socket,
+      now.relayed > seen.relayed ? 'relayed' : now.punched > seen.punched ? 'holepunched' : 'direct'
+    );
+    seen = now;
+  });
+
+  return swarm;
+}
+
+function formatAddress(host: string, port: number | undefined): string {
+  const name = host.includes(':') ? `[${host}]` : host;
+  return port ? `${name}:${port}` : name;
+}
+
+/**
+ * Look at a connection from any transport
+ *
+ * Hyperswarm connections report the UDX stream's address and smoothed RTT
+ * (read when called, so it improves as data flows); plain TCP connections
+ * are always direct and have no RTT we can read.
+ */
+export function getConnectionInfo(socket: Duplex): ConnectionInfo {
+  const udx = (socket as { rawStream?: { remoteHost?: string; remotePort?: number; rtt?: number } | null }).rawStream;
+  if (udx) {
+    let rtt: number | null = null;
+    try {
+      rtt = udx.rtt && udx.rtt > 0 ? udx.rtt : null;
+    } catch {
+      // Stream already gone
+    }
+    return {
+      remoteAddress: udx.remoteHost ? formatAddress(udx.remoteHost, udx.remotePort) : null,
+      path: connectionPaths.get(socket) ?? 'direct',
+      rtt,
+    };
+  }
+
+  const tcp = socket as Partial<Socket>;
+  return {
+    remoteAddress: tcp.remoteAddress ? formatAddress(tcp.remoteAddress, tcp.remotePort) : null,
+    path: 'direct',
+    rtt: null,
+  };
+}
+
+/**
+ * One line for the UI and the debug log: "203.0.113.5:49737, holepunched, RTT 84 ms"
+ */
+export function formatConnectionInfo(info: ConnectionInfo): string {
+  return [
+    info.remoteAddress ?? 'unknown address',
+    info.path,
+    ...(info.rtt !== null ? [`RTT ${Math.round(info.rtt)} ms`] : []),
+  ].join(', ');
+}
+
 /**
  * Create a sender swarm that announces to the DHT and waits for a peer connection
- * @param topic - The topic buffer to join (32 bytes)
- * @returns Swarm instance and a function to wait for the first peer connection
+ * @param topic - The public discovery topic to join (32 bytes, never the encryption secret)
+ * @param options - Bootstrap nodes for a private DHT or a local testnet
+ * @returns Swarm instance, a function to wait for the next peer connection
+ *          (default 30s, Infinity waits forever), and one to keep accepting
+ *          peers (returns an unsubscribe function)
  */
-export async function createSenderSwarm(topic: Buffer): Promise<{
+export async function createSenderSwarm(topic: Buffer, options: SwarmOptions = {}): Promise<{
   swarm: Hyperswarm;
-  waitForPeer: () => Promise<Socket>;
+  waitForPeer: (timeout?: number) => Promise<Socket>;
+  onPeer: (handler: (socket: Socket) => void) => () => void;
 }> {
-  const swarm = new Hyperswarm();
+  const swarm = createSwarm(options);
 
   debugLog('[Sender] Creating sender swarm...');
+  if (options.bootstrap) {
+    debugLog('[Sender] Bootstrap nodes: ' + options.bootstrap.map((node) => `${node.host}:${node.port}`).join(', '));
+  }
   debugLog('[Sender] Topic hash: ' + topic.toString('hex'));
   debugLog('[Sender] Topic base64url: ' + topic.toString('base64url'));
 
+  // Register before joining: on a fast (local) DHT a receiver can connect
+  // before the announce is flushed, or before anyone calls waitForPeer()
+  const peers = createPeerQueue<Socket>();
+  swarm.on('connection', (socket: Socket) => {
+    debugLog('[Sender] Peer connected!');
+    peers.push(socket);
+  });
+
+  // Debug: log peer discovery
+  swarm.on('peer-add', () => {
+    debugLog('[Sender] Peer discovered via DHT');
+  });
+
   // Enable both server and client for better NAT traversal
   const discovery = swarm.join(topic, { server: true, client: true });
 
@@ -39,82 +177,77 @@ export async function createSenderSwarm(topic: Buffer): Promise<{
   await discovery.flushed();
   debugLog('[Sender] DHT announcement complete, waiting for peer...');
 
-  // Create a promise that resolves when a peer connects
-  const waitForPeer = (): Promise<Socket> => {
-    return new Promise((resolve, reject) => {
-      // Set timeout for connection
-      const timeout = setTimeout(() => {
-        reject(new Error(
-          `Connection timeout after ${CONNECTION_TIMEOUT/1000}s. ` +
-          'Peer may not be online or DHT discovery failed. ' +
-          'Ensure both peers are started within a few seconds of each other.'
-        ));
-      }, CONNECTION_TIMEOUT);
-
-      swarm.once('connection', (socket: Socket) => {
-        clearTimeout(timeout);
-        debugLog('[Sender] Peer connected!');
-        resolve(socket);
-      });
-
-      // Debug: log peer discovery
-      swarm.on('peer-add', () => {
-        debugLog('[Sender] Peer discovered via DHT');
-      });
-    });
-  };
+  // Resolves when a peer connects
+  const waitForPeer = (timeout = CONNECTION_TIMEOUT): Promise<Socket> =>
+    peers.next(timeout, () => new Error(
+      `Connection timeout after ${formatDuration(timeout)}. ` +
+      'No receiver connected. ' +
+      'Use --wait to give receivers longer (e.g. --wait 10m or --wait forever).'
+    ));
 
-  return { swarm, waitForPeer };
+  // Serve any number of peers: no timeout, every connection goes to the handler
+  const onPeer = (handler: (socket: Socket) => void): (() => void) => peers.subscribe(handler);
+
+  return { swarm, waitForPeer, onPeer };
 }
 
 /**
  * Create a receiver swarm that connects to a sender
- * @param topic - The topic buffer to join (32 bytes)
- * @returns Swarm instance and a function to wait for the first peer connection
+ * @param topic - The public discovery topic to join (32 bytes, never the encryption secret)
+ * @param options - Bootstrap nodes for a private DHT or a local testnet
+ * @returns Swarm instance and a function to wait for the next peer connection
+ *          (default 30s); every call after the first looks the topic up again
  */
-export async function createReceiverSwarm(topic: Buffer): Promise<{
+export async function createReceiverSwarm(topic: Buffer, options: SwarmOptions = {}): Promise<{
   swarm: Hyperswarm;
-  connectionPromise: Promise<Socket>;
+  waitForPeer: (timeout?: number) => Promise<Socket>;
 }> {
-  const swarm = new Hyperswarm();
+  const swarm = createSwarm(options);
 
   debugLog('[Receiver] Creating receiver swarm...');
+  if (options.bootstrap) {
+    debugLog('[Receiver] Bootstrap nodes: ' + options.bootstrap.map((node) => `${node.host}:${node.port}`).join(', '));
+  }
   debugLog('[Receiver] Topic hash: ' + topic.toString('hex'));
   debugLog('[Receiver] Topic base64url: ' + topic.toString('base64url'));
 
   // CRITICAL: Register connection listener BEFORE joining/flushing
   // Otherwise we miss the connection event in the race condition
-  const connectionPromise = new Promise<Socket>((resolve, reject) => {
-    // Set timeout for connection
-    const timeout = setTimeout(() => {
-      reject(new Error(
-        `Connection timeout after ${CONNECTION_TIMEOUT/1000}s. ` +
-        'Could not find or connect to sender. ' +
-        'Ensure sender is running and you entered the correct share key.'
-      ));
-    }, CONNECTION_TIMEOUT);
-
-    swarm.once('connection', (socket: Socket) => {
-      clearTimeout(timeout);
-      debugLog('[Receiver] Connected to peer!');
-      resolve(socket);
-    });
-
-    // Debug: log peer discovery
-    swarm.on('peer-add', () => {
-      debugLog('[Receiver] Peer discovered via DHT, connecting...');
-    });
+  const peers = createPeerQueue<Socket>();
+  swarm.on('connection', (socket: Socket) => {
+    debugLog('[Receiver] Connected to peer!');
+    peers.push(socket);
+  });
+
+  // Debug: log peer discovery
+  swarm.on('peer-add', () => {
+    debugLog('[Receiver] Peer discovered via DHT, connecting...');
   });
 
   // Enable both server and client for better NAT traversal
-  swarm.join(topic, { server: true, client: true });
+  const discovery = swarm.join(topic, { server: true, client: true });
 
   debugLog('[Receiver] Looking up peers in DHT...');
   // Flush the swarm to start connecting
   await swarm.flush();
   debugLog('[Receiver] DHT lookup complete, waiting for connection...');
 
-  return { swarm, connectionPromise };
+  let lookups = 1;
+  const waitForPeer = (timeout = CONNECTION_TIMEOUT): Promise<Socket> => {
+    // A retry or a reconnect: the first lookup may have come up empty, or
+    // found the sender at an address it no longer has
+    if (lookups++ > 1 && !swarm.destroyed) {
+      debugLog('[Receiver] Looking up peers in DHT again...');
+      discovery.refresh().catch(() => undefined);
+    }
+    return peers.next(timeout, () => new Error(
+      `Connection timeout after ${formatDuration(timeout)}. ` +
+      'Could not find or connect to sender. ' +
+      'Ensure sender is running and you entered the correct share key.'
+    ));
+  };
+
+  return { swarm, waitForPeer };
 }
 
 /**
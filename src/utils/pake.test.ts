@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { runPake, startPake, PakeError } from './pake.js';
+import { generateShortCode } from './crypto.js';
+import { createDuplexPair } from './testing.js';
+
+describe('PAKE', () => {
+  it('should agree on the same secret when codes match', async () => {
+    const { code } = generateShortCode();
+    const [senderSide, receiverSide] = createDuplexPair();
+
+    const [senderSecret, receiverSecret] = await Promise.all([
+      runPake(senderSide, 'sender', code),
+      runPake(receiverSide, 'receiver', code),
+    ]);
+
+    assert.strictEqual(senderSecret.length, 32);
+    assert.deepStrictEqual(senderSecret, receiverSecret);
+  });
+
+  it('should derive a fresh secret for every session', async () => {
+    const { code } = generateShortCode();
+    const secrets: Buffer[] = [];
+
+    for (let i = 0; i < 2; i++) {
+      const [senderSide, receiverSide] = createDuplexPair();
+      const [secret] = await Promise.all([
+        runPake(senderSide, 'sender', code),
+        runPake(receiverSide, 'receiver', code),
+      ]);
+      secrets.push(secret);
+    }
+
+    assert.notDeepStrictEqual(secrets[0], secrets[1]);
+  });
+
+  it('should abort both sides when the codes differ', async () => {
+    const [senderSide, receiverSide] = createDuplexPair();
+
+    const results = await Promise.allSettled([
+      runPake(senderSide, 'sender', '7-orbit-lantern'),
+      runPake(receiverSide, 'receiver', '7-orbit-lattice'),
+    ]);
+
+    for (const result of results) {
+      assert.strictEqual(result.status, 'rejected');
+    }
+    assert.ok(
+      results.some((r) => r.status === 'rejected' && r.reason instanceof PakeError),
+      'At least one side should report a code mismatch'
+    );
+    assert.strictEqual(senderSide.destroyed, true);
+    assert.strictEqual(receiverSide.destroyed, true);
+  });
+
+  it('should not reveal the code in the exchanged messages', () => {
+    // Same code, different sessions: blinded elements must look unrelated
+    const first = startPake('sender', '7-orbit-lantern');
+    const second = startPake('sender', '7-orbit-lantern');
+
+    assert.strictEqual(first.message.length, 32);
+    assert.notDeepStrictEqual(first.message, second.message);
+  });
+
+  it('should reject malformed peer messages', () => {
+    const { finish } = startPake('sender', '7-orbit-lantern');
+    assert.throws(() => finish(Buffer.alloc(32, 0xff)), PakeError);
+  });
+});
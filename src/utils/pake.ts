@@ -0,0 +1,197 @@
+/**
+ * SPAKE2 password-authenticated key exchange for short codes
+ *
+ * Turns a weak, human-friendly code (e.g. "7-orbit-lantern") into a strong
+ * 32-byte session secret. Runs over the raw socket right after connecting,
+ * over the prime-order ristretto255 group.
+ *
+ * Exchange (sender = A, receiver = B, w = hash of the code):
+ *   A -> B: X = x*G + w*M          (32 bytes)
+ *   B -> A: Y = y*G + w*N          (32 bytes)
+ *   both:   K = x*(Y - w*N) = y*(X - w*M)
+ *   both:   HMAC key confirmation  (32 bytes each way)
+ *
+ * An attacker gets exactly one guess per connection: a wrong code fails key
+ * confirmation and the connection is aborted. Nothing sent on the wire lets
+ * them test further guesses offline.
+ *
+ * M and N are derived with hash-to-curve from fixed labels, so nobody knows
+ * their discrete logs.
+ */
+
+import type { Duplex } from 'node:stream';
+import {
+  createHash,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+  timingSafeEqual,
+} from 'node:crypto';
+import { ristretto255, ristretto255_hasher } from '@noble/curves/ed25519.js';
+import { readExact } from './wire.js';
+
+type Point = InstanceType<typeof ristretto255.Point>;
+
+export type PakeRole = 'sender' | 'receiver';
+
+// Constants
+const ELEMENT_SIZE = 32; // Encoded ristretto255 point
+const CONFIRM_SIZE = 32; // HMAC-SHA256
+const SECRET_SIZE = 32;
+
+const DST_M = 'ezshare-spake2-M';
+const DST_N = 'ezshare-spake2-N';
+const DST_PASSWORD = 'ezshare-spake2-password';
+const HKDF_SALT = 'ezshare-spake2-v1';
+
+const ID_SENDER = 'ezshare-sender';
+const ID_RECEIVER = 'ezshare-receiver';
+
+const M = ristretto255_hasher.hashToCurve(Buffer.from('M'), { DST: DST_M }) as Point;
+const N = ristretto255_hasher.hashToCurve(Buffer.from('N'), { DST: DST_N }) as Point;
+
+/**
+ * Thrown when the peer used a different code (or is guessing)
+ */
+export class PakeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PakeError';
+  }
+}
+
+export interface PakeResult {
+  sessionSecret: Buffer;
+  confirmation: Buffer;
+  expectedConfirmation: Buffer;
+}
+
+/**
+ * Hash the code to a scalar
+ */
+function passwordScalar(code: string): bigint {
+  return ristretto255_hasher.hashToScalar(
+    Buffer.from(code.normalize('NFKC')),
+    { DST: DST_PASSWORD }
+  );
+}
+
+/**
+ * Pick a uniformly random non-zero scalar
+ */
+function randomScalar(): bigint {
+  let scalar = 0n;
+  while (scalar === 0n) {
+    scalar = ristretto255_hasher.hashToScalar(randomBytes(64));
+  }
+  return scalar;
+}
+
+/**
+ * Length-prefix and concatenate transcript fields
+ */
+function transcript(parts: Uint8Array[]): Buffer {
+  const out: Buffer[] = [];
+  for (const part of parts) {
+    const length = Buffer.alloc(8);
+    length.writeBigUInt64LE(BigInt(part.length));
+    out.push(length, Buffer.from(part));
+  }
+  return Buffer.concat(out);
+}
+
+/**
+ * First half of SPAKE2: our blinded element
+ */
+export function startPake(role: PakeRole, code: string): {
+  message: Buffer;
+  finish: (peerMessage: Buffer) => PakeResult;
+} {
+  const w = passwordScalar(code);
+  const secretScalar = randomScalar();
+  const ourBlind = role === 'sender' ? M : N;
+  const peerBlind = role === 'sender' ? N : M;
+
+  const ours = ristretto255.Point.BASE.multiply(secretScalar).add(ourBlind.multiply(w));
+  const message = Buffer.from(ours.toBytes());
+
+  const finish = (peerMessage: Buffer): PakeResult => {
+    let peer: Point;
+    try {
+      peer = ristretto255.Point.fromBytes(peerMessage);
+    } catch {
+      throw new PakeError('Peer sent an invalid key exchange message');
+    }
+
+    const shared = peer.subtract(peerBlind.multiply(w)).multiply(secretScalar);
+    if (shared.is0()) {
+      throw new PakeError('Peer sent an invalid key exchange message');
+    }
+
+    const [x, y] = role === 'sender' ? [message, peerMessage] : [peerMessage, message];
+    const tt = transcript([
+      Buffer.from(ID_SENDER),
+      Buffer.from(ID_RECEIVER),
+      x,
+      y,
+      shared.toBytes(),
+      Buffer.from(w.toString(16)),
+    ]);
+    const ikm = createHash('sha256').update(tt).digest();
+    const derive = (info: string) =>
+      Buffer.from(hkdfSync('sha256', ikm, HKDF_SALT, info, SECRET_SIZE));
+
+    const sessionSecret = derive('session-secret');
+    const senderConfirmKey = derive('confirm-sender');
+    const receiverConfirmKey = derive('confirm-receiver');
+
+    const mac = (key: Buffer) => createHmac('sha256', key).update(tt).digest();
+    const senderConfirm = mac(senderConfirmKey);
+    const receiverConfirm = mac(receiverConfirmKey);
+
+    return {
+      sessionSecret,
+      confirmation: role === 'sender' ? senderConfirm : receiverConfirm,
+      expectedConfirmation: role === 'sender' ? receiverConfirm : senderConfirm,
+    };
+  };
+
+  return { message, finish };
+}
+
+/**
+ * Run the full SPAKE2 exchange (with key confirmation) over a socket
+ *
+ * @param socket - Freshly connected socket, before any other traffic
+ * @param role - Which side of the transfer we are
+ * @param code - The short code both users typed
+ * @returns 32-byte session secret to use as the encryption secret
+ * @throws PakeError if the codes don't match; the socket is destroyed
+ */
+export async function runPake(
+  socket: Duplex,
+  role: PakeRole,
+  code: string
+): Promise<Buffer> {
+  const { message, finish } = startPake(role, code);
+  socket.write(message);
+
+  try {
+    const peerMessage = await readExact(socket, ELEMENT_SIZE);
+    const result = finish(peerMessage);
+
+    socket.write(result.confirmation);
+    const peerConfirmation = await readExact(socket, CONFIRM_SIZE);
+
+    if (!timingSafeEqual(peerConfirmation, result.expectedConfirmation)) {
+      throw new PakeError(
+        'Short code mismatch: the peer entered a different code. Connection aborted.'
+      );
+    }
+
+    return result.sessionSecret;
+  } catch (err) {
+    socket.destroy();
+    throw err;
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { pipeline } from 'node:stream/promises';
+import { createPackStream, createExtractStream } from './tar.js';
+import {
+  streamCount,
+  createParallelPlan,
+  parseParallelPlan,
+  createClaims,
+  claimFilter,
+  joinStream,
+  MAX_STREAMS,
+} from './parallel.js';
+import { createDuplexPair } from './testing.js';
+
+describe('Parallel streams', () => {
+  describe('Planning', () => {
+    it('should never use more streams than files', () => {
+      assert.strictEqual(streamCount(4, 10), 4);
+      assert.strictEqual(streamCount(4, 2), 2);
+      assert.strictEqual(streamCount(4, 0), 1);
+      assert.strictEqual(streamCount(100, 100), MAX_STREAMS);
+    });
+
+    it('should accept the plan the sender sends', () => {
+      const plan = createParallelPlan(3);
+      const parsed = parseParallelPlan(3, plan.secret.toString('base64'));
+      assert.strictEqual(parsed.streams, 3);
+      assert.deepStrictEqual(parsed.secret, plan.secret);
+      assert.strictEqual(parseParallelPlan(1, undefined).streams, 1);
+    });
+
+    it('should reject malformed plans', () => {
+      assert.throws(() => parseParallelPlan(0, undefined), /invalid number of streams/);
+      assert.throws(() => parseParallelPlan(MAX_STREAMS + 1, undefined), /invalid number of streams/);
+      assert.throws(() => parseParallelPlan(2.5, undefined), /invalid number of streams/);
+      assert.throws(() => parseParallelPlan(2, undefined), /invalid stream secret/);
+      assert.throws(() => parseParallelPlan(2, 'c2hvcnQ='), /invalid stream secret/);
+    });
+  });
+
+  describe('Splitting a folder', () => {
+    let sourceDir: string;
+    let outputDir: string;
+    const files: Record<string, Buffer> = {};
+
+    beforeEach(async () => {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      sourceDir = join(tmpdir(), `parallel-src-${id}`, 'shared');
+      outputDir = join(tmpdir(), `parallel-out-${id}`);
+      await mkdir(join(sourceDir, 'sub', 'deeper'), { recursive: true });
+      await mkdir(outputDir, { recursive: true });
+
+      for (let i = 0; i < 8; i++) {
+        files[`file${i}.bin`] = randomBytes(20 * 1024 * (i + 1));
+      }
+      files['sub/a.txt'] = Buffer.from('in a subfolder');
+      files['sub/deeper/b.txt'] = Buffer.from('further down');
+      for (const [name, data] of Object.entries(files)) {
+        await writeFile(join(sourceDir, name), data);
+      }
+    });
+
+    afterEach(async () => {
+      await rm(join(sourceDir, '..'), { recursive: true, force: true });
+      await rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should send every file exactly once across the streams', async () => {
+      const claim = createClaims();
+      const packed: string[] = [];
+      const filter = claimFilter(() => true, (tarPath) => {
+        const ours = claim(tarPath);
+        if (ours) packed.push(tarPath);
+        return ours;
+      });
+
+      await Promise.all(Array.from({ length: 3 }, () =>
+        pipeline(createPackStream(sourceDir, { filter }), createExtractStream(outputDir))
+      ));
+
+      assert.strictEqual(packed.length, Object.keys(files).length);
+      assert.strictEqual(new Set(packed).size, packed.length);
+      for (const [name, data] of Object.entries(files)) {
+        const received = await readFile(join(outputDir, 'shared', name));
+        assert.ok(received.equals(data), `${name} should match`);
+      }
+    });
+
+    it('should still honour the transfer filter', async () => {
+      const filter = claimFilter((tarPath) => !tarPath.startsWith('shared/sub/'), createClaims());
+
+      await Promise.all(Array.from({ length: 2 }, () =>
+        pipeline(createPackStream(sourceDir, { filter }), createExtractStream(outputDir))
+      ));
+
+      await assert.rejects(readFile(join(outputDir, 'shared', 'sub', 'a.txt')));
+      const received = await readFile(join(outputDir, 'shared', 'file0.bin'));
+      assert.ok(received.equals(files['file0.bin']));
+    });
+  });
+
+  describe('Joining', () => {
+    it('should give both ends of an extra connection matching keys', async () => {
+      const { secret } = createParallelPlan(2);
+      const [senderSide, receiverSide] = createDuplexPair();
+
+      const [sender, receiver] = await Promise.all([
+        joinStream(senderSide, 'sender', secret),
+        joinStream(receiverSide, 'receiver', secret),
+      ]);
+
+      assert.deepStrictEqual(sender.sendKey, receiver.receiveKey);
+      assert.deepStrictEqual(sender.receiveKey, receiver.sendKey);
+    });
+
+    it('should turn away a connection without the secret', async () => {
+      const [senderSide, receiverSide] = createDuplexPair();
+
+      const joined = joinStream(senderSide, 'sender', createParallelPlan(2).secret);
+      void joinStream(receiverSide, 'receiver', createParallelPlan(2).secret);
+
+      await assert.rejects(joined, /failed authentication/);
+    });
+  });
+});
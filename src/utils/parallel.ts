@@ -0,0 +1,145 @@
+/**
+ * Parallel streams (--streams)
+ *
+ * One connection carrying one tar stream is held back by latency: every
+ * connection only has so much data in flight per round trip. For a folder,
+ * the sender can instead spread the files over several connections, each
+ * with its own tar, compress and encrypt pipeline, and the receiver
+ * extracts them all into the same output directory at once.
+ *
+ * After the receiver accepts, the sender tells it how many streams to open
+ * and hands it a fresh random secret over the (already authenticated)
+ * control channel. Each extra connection runs the protocol hello and a
+ * session handshake keyed with that secret, then the receiver sends a
+ * "join" message. Only the peer that holds the primary session can derive
+ * those keys, so extra connections need no PAKE or fingerprint check of
+ * their own.
+ *
+ * Files aren't split up front: every stream walks the same folder and
+ * packs whichever files no other stream has claimed yet, so a stream stuck
+ * on a big file doesn't leave the others idle. Directory entries go out on
+ * every stream (extracting one twice is harmless). An extra connection
+ * that never comes up just leaves more files for the others.
+ */
+
+import type { Duplex } from 'node:stream';
+import { randomBytes } from 'node:crypto';
+import { exchangeHello, localHello } from './protocol.js';
+import { performHandshake, type HandshakeRole, type SessionKeys } from './handshake.js';
+import { createControlChannel } from './control.js';
+
+// Constants
+export const MAX_STREAMS = 16;
+export const STREAM_TIMEOUT = 15000; // How long to wait for each extra connection
+const SECRET_SIZE = 32;
+
+/**
+ * Extra connections for one transfer, as agreed on the primary connection
+ */
+export interface ParallelPlan {
+  streams: number; // Connections carrying data, counting the primary one
+  secret: Buffer; // Authenticates the extra connections
+}
+
+/**
+ * How many streams to use for a transfer
+ *
+ * Never more than there are files, and only one for a single file.
+ *
+ * @param requested - Streams asked for (--streams)
+ * @param fileCount - Files left to send
+ */
+export function streamCount(requested: number, fileCount: number): number {
+  return Math.max(1, Math.min(requested, fileCount, MAX_STREAMS));
+}
+
+/**
+ * Plan the extra connections for a transfer (sender side)
+ */
+export function createParallelPlan(streams: number): ParallelPlan {
+  return { streams, secret: randomBytes(SECRET_SIZE) };
+}
+
+/**
+ * Check the sender's plan (receiver side)
+ *
+ * @throws Error if the stream count or secret is malformed
+ */
+export function parseParallelPlan(streams: unknown, secret: unknown): ParallelPlan {
+  if (!Number.isInteger(streams) || (streams as number) < 1 || (streams as number) > MAX_STREAMS) {
+    throw new Error('Sender asked for an invalid number of streams');
+  }
+  if (streams === 1) {
+    return { streams: 1, secret: Buffer.alloc(0) };
+  }
+
+  const key = typeof secret === 'string' ? Buffer.from(secret, 'base64') : Buffer.alloc(0);
+  if (key.length !== SECRET_SIZE) {
+    throw new Error('Sender sent an invalid stream secret');
+  }
+  return { streams: streams as number, secret: key };
+}
+
+/**
+ * Share files between the pack streams of one transfer
+ *
+ * @returns A function that claims a tar path for the calling stream: true
+ *          the first time a path is claimed, false after that
+ */
+export function createClaims(): (tarPath: string) => boolean {
+  const claimed = new Set<string>();
+  return (tarPath) => {
+    if (claimed.has(tarPath)) return false;
+    claimed.add(tarPath);
+    return true;
+  };
+}
+
+/**
+ * Pack filter for one of several streams
+ *
+ * Directories only go through the transfer's own filter (every stream
+ * walks them); files also have to be claimed.
+ *
+ * @param filter - Selection and resume filter for the whole transfer
+ * @param claim - Shared between all streams (createClaims)
+ */
+export function claimFilter(
+  filter: (tarPath: string) => boolean,
+  claim: (tarPath: string) => boolean
+): (tarPath: string) => boolean {
+  return (tarPath) => filter(tarPath) && (tarPath.endsWith('/') || claim(tarPath));
+}
+
+/**
+ * Set up an extra connection
+ *
+ * The receiver sends "join" on it; the sender only returns once that
+ * message has authenticated, so a connection from anyone else fails here
+ * before it carries any files.
+ *
+ * @param socket - Freshly connected socket
+ * @param role - Which side of the transfer we are
+ * @param secret - From the plan on the primary connection
+ * @throws Error if the peer doesn't hold the secret or disconnects
+ */
+export async function joinStream(
+  socket: Duplex,
+  role: HandshakeRole,
+  secret: Buffer
+): Promise<SessionKeys> {
+  const protocol = await exchangeHello(socket, role, localHello());
+  const keys = await performHandshake(socket, role, secret, protocol.transcript);
+  const control = createControlChannel(socket, keys.controlSendKey, keys.controlReceiveKey);
+
+  if (role === 'receiver') {
+    control.send({ type: 'join' });
+    return keys;
+  }
+
+  const message = await control.receive();
+  if (message.type !== 'join') {
+    throw new Error(`Unexpected control message on an extra stream: ${message.type}`);
+  }
+  return keys;
+}
@@ -0,0 +1,81 @@
+/**
+ * Hand incoming connections to whoever wants one
+ *
+ * Shared by the transports: a connection goes to the subscribers if there
+ * are any, else to the oldest pending next(), else it waits in the queue,
+ * so one that arrives a moment before anyone asks for it isn't lost.
+ */
+
+import type { Duplex } from 'node:stream';
+
+export interface PeerQueue<T extends Duplex> {
+  push(socket: T): void;
+
+  /**
+   * Wait for the next connection
+   *
+   * @param timeout - Milliseconds to wait (Infinity waits forever)
+   * @param onTimeout - Builds the error to reject with when time runs out
+   */
+  next(timeout: number, onTimeout: () => Error): Promise<T>;
+
+  /**
+   * Hand every connection to `handler`, starting with any queued ones
+   */
+  subscribe(handler: (socket: T) => void): () => void;
+
+  /**
+   * Whether anyone is waiting for a connection right now
+   */
+  wanted(): boolean;
+}
+
+export function createPeerQueue<T extends Duplex>(): PeerQueue<T> {
+  const queued: T[] = [];
+  const waiting: Array<(socket: T) => void> = [];
+  const handlers = new Set<(socket: T) => void>();
+
+  return {
+    push(socket: T): void {
+      if (handlers.size > 0) {
+        for (const handler of handlers) handler(socket);
+      } else if (waiting.length > 0) {
+        waiting.shift()!(socket);
+      } else {
+        queued.push(socket);
+      }
+    },
+
+    next(timeout: number, onTimeout: () => Error): Promise<T> {
+      const ready = queued.shift();
+      if (ready) return Promise.resolve(ready);
+
+      return new Promise((resolve, reject) => {
+        let timer: NodeJS.Timeout | undefined;
+        const onSocket = (socket: T) => {
+          clearTimeout(timer);
+          resolve(socket);
+        };
+        if (Number.isFinite(timeout)) {
+          timer = setTimeout(() => {
+            waiting.splice(waiting.indexOf(onSocket), 1);
+            reject(onTimeout());
+          }, timeout);
+        }
+        waiting.push(onSocket);
+      });
+    },
+
+    subscribe(handler: (socket: T) => void): () => void {
+      for (const socket of queued.splice(0)) handler(socket);
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+
+    wanted(): boolean {
+      return waiting.length > 0 || handlers.size > 0;
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  localHello,
+  encodeHello,
+  decodeHello,
+  negotiate,
+  exchangeHello,
+  ProtocolError,
+  type Hello,
+} from './protocol.js';
+import { performHandshake } from './handshake.js';
+import { generateTopicKey } from './crypto.js';
+import { createDuplexPair } from './testing.js';
+
+function helloWith(overrides: Partial<Hello>): Hello {
+  return { ...localHello(), ...overrides };
+}
+
+describe('Wire protocol', () => {
+  describe('Hello encoding', () => {
+    it('should roundtrip a hello frame', () => {
+      const hello = localHello();
+      const frame = encodeHello(hello);
+
+      assert.strictEqual(frame.subarray(0, 4).toString(), 'EZSH');
+      assert.deepStrictEqual(decodeHello(frame), hello);
+    });
+
+    it('should carry a request to verify fingerprints', () => {
+      const hello = localHello({ verify: true });
+      assert.deepStrictEqual(decodeHello(encodeHello(hello)), hello);
+    });
+
+    it('should reject frames without the magic', () => {
+      // What a pre-protocol sender put on the wire first
+      const legacy = Buffer.from('{"totalSize":1,"fileCount":1}\n');
+      assert.throws(() => decodeHello(legacy), /too old/);
+    });
+
+    it('should reject malformed bodies', () => {
+      const frame = encodeHello(localHello());
+      const broken = Buffer.concat([frame.subarray(0, 7), Buffer.alloc(frame.length - 7, 0x7b)]);
+      assert.throws(() => decodeHello(broken), ProtocolError);
+    });
+  });
+
+  describe('Negotiation', () => {
+    it('should agree on the common version and features', () => {
+      const local = helloWith({
+        version: 3,
+        minVersion: 1,
+        capabilities: { ciphers: ['b', 'a'], compression: ['zstd', 'none'], extensions: ['manifest', 'resume'] },
+      });
+      const remote = helloWith({
+        version: 2,
+        minVersion: 2,
+        capabilities: { ciphers: ['a', 'b'], compression: ['none'], extensions: ['resume'] },
+      });
+
+      const result = negotiate(local, remote);
+
+      assert.strictEqual(result.version, 2);
+      assert.strictEqual(result.cipher, 'b', 'Our preference order wins');
+      assert.deepStrictEqual(result.compression, ['none']);
+      assert.deepStrictEqual(result.extensions, ['resume']);
+    });
+
+    it('should report a peer that is too old', () => {
+      const local = helloWith({ version: 3, minVersion: 2 });
+      const remote = helloWith({ version: 1, minVersion: 1 });
+      assert.throws(() => negotiate(local, remote), /Peer is too old/);
+    });
+
+    it('should report a peer that is too new', () => {
+      const local = helloWith({ version: 1, minVersion: 1 });
+      const remote = helloWith({ version: 4, minVersion: 3 });
+      assert.throws(() => negotiate(local, remote), /Peer is too new/);
+    });
+
+    it('should fail without a common cipher', () => {
+      const remote = helloWith({
+        capabilities: { ciphers: ['chacha20-poly1305'], compression: ['none'], extensions: [] },
+      });
+      assert.throws(() => negotiate(localHello(), remote), /No common cipher/);
+    });
+
+    it('should verify fingerprints if either side asks to', () => {
+      assert.strictEqual(negotiate(localHello(), localHello()).verify, false);
+      assert.strictEqual(negotiate(localHello({ verify: true }), localHello()).verify, true);
+      assert.strictEqual(negotiate(localHello(), localHello({ verify: true })).verify, true);
+    });
+
+    it('should refuse --verify with a peer that cannot verify', () => {
+      const remote = helloWith({
+        capabilities: { ciphers: ['aes-256-gcm-stream-v2'], compression: ['none'], extensions: ['manifest'] },
+      });
+      assert.throws(() => negotiate(localHello({ verify: true }), remote), /cannot verify fingerprints/);
+    });
+  });
+
+  describe('Hello exchange', () => {
+    it('should negotiate over a socket with a shared transcript', async () => {
+      const [senderSide, receiverSide] = createDuplexPair();
+
+      const [sender, receiver] = await Promise.all([
+        exchangeHello(senderSide, 'sender'),
+        exchangeHello(receiverSide, 'receiver'),
+      ]);
+
+      assert.strictEqual(sender.version, receiver.version);
+      assert.strictEqual(sender.cipher, receiver.cipher);
+      assert.deepStrictEqual(sender.transcript, receiver.transcript);
+    });
+
+    it('should fail on both sides when versions are incompatible', async () => {
+      const [senderSide, receiverSide] = createDuplexPair();
+
+      const results = await Promise.allSettled([
+        exchangeHello(senderSide, 'sender', helloWith({ version: 1, minVersion: 1 })),
+        exchangeHello(receiverSide, 'receiver', helloWith({ version: 5, minVersion: 5 })),
+      ]);
+
+      assert.strictEqual(results[0].status, 'rejected');
+      assert.match((results[0] as PromiseRejectedResult).reason.message, /too new/);
+      assert.strictEqual(results[1].status, 'rejected');
+    });
+
+    it('should break the session keys if a hello is tampered with', async () => {
+      const { encryptionSecret } = generateTopicKey();
+      const [senderSide, receiverSide] = createDuplexPair();
+
+      const [sender, receiver] = await Promise.all([
+        exchangeHello(senderSide, 'sender'),
+        exchangeHello(receiverSide, 'receiver'),
+      ]);
+
+      // A downgrade attacker would leave the peers with different transcripts
+      const tampered = Buffer.from(receiver.transcript);
+      tampered[tampered.length - 2] ^= 0x01;
+
+      const [senderKeys, receiverKeys] = await Promise.all([
+        performHandshake(senderSide, 'sender', encryptionSecret, sender.transcript),
+        performHandshake(receiverSide, 'receiver', encryptionSecret, tampered),
+      ]);
+
+      assert.notDeepStrictEqual(senderKeys.sendKey, receiverKeys.receiveKey);
+    });
+  });
+});
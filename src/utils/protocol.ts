@@ -0,0 +1,288 @@
+/**
+ * Versioned wire protocol handshake
+ *
+ * The very first bytes on every connection, in both directions:
+ *
+ *   [4 bytes: magic "EZSH"]
+ *   [1 byte: protocol version]
+ *   [2 bytes: body length, big-endian]
+ *   [body: JSON { minVersion, capabilities, verify? }]
+ *
+ * Each side advertises the protocol versions and features it supports.
+ * Both then pick the highest common version and the intersection of
+ * features, or fail with a clear "peer too old/new" error. Either side can
+ * ask for fingerprint verification (--verify), which then applies to both.
+ * The raw hello bytes are bound into the session key derivation (see
+ * handshake.ts), so tampering with them to force a downgrade breaks the
+ * session.
+ *
+ * After the hellos the connection continues with the session handshake
+ * and then the encrypted stream (split into channels with 'mux', see
+ * mux.ts).
+ */
+
+import type { Duplex } from 'node:stream';
+import { readExact } from './wire.js';
+
+// Constants
+const MAGIC = Buffer.from('EZSH');
+const PREAMBLE_SIZE = MAGIC.length + 1 + 2; // magic + version + body length
+const MAX_BODY_SIZE = 4096;
+const HELLO_TIMEOUT = 15000; // 15 seconds
+
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Features a peer can speak, grouped by kind
+ */
+export interface Capabilities {
+  ciphers: string[]; // Encrypted stream formats, most preferred first
+  compression: string[]; // Compression codecs
+  extensions: string[]; // Optional protocol features (manifest, resume, ...)
+}
+
+export interface Hello {
+  version: number;
+  minVersion: number;
+  capabilities: Capabilities;
+  verify?: boolean; // Both users must confirm the session fingerprint first
+}
+
+/**
+ * What both peers agreed on
+ */
+export interface NegotiatedProtocol {
+  version: number;
+  cipher: string;
+  compression: string[];
+  extensions: string[];
+  verify: boolean; // Confirm the fingerprint before anything else is sent
+  transcript: Buffer; // sender hello || receiver hello, as sent on the wire
+}
+
+export type ProtocolRole = 'sender' | 'receiver';
+
+/**
+ * Thrown when the peers can't agree on a protocol
+ */
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+/**
+ * Our own hello: everything this build supports
+ *
+ * @param options.verify - Ask the peer to confirm the session fingerprint
+ */
+export function localHello(options: { verify?: boolean } = {}): Hello {
+  return {
+    version: PROTOCOL_VERSION,
+    minVersion: MIN_PROTOCOL_VERSION,
+    capabilities: {
+      ciphers: ['aes-256-gcm-stream-v2'],
+      compression: ['zstd', 'none'],
+      extensions: ['manifest', 'resume', 'verify', 'parallel', 'keepalive', 'mux'],
+    },
+    ...(options.verify ? { verify: true } : {}),
+  };
+}
+
+/**
+ * Encode a hello frame
+ */
+export function encodeHello(hello: Hello): Buffer {
+  const body = Buffer.from(JSON.stringify({
+    minVersion: hello.minVersion,
+    capabilities: hello.capabilities,
+    ...(hello.verify ? { verify: true } : {}),
+  }));
+  if (body.length > MAX_BODY_SIZE) {
+    throw new Error(`Hello too large: ${body.length} bytes (max ${MAX_BODY_SIZE})`);
+  }
+
+  const preamble = Buffer.alloc(PREAMBLE_SIZE);
+  MAGIC.copy(preamble, 0);
+  preamble[MAGIC.length] = hello.version;
+  preamble.writeUInt16BE(body.length, MAGIC.length + 1);
+  return Buffer.concat([preamble, body]);
+}
+
+/**
+ * Check the fixed-size start of a hello frame
+ *
+ * @returns Protocol version and body length
+ * @throws ProtocolError if the magic is wrong or the body is too large
+ */
+function parsePreamble(preamble: Buffer): { version: number; bodyLength: number } {
+  if (!preamble.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new ProtocolError(
+      'Peer is not speaking the ezshare protocol: it is probably too old. ' +
+      'Ask them to upgrade ezshare.'
+    );
+  }
+  const version = preamble[MAGIC.length];
+  const bodyLength = preamble.readUInt16BE(MAGIC.length + 1);
+  if (bodyLength > MAX_BODY_SIZE) {
+    throw new ProtocolError(`Peer hello too large: ${bodyLength} bytes (max ${MAX_BODY_SIZE})`);
+  }
+  return { version, bodyLength };
+}
+
+/**
+ * Parse a hello body
+ *
+ * @throws ProtocolError if the body is malformed
+ */
+function parseBody(version: number, body: Buffer): Hello {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.toString('utf-8'));
+  } catch {
+    throw new ProtocolError('Peer sent a malformed hello');
+  }
+
+  const value = parsed as Partial<Hello> | null;
+  const caps = value?.capabilities as Partial<Capabilities> | undefined;
+  const isList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.every((item) => typeof item === 'string');
+
+  if (
+    !value ||
+    typeof value.minVersion !== 'number' ||
+    !caps ||
+    !isList(caps.ciphers) ||
+    !isList(caps.compression) ||
+    !isList(caps.extensions)
+  ) {
+    throw new ProtocolError('Peer sent a malformed hello');
+  }
+
+  return {
+    version,
+    minVersion: value.minVersion,
+    capabilities: {
+      ciphers: caps.ciphers,
+      compression: caps.compression,
+      extensions: caps.extensions,
+    },
+    ...(value.verify === true ? { verify: true } : {}),
+  };
+}
+
+/**
+ * Decode a complete hello frame
+ */
+export function decodeHello(frame: Buffer): Hello {
+  const { version, bodyLength } = parsePreamble(frame.subarray(0, PREAMBLE_SIZE));
+  if (frame.length !== PREAMBLE_SIZE + bodyLength) {
+    throw new ProtocolError('Peer sent a truncated hello');
+  }
+  return parseBody(version, frame.subarray(PREAMBLE_SIZE));
+}
+
+/**
+ * Agree on a protocol version and features
+ *
+ * @param local - Our hello
+ * @param remote - The peer's hello
+ * @throws ProtocolError naming which side needs to upgrade
+ */
+export function negotiate(
+  local: Hello,
+  remote: Hello
+): Omit<NegotiatedProtocol, 'transcript'> {
+  if (remote.version < local.minVersion) {
+    throw new ProtocolError(
+      `Peer is too old: it speaks protocol v${remote.version}, we need at least v${local.minVersion}. ` +
+      'Ask them to upgrade ezshare.'
+    );
+  }
+  if (remote.minVersion > local.version) {
+    throw new ProtocolError(
+      `Peer is too new: it needs protocol v${remote.minVersion}, we only speak up to v${local.version}. ` +
+      'Upgrade ezshare to talk to it.'
+    );
+  }
+
+  const common = (ours: string[], theirs: string[]) =>
+    ours.filter((item) => theirs.includes(item));
+
+  const ciphers = common(local.capabilities.ciphers, remote.capabilities.ciphers);
+  if (ciphers.length === 0) {
+    throw new ProtocolError(
+      `No common cipher: we support ${local.capabilities.ciphers.join(', ')}, ` +
+      `peer supports ${remote.capabilities.ciphers.join(', ') || 'none'}`
+    );
+  }
+
+  const extensions = common(local.capabilities.extensions, remote.capabilities.extensions);
+  const verify = !!(local.verify || remote.verify);
+  if (verify && !extensions.includes('verify')) {
+    throw new ProtocolError(local.verify
+      ? 'Peer cannot verify fingerprints, which --verify needs. Ask them to upgrade ezshare.'
+      : 'Peer requires fingerprint verification, which we do not support. Upgrade ezshare to talk to it.');
+  }
+
+  return {
+    version: Math.min(local.version, remote.version),
+    cipher: ciphers[0],
+    compression: common(local.capabilities.compression, remote.capabilities.compression),
+    extensions,
+    verify,
+  };
+}
+
+/**
+ * Send our hello, read the peer's, and negotiate
+ *
+ * @param socket - Freshly connected socket, before any other traffic
+ * @param role - Which side of the transfer we are (orders the transcript)
+ * @param hello - Our hello (defaults to localHello())
+ * @throws ProtocolError on mismatch or if the peer never sends a hello
+ */
+export async function exchangeHello(
+  socket: Duplex,
+  role: ProtocolRole,
+  hello: Hello = localHello()
+): Promise<NegotiatedProtocol> {
+  const ours = encodeHello(hello);
+  socket.write(ours);
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new ProtocolError(
+        `Peer did not send a protocol hello within ${HELLO_TIMEOUT / 1000}s: ` +
+        'it is probably running an older ezshare. Ask them to upgrade.'
+      ));
+    }, HELLO_TIMEOUT);
+  });
+
+  try {
+    const theirs = await Promise.race([
+      (async () => {
+        const preamble = await readExact(socket, PREAMBLE_SIZE);
+        const { bodyLength } = parsePreamble(preamble);
+        const body = await readExact(socket, bodyLength);
+        return Buffer.concat([preamble, body]);
+      })(),
+      timeout,
+    ]);
+
+    const negotiated = negotiate(hello, decodeHello(theirs));
+    const transcript = role === 'sender'
+      ? Buffer.concat([ours, theirs])
+      : Buffer.concat([theirs, ours]);
+
+    return { ...negotiated, transcript };
+  } catch (err) {
+    socket.destroy();
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
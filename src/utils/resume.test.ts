@@ -0,0 +1,211 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdir, writeFile, readFile, rm, utimes, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createPackStream, createExtractStream, getTransferManifest } from './tar.js';
+import {
+  journalPath,
+  loadJournal,
+  planResume,
+  createJournalRecorder,
+  checkResumeRequest,
+  applyResume,
+} from './resume.js';
+import { createClaims, claimFilter } from './parallel.js';
+
+/**
+ * Pass through the first `limit` bytes, then fail like a dropped connection
+ */
+function cutAfter(limit: number): Transform {
+  let seen = 0;
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      if (seen + chunk.length > limit) {
+        const head = chunk.subarray(0, limit - seen);
+        seen = limit;
+        this.push(head);
+        callback(new Error('Connection lost'));
+        return;
+      }
+      seen += chunk.length;
+      callback(null, chunk);
+    },
+  });
+}
+
+describe('Resume', () => {
+  let sourceDir: string;
+  let outputDir: string;
+  let dirName: string;
+  const files: Record<string, Buffer> = {};
+
+  beforeEach(async () => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    sourceDir = join(tmpdir(), `resume-src-${id}`, 'shared');
+    outputDir = join(tmpdir(), `resume-out-${id}`);
+    dirName = 'shared';
+    await mkdir(join(sourceDir, 'sub'), { recursive: true });
+    await mkdir(outputDir, { recursive: true });
+
+    files['a.bin'] = randomBytes(200 * 1024);
+    files['b.bin'] = randomBytes(300 * 1024);
+    files['sub/c.bin'] = randomBytes(100 * 1024);
+    for (const [name, data] of Object.entries(files)) {
+      await writeFile(join(sourceDir, name), data);
+    }
+  });
+
+  afterEach(async () => {
+    await rm(join(sourceDir, '..'), { recursive: true, force: true });
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Run one interrupted transfer and return the journal file
+   */
+  async function interruptedTransfer(limit: number): Promise<string> {
+    const manifest = await getTransferManifest(sourceDir);
+    const file = journalPath(outputDir, 'test-key');
+    const plan = await planResume(await loadJournal(file), manifest, outputDir);
+    const recorder = createJournalRecorder(file, plan, manifest);
+
+    await assert.rejects(
+      pipeline(
+        createPackStream(sourceDir),
+        cutAfter(limit),
+        createExtractStream(outputDir, { tracker: recorder })
+      ),
+      /Connection lost/
+    );
+    await recorder.flush();
+    return file;
+  }
+
+  it('should resume an interrupted transfer without resending completed data', async () => {
+    // Cut somewhere inside the second file
+    const file = await interruptedTransfer(350 * 1024);
+
+    const manifest = await getTransferManifest(sourceDir);
+    const plan = await planResume(await loadJournal(file), manifest, outputDir);
+    assert.strictEqual(plan.request.completed.length, 1);
+    assert.ok(plan.request.partial, 'expected a partial file');
+    assert.ok(plan.request.partial.offset > 0);
+
+    // Second attempt: sender skips what the receiver has
+    const request = checkResumeRequest(plan.request, manifest);
+    const remaining = applyResume(manifest, request);
+    assert.ok(remaining.totalSize < manifest.totalSize);
+
+    const skipped = new Set(request.completed);
+    const recorder = createJournalRecorder(file, plan, manifest);
+    let sent = 0;
+    await pipeline(
+      createPackStream(sourceDir, {
+        filter: (tarPath) => !skipped.has(tarPath),
+        resume: request.partial,
+      }),
+      new Transform({
+        transform(chunk: Buffer, encoding, callback) {
+          sent += chunk.length;
+          callback(null, chunk);
+        },
+      }),
+      createExtractStream(outputDir, { resume: request.partial, tracker: recorder })
+    );
+    await recorder.discard();
+
+    assert.ok(sent < manifest.totalSize, 'second attempt should send less than everything');
+    for (const [name, data] of Object.entries(files)) {
+      const received = await readFile(join(outputDir, dirName, name));
+      assert.ok(received.equals(data), `${name} should match`);
+    }
+    await assert.rejects(stat(file));
+  });
+
+  it('should resend files modified on disk since the last attempt', async () => {
+    const file = await interruptedTransfer(350 * 1024);
+    const manifest = await getTransferManifest(sourceDir);
+    const before = await planResume(await loadJournal(file), manifest, outputDir);
+    const [completed] = before.request.completed;
+
+    // Corrupt the completed file locally, keeping its size
+    const diskPath = join(outputDir, completed);
+    const data = await readFile(diskPath);
+    data[0] ^= 0xff;
+    await writeFile(diskPath, data);
+
+    const after = await planResume(await loadJournal(file), manifest, outputDir);
+    assert.ok(!after.request.completed.includes(completed));
+  });
+
+  it('should resend files that changed on the sender', async () => {
+    const file = await interruptedTransfer(350 * 1024);
+    await utimes(join(sourceDir, 'a.bin'), new Date(), new Date(Date.now() + 60_000));
+
+    const manifest = await getTransferManifest(sourceDir);
+    const plan = await planResume(await loadJournal(file), manifest, outputDir);
+    assert.ok(!plan.request.completed.includes(`${dirName}/a.bin`));
+  });
+
+  it('should journal progress from several streams at once', async () => {
+    const manifest = await getTransferManifest(sourceDir);
+    const file = journalPath(outputDir, 'test-key');
+    const recorder = createJournalRecorder(file, await planResume(await loadJournal(file), manifest, outputDir), manifest);
+    const filter = claimFilter(() => true, createClaims());
+
+    // One stream drops inside the first file it took, the other gets the rest
+    await assert.rejects(
+      pipeline(createPackStream(sourceDir, { filter }), cutAfter(100 * 1024), createExtractStream(outputDir, { tracker: recorder })),
+      /Connection lost/
+    );
+    await pipeline(createPackStream(sourceDir, { filter }), createExtractStream(outputDir, { tracker: recorder.tracker() }));
+    await recorder.flush();
+
+    const plan = await planResume(await loadJournal(file), manifest, outputDir);
+    assert.strictEqual(plan.request.completed.length, 2);
+    assert.ok(plan.request.partial && plan.request.partial.offset > 0, 'expected the dropped file as partial');
+
+    // Finish it, again over two streams
+    const request = checkResumeRequest(plan.request, manifest);
+    const skipped = new Set(request.completed);
+    const resumed = createJournalRecorder(file, plan, manifest);
+    const rest = claimFilter((tarPath) => !skipped.has(tarPath), createClaims());
+    await Promise.all([resumed, resumed.tracker()].map((tracker) =>
+      pipeline(
+        createPackStream(sourceDir, { filter: rest, resume: request.partial }),
+        createExtractStream(outputDir, { resume: request.partial, tracker })
+      )
+    ));
+    await resumed.discard();
+
+    for (const [name, data] of Object.entries(files)) {
+      const received = await readFile(join(outputDir, dirName, name));
+      assert.ok(received.equals(data), `${name} should match`);
+    }
+  });
+
+  it('should start fresh without a journal', async () => {
+    const manifest = await getTransferManifest(sourceDir);
+    const plan = await planResume(await loadJournal(journalPath(outputDir, 'other')), manifest, outputDir);
+    assert.deepStrictEqual(plan.request, { completed: [], partial: undefined });
+  });
+
+  it('should reject resume requests that do not fit the manifest', async () => {
+    const manifest = await getTransferManifest(sourceDir);
+
+    assert.throws(() => checkResumeRequest({ completed: ['../etc/passwd'] }, manifest), /invalid resume/);
+    assert.throws(() => checkResumeRequest({ completed: 'all' }, manifest), /invalid resume/);
+    assert.throws(
+      () => checkResumeRequest({ completed: [], partial: { path: `${dirName}/a.bin`, offset: 10 ** 9 } }, manifest),
+      /invalid resume/
+    );
+    assert.throws(
+      () => checkResumeRequest({ completed: [], partial: { path: `${dirName}/sub/`, offset: 0 } }, manifest),
+      /invalid resume/
+    );
+  });
+});
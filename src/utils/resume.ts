@@ -0,0 +1,380 @@
+/**
+ * Resume journal for interrupted transfers
+ *
+ * The receiver keeps a small JSON file in the output directory that records
+ * which files arrived complete (with their SHA-256) and how far it got into
+ * the file it was writing. When the same share key connects again, even
+ * after a restart, it re-checks those files on disk and tells the sender
+ * which files to skip and where to pick up the partial one.
+ *
+ * Files are matched by tar path plus the sender's size and mtime, so a
+ * file that changed on the sender's side since is sent again in full.
+ */
+
+import { createHash, type Hash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { readFile, writeFile, rename, rm, stat } from 'node:fs/promises';
+import { join, sep } from 'node:path';
+import type { TransferManifest, ManifestEntry, ExtractTracker } from './tar.js';
+
+// Constants
+const JOURNAL_VERSION = 1;
+const SAVE_INTERVAL = 1000; // Save progress at most once a second
+
+interface JournalFile {
+  size: number;
+  mtime: number;
+  sha256: string;
+}
+
+interface JournalPartial extends JournalFile {
+  path: string;
+  offset: number; // sha256 covers the first `offset` bytes
+}
+
+export interface ResumeJournal {
+  version: number;
+  completed: Record<string, JournalFile>;
+  partial: JournalPartial | null;
+}
+
+/**
+ * What the receiver asks the sender to skip
+ */
+export interface ResumeRequest {
+  completed: string[];
+  partial?: { path: string; offset: number };
+}
+
+/**
+ * A verified resume point, ready to send and to continue the journal from
+ */
+export interface ResumePlan {
+  request: ResumeRequest;
+  journal: ResumeJournal;
+  prefixHash?: Hash; // Hash of the partial file's verified bytes
+}
+
+export interface JournalRecorder extends ExtractTracker {
+  tracker(): ExtractTracker; // Another tracker on the same journal (parallel streams)
+  flush(): Promise<void>; // Save progress now (transfer stopped early)
+  discard(): Promise<void>; // Transfer finished: stop saving and remove the journal
+}
+
+function emptyJournal(): ResumeJournal {
+  return { version: JOURNAL_VERSION, completed: {}, partial: null };
+}
+
+/**
+ * Where the journal for a share key lives
+ *
+ * The file name is a hash of the key, so the key itself never hits the disk.
+ */
+export function journalPath(outputPath: string, shareKey: string): string {
+  const id = createHash('sha256')
+    .update('ezshare-resume/')
+    .update(shareKey.trim())
+    .digest('hex')
+    .slice(0, 16);
+  return join(outputPath, `.ezshare-resume-${id}.json`);
+}
+
+/**
+ * Load a journal, or start an empty one if there is none (or it's unreadable)
+ */
+export async function loadJournal(file: string): Promise<ResumeJournal> {
+  try {
+    const parsed = JSON.parse(await readFile(file, 'utf-8')) as Partial<ResumeJournal>;
+    if (
+      parsed.version !== JOURNAL_VERSION ||
+      typeof parsed.completed !== 'object' || parsed.completed === null
+    ) {
+      return emptyJournal();
+    }
+    return {
+      version: JOURNAL_VERSION,
+      completed: parsed.completed,
+      partial: parsed.partial ?? null,
+    };
+  } catch {
+    return emptyJournal();
+  }
+}
+
+/**
+ * Write a journal atomically (temp file + rename)
+ */
+export async function saveJournal(file: string, journal: ResumeJournal): Promise<void> {
+  const temp = `${file}.tmp`;
+  await writeFile(temp, JSON.stringify(journal));
+  await rename(temp, file);
+}
+
+/**
+ * Remove a journal once the transfer is complete
+ */
+export async function deleteJournal(file: string): Promise<void> {
+  await rm(file, { force: true });
+}
+
+/**
+ * Hash a file, or only its first `length` bytes
+ */
+export async function hashFile(path: string, length?: number): Promise<Hash> {
+  const hash = createHash('sha256');
+  if (length === 0) return hash;
+
+  const stream = createReadStream(path, length === undefined ? {} : { end: length - 1 });
+  for await (const chunk of stream) {
+    hash.update(chunk as Buffer);
+  }
+  return hash;
+}
+
+/**
+ * Same file on the sender's side as when the journal entry was written?
+ */
+function unchanged(entry: ManifestEntry | undefined, recorded: JournalFile): entry is ManifestEntry {
+  return !!entry && entry.type === 'file' && entry.size === recorded.size && entry.mtime === recorded.mtime;
+}
+
+/**
+ * Check the journal against the new manifest and the files on disk
+ *
+ * Anything that doesn't check out (file changed on the sender, missing or
+ * modified locally) is dropped from the journal and will be sent again.
+ *
+ * @param journal - Journal from a previous attempt
+ * @param manifest - Manifest the sender just sent
+ * @param outputPath - Where the files were being extracted
+ */
+export async function planResume(
+  journal: ResumeJournal,
+  manifest: TransferManifest,
+  outputPath: string
+): Promise<ResumePlan> {
+  const entries = new Map(manifest.entries.map((entry) => [entry.path, entry]));
+  const diskPath = (tarPath: string) => join(outputPath, tarPath.split('/').join(sep));
+  const verified = emptyJournal();
+
+  for (const [path, recorded] of Object.entries(journal.completed)) {
+    if (!unchanged(entries.get(path), recorded)) continue;
+    try {
+      const info = await stat(diskPath(path));
+      if (info.size !== recorded.size) continue;
+      if ((await hashFile(diskPath(path))).digest('hex') !== recorded.sha256) continue;
+      verified.completed[path] = recorded;
+    } catch {
+      // Missing or unreadable: send it again
+    }
+  }
+
+  let prefixHash: Hash | undefined;
+  const partial = journal.partial;
+  if (partial && partial.offset > 0 && unchanged(entries.get(partial.path), partial)) {
+    try {
+      const info = await stat(diskPath(partial.path));
+      if (info.size >= partial.offset) {
+        const hash = await hashFile(diskPath(partial.path), partial.offset);
+        if (hash.copy().digest('hex') === partial.sha256) {
+          verified.partial = partial;
+          prefixHash = hash;
+        }
+      }
+    } catch {
+      // Start the file over
+    }
+  }
+
+  return {
+    request: {
+      completed: Object.keys(verified.completed),
+      partial: verified.partial
+        ? { path: verified.partial.path, offset: verified.partial.offset }
+        : undefined,
+    },
+    journal: verified,
+    prefixHash,
+  };
+}
+
+/**
+ * Validate a resume request against our manifest (sender side)
+ *
+ * @throws Error if it names files we aren't sending or offsets past the end
+ */
+export function checkResumeRequest(request: unknown, manifest: TransferManifest): ResumeRequest {
+  const files = new Map(
+    manifest.entries.filter((entry) => entry.type === 'file').map((entry) => [entry.path, entry])
+  );
+  const value = request as Partial<ResumeRequest> | null;
+
+  if (
+    !value ||
+    !Array.isArray(value.completed) ||
+    !value.completed.every((path) => typeof path === 'string' && files.has(path))
+  ) {
+    throw new Error('Receiver sent an invalid resume request');
+  }
+
+  const partial = value.partial;
+  if (partial !== undefined) {
+    const entry = typeof partial?.path === 'string' ? files.get(partial.path) : undefined;
+    if (
+      !entry ||
+      !Number.isSafeInteger(partial.offset) ||
+      partial.offset < 0 ||
+      partial.offset > entry.size
+    ) {
+      throw new Error('Receiver sent an invalid resume request');
+    }
+  }
+
+  return {
+    completed: value.completed,
+    partial: partial ? { path: partial.path, offset: partial.offset } : undefined,
+  };
+}
+
+/**
+ * Totals for what's left to send after a resume
+ */
+export function applyResume(manifest: TransferManifest, request: ResumeRequest): TransferManifest {
+  const completed = new Set(request.completed);
+  const entries = manifest.entries.filter((entry) => !completed.has(entry.path));
+  const files = entries.filter((entry) => entry.type === 'file');
+  const alreadySent = files.some((entry) => entry.path === request.partial?.path)
+    ? request.partial!.offset
+    : 0;
+
+  return {
+    ...manifest,
+    totalSize: files.reduce((sum, entry) => sum + entry.size, 0) - alreadySent,
+    fileCount: files.length,
+    entries,
+  };
+}
+
+/**
+ * Record extraction progress into the journal
+ *
+ * Completed files and the position in the current file are saved at most
+ * once a second while data flows; call flush() when the transfer stops.
+ * With parallel streams each extract stream gets its own tracker(); the
+ * journal only keeps one partial file, the one furthest along, and the
+ * others start over on resume.
+ *
+ * @param file - Journal file
+ * @param plan - Verified resume point for this attempt
+ * @param manifest - Manifest the sender sent (for sizes and mtimes)
+ */
+export function createJournalRecorder(
+  file: string,
+  plan: ResumePlan,
+  manifest: TransferManifest
+): JournalRecorder {
+  const journal = plan.journal;
+  const entries = new Map(manifest.entries.map((entry) => [entry.path, entry]));
+  const resumedPath = journal.partial?.path;
+
+  type Progress = { path: string; entry: ManifestEntry; offset: number; hash: Hash };
+  const active = new Set<Progress>();
+  let lastSave = 0;
+  let saving: Promise<void> = Promise.resolve();
+  let discarded = false;
+
+  const save = (): Promise<void> => {
+    if (discarded) return saving;
+    lastSave = Date.now();
+    const snapshot = JSON.parse(JSON.stringify(journal)) as ResumeJournal;
+    saving = saving.then(() => saveJournal(file, snapshot)).catch(() => {
+      // A failed save only costs us resume progress
+    });
+    return saving;
+  };
+
+  const recordPartial = () => {
+    let furthest: Progress | null = null;
+    for (const progress of active) {
+      if (!furthest || progress.offset > furthest.offset) furthest = progress;
+    }
+    if (!furthest) return;
+    journal.partial = {
+      path: furthest.path,
+      size: furthest.entry.size,
+      mtime: furthest.entry.mtime,
+      offset: furthest.offset,
+      sha256: furthest.hash.copy().digest('hex'),
+    };
+  };
+
+  const createTracker = (): ExtractTracker => {
+    let current: Progress | null = null;
+
+    return {
+      start(tarPath: string, offset: number): void {
+        if (current) active.delete(current);
+        const entry = entries.get(tarPath);
+        if (!entry) {
+          current = null;
+          return;
+        }
+
+        const resuming = offset > 0 && plan.prefixHash && resumedPath === tarPath;
+        current = {
+          path: tarPath,
+          entry,
+          offset,
+          hash: resuming ? plan.prefixHash! : createHash('sha256'),
+        };
+        active.add(current);
+      },
+
+      data(chunk: Buffer): void {
+        if (!current) return;
+        current.hash.update(chunk);
+        current.offset += chunk.length;
+
+        if (Date.now() - lastSave >= SAVE_INTERVAL) {
+          recordPartial();
+          void save();
+        }
+      },
+
+      async end(): Promise<void> {
+        if (!current) return;
+        journal.completed[current.path] = {
+          size: current.entry.size,
+          mtime: current.entry.mtime,
+          sha256: current.hash.digest('hex'),
+        };
+        if (journal.partial?.path === current.path) {
+          journal.partial = null;
+        }
+        active.delete(current);
+        current = null;
+
+        if (Date.now() - lastSave >= SAVE_INTERVAL) {
+          await save();
+        }
+      },
+    };
+  };
+
+  return {
+    ...createTracker(),
+
+    tracker: createTracker,
+
+    async flush(): Promise<void> {
+      recordPartial();
+      await save();
+    },
+
+    async discard(): Promise<void> {
+      discarded = true;
+      await saving;
+      await deleteJournal(file);
+    },
+  };
+}
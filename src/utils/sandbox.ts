@@ -0,0 +1,330 @@
+/**
+ * Extraction sandbox
+ *
+ * Every entry in the tar stream names a path the peer wants written, and
+ * the peer is not trusted to keep it inside the output directory. Before
+ * anything touches the disk:
+ *
+ *   - The name is split into segments. A leading '/' or drive letter is
+ *     dropped (as tar does), but a '..' segment or a NUL byte rejects the
+ *     entry, and the resolved target must still be inside the output root.
+ *   - Every folder between the root and the target is checked with lstat
+ *     (once, then remembered): a symlink anywhere on the way (planted by
+ *     an earlier entry, or already in the output directory) rejects the
+ *     entry, as does a file where a folder should be. Missing folders are
+ *     created one level at a time and checked the same way.
+ *   - Files are created with O_EXCL and O_NOFOLLOW. One already there is
+ *     unlinked and created afresh rather than written into, so a symlink,
+ *     hardlink or FIFO in its place can't redirect or block the write.
+ *   - A symlink's target must be relative, and may only go up ('..') at
+ *     the start, no further than the root. Followed from the link's own
+ *     (real) folder, it then only goes down, so it stays inside the root
+ *     whatever other links the entries create. 'a/../b' is refused even
+ *     though it reads as 'b': if 'a' is itself a link, it isn't.
+ *   - A hardlink must point at a file (not a symlink) inside the root.
+ *
+ * The peer only controls the tar stream, so the checks are against what
+ * the entries themselves can do (a symlink entry followed by a file
+ * through it, say). A local user who can write to the output directory
+ * can still race them.
+ *
+ * A rejected entry is skipped, not extracted, and reported to the caller
+ * (see createExtractStream).
+ */
+
+import { constants, open as openCallback, ftruncate as ftruncateCallback } from 'node:fs';
+import { link, lstat, mkdir, realpath, symlink, unlink } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { dirname, resolve as resolvePath, relative, isAbsolute, sep } from 'node:path';
+
+// Not defined on Windows, which has no symlink-following opens to refuse
+const O_NOFOLLOW = constants.O_NOFOLLOW ?? 0;
+
+// Plain descriptors rather than FileHandles, for createWriteStream to take over
+const open = promisify(openCallback);
+const ftruncate = promisify(ftruncateCallback);
+
+/**
+ * Thrown when an entry would write outside the output directory, or
+ * through a symlink, or is a link that could lead outside it
+ */
+export class UnsafeEntryError extends Error {
+  constructor(
+    public readonly path: string, // Entry name as the peer sent it
+    public readonly reason: string
+  ) {
+    super(`Refused to extract ${path}: ${reason}`);
+    this.name = 'UnsafeEntryError';
+  }
+}
+
+export interface Sandbox {
+  root: string; // Real path of the output directory
+
+  /**
+   * Where an entry goes on disk
+   *
+   * @returns The target, or null for the root itself ('./')
+   * @throws UnsafeEntryError if the name leaves the output directory
+   */
+  resolve(name: string): string | null;
+
+  /**
+   * Create a folder (and any missing parents) for an entry
+   *
+   * @throws UnsafeEntryError if the path runs through a symlink or a file
+   */
+  makeDirectory(name: string, target: string, mode?: number): Promise<void>;
+
+  /**
+   * Open a file for writing, creating missing parent folders
+   *
+   * @returns A file descriptor; the caller closes it
+   *
+   * Replaces whatever file is there. With an offset, opens the existing
+   * file instead, cut to that length (to append to a partially received
+   * file).
+   *
+   * @throws UnsafeEntryError if the path runs through a symlink, or the
+   *   target is a symlink or a folder
+   */
+  openFile(name: string, target: string, options?: { offset?: number; mode?: number }): Promise<number>;
+
+  /**
+   * Create a symlink, replacing a file or symlink already there
+   *
+   * @param linkTarget - What the link points to, as the peer sent it
+   * @throws UnsafeEntryError if the link could point outside the output
+   *   directory, or a folder is in the way
+   */
+  makeSymlink(name: string, target: string, linkTarget: string): Promise<void>;
+
+  /**
+   * Link to a file extracted earlier, replacing a file or symlink already
+   * there
+   *
+   * @param linkName - Entry name of the existing file, as the peer sent it
+   * @throws UnsafeEntryError if that isn't a file inside the output
+   *   directory, or a folder is in the way
+   */
+  makeHardlink(name: string, target: string, linkName: string): Promise<void>;
+}
+
+/**
+ * Is this an error with the given code?
+ */
+function hasCode(err: unknown, code: string): boolean {
+  return (err as NodeJS.ErrnoException)?.code === code;
+}
+
+/**
+ * Split an entry name into path segments
+ *
+ * @throws UnsafeEntryError on '..' segments and NUL bytes
+ */
+export function entrySegments(name: string): string[] {
+  if (name.includes('\0')) {
+    throw new UnsafeEntryError(name, 'name contains a NUL byte');
+  }
+
+  // Absolute names extract relative to the output directory, like tar
+  const stripped = name.replace(/^[a-zA-Z]:/, '').replace(/^[/\\]+/, '');
+
+  // Both separators count: a peer on another OS may use either
+  const segments = stripped.split(/[/\\]+/).filter((segment) => segment !== '' && segment !== '.');
+  if (segments.includes('..')) {
+    throw new UnsafeEntryError(name, 'path leaves the output directory');
+  }
+  return segments;
+}
+
+/**
+ * Check a symlink target
+ *
+ * @param depth - Folders between the root and the link
+ * @throws UnsafeEntryError if the link could point outside the root
+ */
+function checkSymlinkTarget(name: string, linkTarget: string, depth: number): void {
+  if (linkTarget === '') {
+    throw new UnsafeEntryError(name, 'link has no target');
+  }
+  if (linkTarget.includes('\0')) {
+    throw new UnsafeEntryError(name, 'link target contains a NUL byte');
+  }
+  if (/^([a-zA-Z]:|[/\\])/.test(linkTarget)) {
+    throw new UnsafeEntryError(name, 'link points to an absolute path');
+  }
+
+  const segments = linkTarget.split(/[/\\]+/).filter((segment) => segment !== '' && segment !== '.');
+  let up = 0;
+  while (segments[up] === '..') up++;
+  if (segments.slice(up).includes('..')) {
+    throw new UnsafeEntryError(name, "link target has '..' after a folder name");
+  }
+  if (up > depth) {
+    throw new UnsafeEntryError(name, 'link points outside the output directory');
+  }
+}
+
+/**
+ * Set up the sandbox for an output directory, creating it if needed
+ *
+ * @param destPath - Output directory (may itself be a symlink)
+ */
+export async function createSandbox(destPath: string): Promise<Sandbox> {
+  await mkdir(destPath, { recursive: true });
+  const root = await realpath(destPath);
+
+  // Folders already checked (or created)
+  const folders = new Set<string>([root]);
+
+  /**
+   * Make sure `folder` is a real folder inside the root, creating it and
+   * any missing parents (only the folder itself gets `mode`)
+   */
+  const ensureFolder = async (name: string, folder: string, mode?: number): Promise<void> => {
+    if (folders.has(folder)) return;
+    if (dirname(folder) === folder) {
+      throw new UnsafeEntryError(name, 'path leaves the output directory');
+    }
+
+    await ensureFolder(name, dirname(folder));
+    try {
+      // mkdir never follows a symlink in the last segment: if it made the
+      // folder, that's what's there
+      await mkdir(folder, { mode });
+    } catch (err) {
+      if (!hasCode(err, 'EEXIST')) throw err;
+
+      const stats = await lstat(folder);
+      if (stats.isSymbolicLink()) {
+        throw new UnsafeEntryError(name, `${relative(root, folder)} is a symlink`);
+      }
+      if (!stats.isDirectory()) {
+        throw new UnsafeEntryError(name, `${relative(root, folder)} is not a folder`);
+      }
+    }
+    folders.add(folder);
+  };
+
+  // See Sandbox.resolve
+  const resolve = (name: string): string | null => {
+    const segments = entrySegments(name);
+    if (segments.length === 0) return null;
+
+    const target = resolvePath(root, ...segments);
+    const inside = relative(root, target);
+    if (inside === '' || inside.startsWith('..') || isAbsolute(inside)) {
+      throw new UnsafeEntryError(name, 'path leaves the output directory');
+    }
+    return target;
+  };
+
+  /**
+   * Clear the way for a link: remove a file or symlink, refuse a folder
+   */
+  const clear = async (name: string, target: string): Promise<void> => {
+    const existing = await lstat(target).catch((err) => {
+      if (hasCode(err, 'ENOENT')) return null;
+      throw err;
+    });
+    if (existing?.isDirectory()) {
+      throw new UnsafeEntryError(name, `${relative(root, target)} is a folder`);
+    }
+    if (existing) await unlink(target);
+  };
+
+  /**
+   * Create a link with `create`, after clearing the way
+   */
+  const replaceWith = async (name: string, target: string, create: () => Promise<void>): Promise<void> => {
+    await clear(name, target);
+    await create().catch((err) => {
+      throw hasCode(err, 'EEXIST')
+        ? new UnsafeEntryError(name, `${relative(root, target)} changed while extracting`)
+        : err;
+    });
+  };
+
+  return {
+    root,
+
+    resolve,
+
+    async makeDirectory(name: string, target: string, mode?: number): Promise<void> {
+      await ensureFolder(name, target, mode);
+    },
+
+    async openFile(name: string, target: string, options: { offset?: number; mode?: number } = {}): Promise<number> {
+      const { offset = 0, mode } = options;
+      const shown = relative(root, target);
+      await ensureFolder(name, dirname(target));
+
+      let fd: number;
+      if (offset > 0) {
+        // Resuming: only ever into the file we started
+        const existing = await lstat(target).catch(() => null);
+        if (!existing?.isFile()) {
+          throw new UnsafeEntryError(name, `${shown} is not a file to resume`);
+        }
+        fd = await open(target, constants.O_RDWR | O_NOFOLLOW);
+        await ftruncate(fd, offset);
+      } else {
+        const create = () => open(target, constants.O_WRONLY | constants.O_CREAT | constants.O_EXCL | O_NOFOLLOW, mode);
+        try {
+          fd = await create();
+        } catch (err) {
+          if (!hasCode(err, 'EEXIST')) throw err;
+
+          // Something's there: replace a file, refuse anything else
+          const existing = await lstat(target);
+          if (existing.isSymbolicLink()) {
+            throw new UnsafeEntryError(name, `${shown} is a symlink`);
+          }
+          if (existing.isDirectory()) {
+            throw new UnsafeEntryError(name, `${shown} is a folder`);
+          }
+          await unlink(target);
+          fd = await create().catch((retryErr) => {
+            throw hasCode(retryErr, 'EEXIST')
+              ? new UnsafeEntryError(name, `${shown} changed while extracting`)
+              : retryErr;
+          });
+        }
+      }
+
+      return fd;
+    },
+
+    async makeSymlink(name: string, target: string, linkTarget: string): Promise<void> {
+      const folder = dirname(target);
+      const depth = relative(root, folder).split(sep).filter(Boolean).length;
+      checkSymlinkTarget(name, linkTarget, depth);
+      await ensureFolder(name, folder);
+      await replaceWith(name, target, () => symlink(linkTarget, target));
+    },
+
+    async makeHardlink(name: string, target: string, linkName: string): Promise<void> {
+      let source: string | null;
+      try {
+        source = resolve(linkName);
+      } catch (err) {
+        // Report it against this entry, not the one it names
+        throw err instanceof UnsafeEntryError ? new UnsafeEntryError(name, `link to ${linkName}: ${err.reason}`) : err;
+      }
+      if (!source || source === target) {
+        throw new UnsafeEntryError(name, `link to ${linkName || 'nothing'} is not a file`);
+      }
+
+      // Same checks on the way to the existing file as for writing one
+      await ensureFolder(name, dirname(source));
+      const existing = await lstat(source).catch(() => null);
+      if (!existing?.isFile()) {
+        throw new UnsafeEntryError(name, `link to ${relative(root, source)} is not a file`);
+      }
+
+      await ensureFolder(name, dirname(target));
+      await replaceWith(name, target, () => link(source, target));
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { globToRegExp, matchesGlob, selectEntries, withAncestors, applySelection } from './selection.js';
+import type { TransferManifest } from './tar.js';
+
+const manifest: TransferManifest = {
+  totalSize: 60,
+  fileCount: 5,
+  isDirectory: true,
+  entries: [
+    { path: 'project/README.md', size: 10, mtime: 0, type: 'file' },
+    { path: 'project/docs/', size: 0, mtime: 0, type: 'directory' },
+    { path: 'project/docs/guide.md', size: 10, mtime: 0, type: 'file' },
+    { path: 'project/src/', size: 0, mtime: 0, type: 'directory' },
+    { path: 'project/src/index.ts', size: 10, mtime: 0, type: 'file' },
+    { path: 'project/src/utils/', size: 0, mtime: 0, type: 'directory' },
+    { path: 'project/src/utils/debug.log', size: 20, mtime: 0, type: 'file' },
+    { path: 'project/src/utils/tar.ts', size: 10, mtime: 0, type: 'file' },
+  ],
+};
+
+describe('Selection', () => {
+  describe('Glob matching', () => {
+    it('should keep single stars within one path component', () => {
+      assert.ok(globToRegExp('src/*.ts').test('src/index.ts'));
+      assert.ok(!globToRegExp('src/*.ts').test('src/utils/tar.ts'));
+    });
+
+    it('should let double stars cross folders', () => {
+      assert.ok(globToRegExp('src/**/*.ts').test('src/index.ts'));
+      assert.ok(globToRegExp('src/**/*.ts').test('src/utils/tar.ts'));
+      assert.ok(globToRegExp('**').test('a/b/c'));
+    });
+
+    it('should treat regex characters literally', () => {
+      assert.ok(globToRegExp('file(1).txt').test('file(1).txt'));
+      assert.ok(!globToRegExp('a.b').test('axb'));
+    });
+
+    it('should match patterns without a slash against any component', () => {
+      assert.ok(matchesGlob('src/utils/debug.log', '*.log'));
+      assert.ok(matchesGlob('src/utils/tar.ts', 'utils'));
+      assert.ok(!matchesGlob('src/index.ts', 'utils'));
+    });
+
+    it('should match folder patterns against everything inside', () => {
+      assert.ok(matchesGlob('src/utils/tar.ts', 'src/utils'));
+      assert.ok(matchesGlob('src/utils/tar.ts', './src/utils/'));
+      assert.ok(!matchesGlob('docs/guide.md', 'src/utils'));
+    });
+  });
+
+  describe('selectEntries', () => {
+    it('should select everything without filters', () => {
+      const selection = selectEntries(manifest, {});
+      assert.strictEqual(selection.size, manifest.entries.length);
+    });
+
+    it('should include matching folders with their parents', () => {
+      const selection = selectEntries(manifest, { include: ['src/utils'] });
+      assert.deepStrictEqual([...selection].sort(), [
+        'project/src/',
+        'project/src/utils/',
+        'project/src/utils/debug.log',
+        'project/src/utils/tar.ts',
+      ]);
+    });
+
+    it('should let excludes win over includes', () => {
+      const selection = selectEntries(manifest, { include: ['src'], exclude: ['*.log'] });
+      assert.ok(selection.has('project/src/utils/tar.ts'));
+      assert.ok(!selection.has('project/src/utils/debug.log'));
+      assert.ok(!selection.has('project/README.md'));
+    });
+
+    it('should match single-file transfers by file name', () => {
+      const single: TransferManifest = {
+        totalSize: 1,
+        fileCount: 1,
+        isDirectory: false,
+        entries: [{ path: 'notes.txt', size: 1, mtime: 0, type: 'file' }],
+      };
+      assert.strictEqual(selectEntries(single, { exclude: ['*.txt'] }).size, 0);
+      assert.strictEqual(selectEntries(single, { include: ['notes.*'] }).size, 1);
+    });
+  });
+
+  describe('Applying a selection', () => {
+    it('should add only folders that are in the manifest', () => {
+      const selection = withAncestors(manifest, ['project/docs/guide.md']);
+      assert.deepStrictEqual([...selection].sort(), ['project/docs/', 'project/docs/guide.md']);
+    });
+
+    it('should recompute totals for the selected files', () => {
+      const selected = applySelection(manifest, selectEntries(manifest, { include: ['*.ts'] }));
+      assert.strictEqual(selected.fileCount, 2);
+      assert.strictEqual(selected.totalSize, 20);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Choosing a subset of a transfer manifest
+ *
+ * The receiver picks files (by glob or in the interactive tree) and sends
+ * back the chosen manifest paths; the sender then packs only those.
+ *
+ * Glob rules, relative to the shared folder:
+ *   *   any characters except '/'
+ *   **  any characters, including '/'
+ *   ?   a single character except '/'
+ *
+ * A pattern without '/' matches any single path component, so `*.md`
+ * matches markdown files anywhere and `docs` matches every `docs` folder.
+ * A pattern with '/' is matched against the whole path. A pattern that
+ * matches a folder also matches everything inside it.
+ */
+
+import type { TransferManifest, ManifestEntry } from './tar.js';
+
+export interface SelectionFilters {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        // "**/" also matches zero folders
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a relative path against one glob pattern
+ *
+ * @param path - Path relative to the shared folder, '/'-separated
+ * @param pattern - Glob pattern (see the module comment)
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const cleaned = pattern.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+  if (!cleaned) return false;
+
+  const regex = globToRegExp(cleaned);
+  const segments = path.replace(/\/+$/, '').split('/');
+
+  if (!cleaned.includes('/')) {
+    return segments.some((segment) => regex.test(segment));
+  }
+
+  // Match the path itself or any folder it lives in
+  for (let i = segments.length; i > 0; i--) {
+    if (regex.test(segments.slice(0, i).join('/'))) return true;
+  }
+  return false;
+}
+
+/**
+ * Path of an entry relative to the shared folder
+ *
+ * Directory transfers prefix every entry with the folder's own name;
+ * patterns are written without it. Transfers of several paths have no one
+ * shared folder, so their patterns start at the top-level names.
+ */
+function relativePath(manifest: TransferManifest, entry: ManifestEntry): string {
+  const path = entry.path.replace(/\/+$/, '');
+  if (!manifest.isDirectory || manifest.roots) return path;
+  const slash = path.indexOf('/');
+  return slash === -1 ? '' : path.slice(slash + 1);
+}
+
+/**
+ * Add the folders containing each selected path
+ *
+ * Only folders that are manifest entries are added, so the result can be
+ * sent back to the sender as-is.
+ */
+export function withAncestors(manifest: TransferManifest, paths: Iterable<string>): Set<string> {
+  const directories = new Set(
+    manifest.entries.filter((entry) => entry.type === 'directory').map((entry) => entry.path)
+  );
+  const result = new Set<string>();
+
+  for (const path of paths) {
+    result.add(path);
+    const segments = path.replace(/\/+$/, '').split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const ancestor = segments.slice(0, i).join('/') + '/';
+      if (directories.has(ancestor)) result.add(ancestor);
+    }
+  }
+  return result;
+}
+
+/**
+ * Pick manifest entries with include/exclude globs
+ *
+ * With no include patterns everything is included. Excludes win over
+ * includes.
+ *
+ * @returns Selected manifest paths, including the folders they live in
+ */
+export function selectEntries(manifest: TransferManifest, filters: SelectionFilters): Set<string> {
+  const include = filters.include ?? [];
+  const exclude = filters.exclude ?? [];
+  const selected: string[] = [];
+
+  for (const entry of manifest.entries) {
+    const path = relativePath(manifest, entry);
+    const included = include.length === 0 || include.some((pattern) => matchesGlob(path, pattern));
+    const excluded = exclude.some((pattern) => matchesGlob(path, pattern));
+    if (included && !excluded) {
+      selected.push(entry.path);
+    }
+  }
+
+  return withAncestors(manifest, selected);
+}
+
+/**
+ * Narrow a manifest down to the selected entries, with totals recomputed
+ */
+export function applySelection(manifest: TransferManifest, selection: ReadonlySet<string>): TransferManifest {
+  const entries = manifest.entries.filter((entry) => selection.has(entry.path));
+  const files = entries.filter((entry) => entry.type === 'file');
+
+  return {
+    ...manifest,
+    totalSize: files.reduce((sum, entry) => sum + entry.size, 0),
+    fileCount: files.length,
+    entries,
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createTransferMeter, formatSummary } from './stats.js';
+import { formatConnectionInfo } from './network.js';
+
+const MB = 1024 * 1024;
+
+/**
+ * A clock the test moves by hand
+ */
+function createClock() {
+  let now = 1_000_000;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('Transfer statistics', () => {
+  describe('Meter', () => {
+    it('should measure the rate over the last few seconds', () => {
+      const clock = createClock();
+      const meter = createTransferMeter(clock.now);
+      meter.start(100 * MB);
+
+      // 1 MB/s for 10 seconds, then 4 MB/s for 5: the live rate follows
+      for (let i = 0; i < 10; i++) {
+        clock.advance(1000);
+        meter.add(MB);
+      }
+      assert.ok(Math.abs(meter.rate() - MB) < 0.05 * MB, `expected ~1 MB/s, got ${meter.rate()}`);
+
+      for (let i = 0; i < 5; i++) {
+        clock.advance(1000);
+        meter.add(4 * MB);
+      }
+      assert.ok(meter.rate() > 3 * MB, `expected the faster rate, got ${meter.rate()}`);
+    });
+
+    it('should estimate the time left at the current rate', () => {
+      const clock = createClock();
+      const meter = createTransferMeter(clock.now);
+      meter.start(20 * MB);
+      assert.strictEqual(meter.eta(), null, 'no estimate before any data');
+
+      for (let i = 0; i <= 10; i++) {
+        clock.advance(500);
+        meter.add(MB);
+      }
+      // 11 MB in at 2 MB/s, 9 MB left
+      const eta = meter.eta();
+      assert.ok(eta !== null && Math.abs(eta - 4500) < 500, `expected ~4.5s, got ${eta}`);
+    });
+
+    it('should keep counting across restarts for the summary', () => {
+      const clock = createClock();
+      const meter = createTransferMeter(clock.now);
+      meter.start(10 * MB);
+      meter.add(4 * MB);
+      clock.advance(2000);
+      meter.add(2 * MB);
+
+      // Reconnect and resume with what's left
+      meter.start(4 * MB);
+      assert.strictEqual(meter.transferred, 0);
+      clock.advance(2000);
+      meter.add(4 * MB);
+
+      const summary = meter.summary();
+      assert.strictEqual(summary.bytes, 10 * MB);
+      assert.strictEqual(summary.elapsed, 4000);
+      assert.strictEqual(summary.averageRate, 2.5 * MB);
+      assert.ok(summary.peakRate >= summary.averageRate);
+    });
+  });
+
+  describe('Summary', () => {
+    it('should list totals, throughput and every connection', () => {
+      const connections = [
+        { remoteAddress: '203.0.113.5:49737', path: 'holepunched' as const, rtt: 84.4 },
+        { remoteAddress: '192.0.2.10:3000', path: 'relayed' as const, rtt: null },
+      ];
+      const lines = formatSummary({
+        bytes: 10 * MB,
+        elapsed: 4000,
+        averageRate: 2.5 * MB,
+        peakRate: 3 * MB,
+        connections,
+      });
+
+      assert.deepStrictEqual(lines, [
+        'Transferred 10 MB in 4.0s',
+        'Throughput: 2.5 MB/s average, 3 MB/s peak',
+        'Connection 1: 203.0.113.5:49737, holepunched, RTT 84 ms',
+        'Connection 2: 192.0.2.10:3000, relayed',
+      ]);
+      assert.strictEqual(
+        formatConnectionInfo({ remoteAddress: null, path: 'direct', rtt: null }),
+        'unknown address, direct'
+      );
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Transfer statistics: live throughput and ETA, and the --stats summary
+ *
+ * The progress trackers feed every chunk into a meter. The live rate is
+ * taken over the last few seconds, so it follows the link as it speeds up
+ * or slows down instead of averaging over the whole transfer.
+ */
+
+import { formatFileSize } from './fileSystem.js';
+import { formatDuration } from './duration.js';
+import { formatConnectionInfo, type ConnectionInfo } from './network.js';
+import { formatRate } from './throttle.js';
+
+// Constants
+const RATE_WINDOW = 5000; // Live rate covers the last 5 seconds
+const SAMPLE_INTERVAL = 250; // Record a sample at most this often
+
+export interface TransferMeter {
+  readonly transferred: number; // Bytes towards the current total
+
+  /**
+   * (Re)start counting towards `total` bytes, e.g. after a resume
+   *
+   * The summary keeps counting across restarts.
+   */
+  start(total: number): void;
+  add(bytes: number): void;
+  rate(): number; // Bytes per second over the last few seconds
+  eta(): number | null; // Milliseconds left at the current rate, if known
+  summary(connections?: ConnectionInfo[]): TransferSummary;
+}
+
+/**
+ * What the --stats summary shows
+ */
+export interface TransferSummary {
+  bytes: number;
+  elapsed: number; // Milliseconds from the first byte to the last
+  averageRate: number;
+  peakRate: number;
+  connections: ConnectionInfo[];
+}
+
+/**
+ * Create a throughput meter
+ *
+ * @param clock - Current time in milliseconds (for tests)
+ */
+export function createTransferMeter(clock: () => number = Date.now): TransferMeter {
+  let total = 0;
+  let transferred = 0;
+  let samples: Array<{ time: number; bytes: number }> = [];
+  let allBytes = 0;
+  let firstByte: number | null = null;
+  let lastByte = 0;
+  let peakRate = 0;
+
+  const rate = (): number => {
+    if (samples.length < 2) return 0;
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const seconds = (Math.max(clock(), last.time) - first.time) / 1000;
+    return seconds > 0 ? (last.bytes - first.bytes) / seconds : 0;
+  };
+
+  return {
+    get transferred() {
+      return transferred;
+    },
+
+    start(bytes: number): void {
+      total = bytes;
+      transferred = 0;
+      samples = [];
+    },
+
+    add(bytes: number): void {
+      const now = clock();
+      firstByte ??= now;
+      lastByte = now;
+      transferred += bytes;
+      allBytes += bytes;
+
+      const last = samples[samples.length - 1];
+      if (last && now - last.time < SAMPLE_INTERVAL) {
+        last.bytes = transferred;
+        return;
+      }
+      samples.push({ time: now, bytes: transferred });
+      while (samples.length > 2 && now - samples[0].time > RATE_WINDOW) {
+        samples.shift();
+      }
+      if (now - samples[0].time >= 1000) {
+        peakRate = Math.max(peakRate, rate());
+      }
+    },
+
+    rate,
+
+    eta(): number | null {
+      const current = rate();
+      if (current <= 0) return null;
+      return (Math.max(total - transferred, 0) / current) * 1000;
+    },
+
+    summary(connections: ConnectionInfo[] = []): TransferSummary {
+      const elapsed = firstByte === null ? 0 : lastByte - firstByte;
+      const averageRate = elapsed > 0 ? (allBytes / elapsed) * 1000 : 0;
+      return {
+        bytes: allBytes,
+        elapsed,
+        averageRate,
+        peakRate: Math.max(peakRate, averageRate),
+        connections,
+      };
+    },
+  };
+}
+
+/**
+ * The --stats summary, one line each
+ */
+export function formatSummary(summary: TransferSummary): string[] {
+  const lines = [
+    `Transferred ${formatFileSize(summary.bytes)} in ${formatElapsed(summary.elapsed)}`,
+    `Throughput: ${formatRate(summary.averageRate)} average, ${formatRate(summary.peakRate)} peak`,
+  ];
+  summary.connections.forEach((info, index) => {
+    const label = summary.connections.length > 1 ? `Connection ${index + 1}` : 'Connection';
+    lines.push(`${label}: ${formatConnectionInfo(info)}`);
+  });
+  return lines;
+}
+
+function formatElapsed(ms: number): string {
+  return ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : formatDuration(ms);
+}
@@ -1,10 +1,32 @@
 import { describe, it, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert';
-import { createPackStream, createExtractStream, getTransferMetadata } from './tar.js';
-import { mkdir, writeFile, readFile, rm, readdir, stat, chmod } from 'node:fs/promises';
+import { createPackStream, createExtractStream, getTransferMetadata, getTransferManifest, packRoots } from './tar.js';
+import type { UnsafeEntryError } from './sandbox.js';
+import { mkdir, writeFile, readFile, rm, readdir, stat, lstat, chmod, symlink, link, readlink, utimes } from 'node:fs/promises';
 import { join } from 'node:path';
 import { pipeline } from 'node:stream/promises';
+import { Readable } from 'node:stream';
 import { tmpdir } from 'node:os';
+import tarStream from 'tar-stream';
+
+/**
+ * A tar stream with exactly these entries, however hostile
+ */
+function hostileTar(entries: Array<{ name: string; type?: string; linkname?: string; content?: string }>): Readable {
+  const pack = tarStream.pack();
+  for (const { name, type = 'file', linkname, content = '' } of entries) {
+    pack.entry({ name, type, linkname, mode: 0o644 }, type === 'file' ? content : '');
+  }
+  pack.finalize();
+  return pack;
+}
+
+/**
+ * Does anything exist at this path (without following a symlink)?
+ */
+async function exists(path: string): Promise<boolean> {
+  return lstat(path).then(() => true, () => false);
+}
 
 describe('Tar Utility', () => {
   let testDir: string;
@@ -75,6 +97,57 @@ describe('Tar Utility', () => {
     });
   });
 
+  describe('getTransferManifest', () => {
+    it('should list a single file by name', async () => {
+      const filePath = join(testDir, 'test.txt');
+      await writeFile(filePath, 'Hello');
+
+      const manifest = await getTransferManifest(filePath);
+
+      assert.deepStrictEqual(
+        manifest.entries.map(({ path, size, type }) => ({ path, size, type })),
+        [{ path: 'test.txt', size: 5, type: 'file' }]
+      );
+      assert.strictEqual(manifest.entries[0].mtime, (await stat(filePath)).mtimeMs);
+      assert.strictEqual(manifest.totalSize, 5);
+    });
+
+    it('should list files and directories with their tar paths', async () => {
+      await writeFile(join(testDir, 'a.txt'), 'aaa');
+      await mkdir(join(testDir, 'sub'));
+      await writeFile(join(testDir, 'sub', 'b.txt'), 'bb');
+
+      const manifest = await getTransferManifest(testDir);
+      const dirName = testDir.split('/').pop()!;
+      const byPath = new Map(manifest.entries.map(({ path, size, type }) => [path, { path, size, type }]));
+
+      assert.strictEqual(manifest.entries.length, 4);
+      assert.deepStrictEqual(byPath.get(`${dirName}/`), { path: `${dirName}/`, size: 0, type: 'directory' });
+      assert.deepStrictEqual(byPath.get(`${dirName}/a.txt`), { path: `${dirName}/a.txt`, size: 3, type: 'file' });
+      assert.deepStrictEqual(byPath.get(`${dirName}/sub/`), { path: `${dirName}/sub/`, size: 0, type: 'directory' });
+      assert.deepStrictEqual(byPath.get(`${dirName}/sub/b.txt`), { path: `${dirName}/sub/b.txt`, size: 2, type: 'file' });
+      assert.strictEqual(manifest.fileCount, 2);
+      assert.strictEqual(manifest.totalSize, 5);
+    });
+
+    it('should list symlinks, or what they point to when following them', async () => {
+      await writeFile(join(testDir, 'a.txt'), 'aaa');
+      await symlink('a.txt', join(testDir, 'link.txt'));
+      const dirName = testDir.split('/').pop()!;
+
+      const kept = await getTransferManifest(testDir);
+      const followed = await getTransferManifest(testDir, { symlinks: 'follow' });
+      const linkEntry = (manifest: typeof kept) =>
+        manifest.entries.find((entry) => entry.path === `${dirName}/link.txt`);
+
+      assert.strictEqual(linkEntry(kept)?.type, 'symlink');
+      assert.strictEqual(kept.fileCount, 1);
+      assert.strictEqual(linkEntry(followed)?.type, 'file');
+      assert.strictEqual(followed.fileCount, 2);
+      assert.strictEqual(followed.totalSize, 6);
+    });
+  });
+
   describe('Pack and Extract Streams', () => {
     it('should pack and extract a single file', async () => {
       const content = 'Test file content';
@@ -146,6 +219,74 @@ describe('Tar Utility', () => {
       assert.strictEqual(file3, 'Level 3');
     });
 
+    it('should pack only entries accepted by the filter', async () => {
+      await writeFile(join(testDir, 'keep.txt'), 'keep');
+      await writeFile(join(testDir, 'skip.txt'), 'skip');
+      await mkdir(join(testDir, 'skipped'));
+      await writeFile(join(testDir, 'skipped', 'inner.txt'), 'inner');
+
+      const dirName = testDir.split('/').pop()!;
+      const packStream = createPackStream(testDir, {
+        filter: (tarPath) => tarPath === `${dirName}/` || tarPath === `${dirName}/keep.txt`,
+      });
+      const extractStream = createExtractStream(outputDir);
+
+      await pipeline(packStream, extractStream);
+
+      const extracted = await readdir(join(outputDir, dirName));
+      assert.deepStrictEqual(extracted, ['keep.txt']);
+    });
+
+    it('should keep symlinks as links', async () => {
+      await mkdir(join(testDir, 'docs'));
+      await writeFile(join(testDir, 'docs', 'readme.txt'), 'read me');
+      await symlink('docs/readme.txt', join(testDir, 'readme'));
+      await symlink('docs', join(testDir, 'latest'));
+      await symlink('missing', join(testDir, 'dangling'));
+
+      await pipeline(createPackStream(testDir), createExtractStream(outputDir));
+
+      const out = join(outputDir, testDir.split('/').pop()!);
+      assert.strictEqual(await readlink(join(out, 'readme')), 'docs/readme.txt');
+      assert.strictEqual(await readlink(join(out, 'latest')), 'docs');
+      assert.strictEqual(await readlink(join(out, 'dangling')), 'missing');
+      assert.strictEqual(await readFile(join(out, 'readme'), 'utf-8'), 'read me');
+    });
+
+    it('should follow symlinks and keep loops as links', async () => {
+      await mkdir(join(testDir, 'docs'));
+      await writeFile(join(testDir, 'docs', 'readme.txt'), 'read me');
+      await symlink('docs', join(testDir, 'latest'));
+      await symlink('..', join(testDir, 'docs', 'up'));
+
+      await pipeline(createPackStream(testDir, { symlinks: 'follow' }), createExtractStream(outputDir));
+
+      const out = join(outputDir, testDir.split('/').pop()!);
+      assert.ok((await lstat(join(out, 'latest'))).isDirectory());
+      assert.strictEqual(await readFile(join(out, 'latest', 'readme.txt'), 'utf-8'), 'read me');
+      assert.strictEqual(await readlink(join(out, 'docs', 'up')), '..');
+      assert.strictEqual(await readlink(join(out, 'latest', 'up')), '..');
+    });
+
+    it('should pack hardlinks once and link them again', async () => {
+      const data = Buffer.alloc(64 * 1024, 7);
+      await writeFile(join(testDir, 'one.bin'), data);
+      await link(join(testDir, 'one.bin'), join(testDir, 'two.bin'));
+
+      // Only one copy of the data goes into the tar
+      const chunks: Buffer[] = [];
+      for await (const chunk of createPackStream(testDir)) chunks.push(chunk);
+      const tar = Buffer.concat(chunks);
+      assert.ok(tar.length < data.length * 2, 'expected the data once');
+
+      await pipeline(Readable.from([tar]), createExtractStream(outputDir));
+
+      const out = join(outputDir, testDir.split('/').pop()!);
+      const [one, two] = await Promise.all([stat(join(out, 'one.bin')), stat(join(out, 'two.bin'))]);
+      assert.strictEqual(one.ino, two.ino);
+      assert.ok((await readFile(join(out, 'two.bin'))).equals(data));
+    });
+
     it('should handle binary files', async () => {
       const binaryData = Buffer.from([0x00, 0x01, 0x02, 0xFF, 0xFE, 0xFD]);
       const filePath = join(testDir, 'binary.bin');
@@ -208,6 +349,33 @@ describe('Tar Utility', () => {
       assert.strictEqual(mode, 0o755);
     });
 
+    it('should restore mtimes on files and folders', async () => {
+      const mtime = new Date('2021-06-01T12:00:00Z');
+      await mkdir(join(testDir, 'sub'));
+      await writeFile(join(testDir, 'sub', 'file.txt'), 'dated');
+      await utimes(join(testDir, 'sub', 'file.txt'), mtime, mtime);
+      await utimes(join(testDir, 'sub'), mtime, mtime);
+      await utimes(testDir, mtime, mtime);
+
+      await pipeline(createPackStream(testDir), createExtractStream(outputDir));
+
+      const out = join(outputDir, testDir.split('/').pop()!);
+      assert.strictEqual((await stat(join(out, 'sub', 'file.txt'))).mtimeMs, mtime.getTime());
+      // Set after the file inside it was written
+      assert.strictEqual((await stat(join(out, 'sub'))).mtimeMs, mtime.getTime());
+      assert.strictEqual((await stat(out)).mtimeMs, mtime.getTime());
+    });
+
+    it('should drop setuid and setgid bits', async () => {
+      const filePath = join(testDir, 'suid.sh');
+      await writeFile(filePath, '#!/bin/sh');
+      await chmod(filePath, 0o6755);
+
+      await pipeline(createPackStream(filePath), createExtractStream(outputDir));
+
+      assert.strictEqual((await stat(join(outputDir, 'suid.sh'))).mode & 0o7777, 0o755);
+    });
+
     it('should handle empty directory', async () => {
       const emptyDir = join(testDir, 'empty');
       await mkdir(emptyDir);
@@ -273,4 +441,256 @@ describe('Tar Utility', () => {
       assert.strictEqual(file99, 'Content 99');
     });
   });
+
+  describe('Several paths', () => {
+    it('should give every path its own top-level name', () => {
+      assert.deepStrictEqual(
+        packRoots(['a/out.zip', 'b/out.zip', 'c/OUT.zip', 'docs/', 'notes', 'a/out.zip']).map((root) => root.name),
+        ['out.zip', 'out (2).zip', 'OUT (3).zip', 'docs', 'notes']
+      );
+    });
+
+    it('should list each path under its name, with combined totals', async () => {
+      await mkdir(join(testDir, 'docs', 'api'), { recursive: true });
+      await writeFile(join(testDir, 'a.txt'), 'aaa');
+      await writeFile(join(testDir, 'docs', 'api', 'index.md'), 'index');
+
+      const paths = [join(testDir, 'a.txt'), join(testDir, 'docs')];
+      const manifest = await getTransferManifest(paths);
+
+      assert.deepStrictEqual(manifest.roots, ['a.txt', 'docs']);
+      assert.deepStrictEqual(
+        manifest.entries.map(({ path, type }) => ({ path, type })),
+        [
+          { path: 'a.txt', type: 'file' },
+          { path: 'docs/', type: 'directory' },
+          { path: 'docs/api/', type: 'directory' },
+          { path: 'docs/api/index.md', type: 'file' },
+        ]
+      );
+      assert.deepStrictEqual(await getTransferMetadata(paths), { totalSize: 8, fileCount: 2, isDirectory: true });
+    });
+
+    it('should list a single path in an array as on its own', async () => {
+      await writeFile(join(testDir, 'a.txt'), 'aaa');
+
+      const manifest = await getTransferManifest([join(testDir, 'a.txt')]);
+      assert.strictEqual(manifest.roots, undefined);
+      assert.strictEqual(manifest.isDirectory, false);
+      assert.deepStrictEqual(manifest.entries.map((entry) => entry.path), ['a.txt']);
+    });
+
+    it('should pack and extract files and folders with the same name', async () => {
+      await mkdir(join(testDir, 'one', 'out'), { recursive: true });
+      await mkdir(join(testDir, 'two'));
+      await writeFile(join(testDir, 'one', 'out', 'data.txt'), 'folder');
+      await writeFile(join(testDir, 'two', 'out'), 'file');
+
+      await pipeline(
+        createPackStream([join(testDir, 'one', 'out'), join(testDir, 'two', 'out')]),
+        createExtractStream(outputDir)
+      );
+
+      assert.deepStrictEqual((await readdir(outputDir)).sort(), ['out', 'out (2)']);
+      assert.strictEqual(await readFile(join(outputDir, 'out', 'data.txt'), 'utf-8'), 'folder');
+      assert.strictEqual(await readFile(join(outputDir, 'out (2)'), 'utf-8'), 'file');
+    });
+  });
+
+  describe('Extraction sandbox', () => {
+    // The output folder sits inside a scratch folder, so escapes land
+    // somewhere we can look
+    let outside: string;
+    let root: string;
+    let rejected: UnsafeEntryError[];
+
+    beforeEach(async () => {
+      outside = join(outputDir, 'outside');
+      root = join(outputDir, 'root');
+      await mkdir(outside);
+      await mkdir(root);
+      rejected = [];
+    });
+
+    const extractInto = (entries: Parameters<typeof hostileTar>[0]) =>
+      pipeline(hostileTar(entries), createExtractStream(root, { onReject: (err) => rejected.push(err) }));
+
+    it('should reject .. segments and keep going', async () => {
+      await extractInto([
+        { name: '../outside/evil.txt', content: 'pwned' },
+        { name: 'a/../../outside/evil2.txt', content: 'pwned' },
+        { name: 'ok.txt', content: 'fine' },
+      ]);
+
+      assert.deepStrictEqual(await readdir(outside), []);
+      assert.deepStrictEqual(rejected.map((err) => err.path), ['../outside/evil.txt', 'a/../../outside/evil2.txt']);
+      assert.match(rejected[0].reason, /leaves the output directory/);
+      assert.strictEqual(await readFile(join(root, 'ok.txt'), 'utf-8'), 'fine');
+    });
+
+    it('should treat backslashes as separators', async () => {
+      await extractInto([{ name: '..\\outside\\evil.txt', content: 'pwned' }]);
+
+      assert.deepStrictEqual(await readdir(outside), []);
+      assert.strictEqual(rejected.length, 1);
+    });
+
+    it('should extract absolute names inside the output directory', async () => {
+      await extractInto([
+        { name: '/abs/file.txt', content: 'one' },
+        { name: 'C:/drive/file.txt', content: 'two' },
+      ]);
+
+      assert.strictEqual(await readFile(join(root, 'abs', 'file.txt'), 'utf-8'), 'one');
+      assert.strictEqual(await readFile(join(root, 'drive', 'file.txt'), 'utf-8'), 'two');
+      assert.deepStrictEqual(rejected, []);
+    });
+
+    it('should take ./ as the root and reject a bare ..', async () => {
+      await extractInto([
+        { name: './', type: 'directory' },
+        { name: '..', type: 'directory' },
+        { name: './inside.txt', content: 'fine' },
+      ]);
+
+      assert.deepStrictEqual(await readdir(root), ['inside.txt']);
+      assert.deepStrictEqual(rejected.map((err) => err.path), ['..']);
+    });
+
+    it('should not write through a symlinked folder in the output directory', async () => {
+      await symlink(outside, join(root, 'link'));
+      await extractInto([
+        { name: 'link/evil.txt', content: 'pwned' },
+        { name: 'link/sub/', type: 'directory' },
+      ]);
+
+      assert.deepStrictEqual(await readdir(outside), []);
+      assert.strictEqual(rejected.length, 2);
+      assert.match(rejected[0].reason, /link is a symlink/);
+    });
+
+    it('should not write through a symlinked file', async () => {
+      const secret = join(outside, 'secret.txt');
+      await writeFile(secret, 'original');
+      await symlink(secret, join(root, 'target.txt'));
+      await extractInto([{ name: 'target.txt', content: 'pwned' }]);
+
+      assert.strictEqual(await readFile(secret, 'utf-8'), 'original');
+      assert.match(rejected[0].reason, /is a symlink/);
+    });
+
+    it('should replace a hardlinked file instead of writing into it', async () => {
+      const secret = join(outside, 'secret.txt');
+      await writeFile(secret, 'original');
+      await link(secret, join(root, 'shared.txt'));
+      await extractInto([{ name: 'shared.txt', content: 'new' }]);
+
+      assert.strictEqual(await readFile(secret, 'utf-8'), 'original');
+      assert.strictEqual(await readFile(join(root, 'shared.txt'), 'utf-8'), 'new');
+    });
+
+    it('should not follow a symlink planted by an earlier entry', async () => {
+      await extractInto([
+        { name: 'escape', type: 'symlink', linkname: outside },
+        { name: 'escape/evil.txt', content: 'pwned' },
+      ]);
+
+      assert.deepStrictEqual(await readdir(outside), []);
+      assert.strictEqual(rejected[0].path, 'escape');
+      // With the link refused, the file lands in a real folder instead
+      assert.strictEqual(await readFile(join(root, 'escape', 'evil.txt'), 'utf-8'), 'pwned');
+    });
+
+    it('should reject device and special entries', async () => {
+      await extractInto([
+        { name: 'null', type: 'character-device' },
+        { name: 'disk', type: 'block-device' },
+        { name: 'pipe', type: 'fifo' },
+      ]);
+
+      assert.deepStrictEqual(await readdir(root), []);
+      assert.deepStrictEqual(rejected.map((err) => err.reason), [
+        'device files are not extracted',
+        'device files are not extracted',
+        'special files are not extracted',
+      ]);
+    });
+
+    it('should only create symlinks that stay inside the output directory', async () => {
+      await extractInto([
+        { name: 'abs', type: 'symlink', linkname: '/etc/passwd' },
+        { name: 'drive', type: 'symlink', linkname: 'C:\\Windows' },
+        { name: 'up', type: 'symlink', linkname: '../outside' },
+        { name: 'sub/deep', type: 'symlink', linkname: '../../outside' },
+        { name: 'sub/twisty', type: 'symlink', linkname: 'inner/../..' },
+        { name: 'sub/parent', type: 'symlink', linkname: '..' },
+        { name: 'sub/sibling', type: 'symlink', linkname: '../other/./file.txt' },
+      ]);
+
+      assert.deepStrictEqual(rejected.map((err) => [err.path, err.reason]), [
+        ['abs', 'link points to an absolute path'],
+        ['drive', 'link points to an absolute path'],
+        ['up', 'link points outside the output directory'],
+        ['sub/deep', 'link points outside the output directory'],
+        ['sub/twisty', "link target has '..' after a folder name"],
+      ]);
+      assert.deepStrictEqual((await readdir(root)).sort(), ['sub']);
+      assert.deepStrictEqual((await readdir(join(root, 'sub'))).sort(), ['parent', 'sibling']);
+      assert.strictEqual(await readlink(join(root, 'sub', 'sibling')), '../other/./file.txt');
+    });
+
+    it('should replace a symlink with a new one, but not a folder', async () => {
+      await mkdir(join(root, 'taken'));
+      await extractInto([
+        { name: 'current', type: 'symlink', linkname: 'v1' },
+        { name: 'current', type: 'symlink', linkname: 'v2' },
+        { name: 'taken', type: 'symlink', linkname: 'v2' },
+      ]);
+
+      assert.strictEqual(await readlink(join(root, 'current')), 'v2');
+      assert.ok((await lstat(join(root, 'taken'))).isDirectory());
+      assert.match(rejected[0].reason, /taken is a folder/);
+    });
+
+    it('should only hardlink files extracted inside the output directory', async () => {
+      await writeFile(join(outside, 'secret.txt'), 'secret');
+      await extractInto([
+        { name: 'ok.txt', content: 'fine' },
+        { name: 'same.txt', type: 'link', linkname: 'ok.txt' },
+        { name: 'escape.txt', type: 'link', linkname: '../outside/secret.txt' },
+        { name: 'missing.txt', type: 'link', linkname: 'nope.txt' },
+        { name: 'soft', type: 'symlink', linkname: 'ok.txt' },
+        { name: 'via-soft.txt', type: 'link', linkname: 'soft' },
+      ]);
+
+      assert.strictEqual((await stat(join(root, 'same.txt'))).ino, (await stat(join(root, 'ok.txt'))).ino);
+      assert.deepStrictEqual(rejected.map((err) => err.path), ['escape.txt', 'missing.txt', 'via-soft.txt']);
+      assert.match(rejected[0].reason, /leaves the output directory/);
+      assert.match(rejected[1].reason, /nope.txt is not a file/);
+      assert.strictEqual((await stat(join(outside, 'secret.txt'))).nlink, 1);
+    });
+
+    it('should reject a file where a folder is in the way', async () => {
+      await mkdir(join(root, 'taken'));
+      await writeFile(join(root, 'plain'), 'file');
+      await extractInto([
+        { name: 'taken', content: 'pwned' },
+        { name: 'plain/inner.txt', content: 'pwned' },
+      ]);
+
+      assert.ok((await stat(join(root, 'taken'))).isDirectory());
+      assert.strictEqual(await readFile(join(root, 'plain'), 'utf-8'), 'file');
+      assert.match(rejected[0].reason, /is a folder/);
+      assert.match(rejected[1].reason, /plain is not a folder/);
+    });
+
+    it('should accept a symlinked output directory', async () => {
+      const linked = join(outputDir, 'linked-root');
+      await symlink(root, linked);
+      await pipeline(hostileTar([{ name: 'in.txt', content: 'yes' }]), createExtractStream(linked));
+
+      assert.strictEqual(await readFile(join(root, 'in.txt'), 'utf-8'), 'yes');
+      assert.ok(await exists(join(linked, 'in.txt')));
+    });
+  });
 });
@@ -1,8 +1,15 @@
 import { Readable, Writable } from 'node:stream';
-import { createReadStream, createWriteStream } from 'node:fs';
-import { readdir, stat, mkdir } from 'node:fs/promises';
-import { join, dirname, relative, basename, isAbsolute, sep } from 'node:path';
+import { createReadStream, createWriteStream, type Dirent, type Stats } from 'node:fs';
+import { readdir, stat, lstat, readlink } from 'node:fs/promises';
+import { join, dirname, relative, basename, extname, resolve as resolvePath, sep } from 'node:path';
 import tarStream from 'tar-stream';
+import { createSandbox, UnsafeEntryError } from './sandbox.js';
+import {
+  createAttributeRestorer,
+  WRITING_FILE_MODE,
+  WRITING_FOLDER_MODE,
+  type AttributeRestorer,
+} from './attributes.js';
 
 // Use the Header type from our declaration file
 type Header = {
@@ -10,7 +17,10 @@ type Header = {
   size?: number;
   mode?: number;
   mtime?: Date;
+  uid?: number;
+  gid?: number;
   type?: 'file' | 'directory' | string;
+  linkname?: string;
 };
 
 /**
@@ -23,140 +33,412 @@ export interface TransferMetadata {
 }
 
 /**
- * Get metadata about the transfer source (file or directory)
- * @param sourcePath - Path to file or directory
- * @returns Metadata including total size, file count, and whether it's a directory
+ * One entry in a transfer manifest, named as it will appear in the tar
+ */
+export interface ManifestEntry {
+  path: string;
+  size: number;
+  mtime: number; // Milliseconds since the epoch, as seen by the sender
+  type: 'file' | 'directory' | 'symlink';
+}
+
+/**
+ * Everything the receiver is about to get, sent before any data
+ */
+export interface TransferManifest extends TransferMetadata {
+  entries: ManifestEntry[];
+  roots?: string[]; // Top-level names, when several paths are sent at once (see packRoots)
+}
+
+/**
+ * One of several paths sent together, and the name it goes under
+ */
+export interface PackRoot {
+  path: string;
+  name: string;
+}
+
+/**
+ * Top-level names for the paths of a transfer
+ *
+ * Every path goes under its own name. When two share one (`a/out.zip`
+ * and `b/out.zip`), the later ones get a number: `out (2).zip`. Names are
+ * compared ignoring case, for receivers whose file system does. The same
+ * path given twice is only sent once.
+ */
+export function packRoots(paths: string[]): PackRoot[] {
+  const roots: PackRoot[] = [];
+  const seen = new Set<string>();
+  const taken = new Set<string>();
+
+  for (const path of paths) {
+    const full = resolvePath(path);
+    if (seen.has(full)) continue;
+    seen.add(full);
+
+    const base = basename(full) || 'root';
+    const ext = extname(base);
+    let name = base;
+    for (let copy = 2; taken.has(name.toLowerCase()); copy++) {
+      name = `${base.slice(0, base.length - ext.length)} (${copy})${ext}`;
+    }
+    taken.add(name.toLowerCase());
+    roots.push({ path, name });
+  }
+  return roots;
+}
+
+/**
+ * The roots of a transfer of several paths, or null for just one
+ */
+function multipleRoots(source: string | string[]): PackRoot[] | null {
+  if (typeof source === 'string') return null;
+  const roots = packRoots(source);
+  return roots.length > 1 ? roots : null;
+}
+
+/**
+ * What to do with symlinks inside a folder being sent
+ *   - keep: send the link itself, for the receiver to recreate
+ *   - follow: send what it points to, as a file or folder. A link to a
+ *     folder we're already inside (a loop) or to nothing is kept as a link.
+ */
+export type SymlinkMode = 'keep' | 'follow';
+
+/**
+ * How to pack one folder entry
+ */
+export type SourceEntry =
+  | { type: 'file' | 'directory'; stats: Stats }
+  | { type: 'symlink'; stats: Stats; target: string };
+
+/**
+ * Identifies a file or folder on disk, however it's reached
  */
-export async function getTransferMetadata(sourcePath: string): Promise<TransferMetadata> {
-  const stats = await stat(sourcePath);
+export function inodeKey(stats: Stats): string {
+  return `${stats.dev}:${stats.ino}`;
+}
 
-  if (!stats.isDirectory()) {
-    // Single file
-    return {
-      totalSize: stats.size,
-      fileCount: 1,
-      isDirectory: false,
-    };
+/**
+ * Work out how to pack a folder entry
+ *
+ * @param ancestors - inodeKey of every folder we're inside, to spot loops
+ * @returns null for entries that aren't sent (sockets, devices, FIFOs)
+ */
+export async function sourceEntry(
+  fullPath: string,
+  entry: Dirent,
+  symlinks: SymlinkMode,
+  ancestors: Set<string>
+): Promise<SourceEntry | null> {
+  if (entry.isSymbolicLink()) {
+    if (symlinks === 'follow') {
+      const followed = await stat(fullPath).catch(() => null);
+      if (followed?.isFile()) {
+        return { type: 'file', stats: followed };
+      }
+      if (followed?.isDirectory() && !ancestors.has(inodeKey(followed))) {
+        return { type: 'directory', stats: followed };
+      }
+      if (followed && !followed.isDirectory()) {
+        return null;
+      }
+    }
+    return { type: 'symlink', stats: await lstat(fullPath), target: await readlink(fullPath) };
   }
 
-  // Directory - walk recursively to count files and total size
+  if (entry.isDirectory()) {
+    return { type: 'directory', stats: await stat(fullPath) };
+  }
+  if (entry.isFile()) {
+    return { type: 'file', stats: await stat(fullPath) };
+  }
+  return null;
+}
+
+/**
+ * Build the manifest for a file or directory, or several
+ *
+ * A single path lists a file under its name, and a folder (with an entry
+ * of its own) and its contents under the folder's name. Several paths each
+ * go under their own top-level name (see packRoots).
+ *
+ * @param source - Path to file or directory, or several
+ * @param options - Entry filter and symlink handling, as for createPackStream
+ * @returns Entries (paths as packed by createPackStream) plus totals
+ */
+export async function getTransferManifest(
+  source: string | string[],
+  options: Pick<PackOptions, 'filter' | 'symlinks'> = {}
+): Promise<TransferManifest> {
+  const { filter = () => true, symlinks = 'keep' } = options;
+  const roots = multipleRoots(source);
+  const entries: ManifestEntry[] = [];
   let totalSize = 0;
   let fileCount = 0;
 
-  async function walk(currentPath: string): Promise<void> {
-    const entries = await readdir(currentPath, { withFileTypes: true });
+  const addFile = (tarPath: string, stats: Stats) => {
+    entries.push({ path: tarPath, size: stats.size, mtime: stats.mtimeMs, type: 'file' });
+    totalSize += stats.size;
+    fileCount++;
+  };
 
-    for (const entry of entries) {
-      const fullPath = join(currentPath, entry.name);
+  /**
+   * List a folder's contents, named `prefix` + their path from `basePath`
+   */
+  async function walk(currentPath: string, basePath: string, prefix: string, ancestors: Set<string>): Promise<void> {
+    const dirEntries = await readdir(currentPath, { withFileTypes: true });
 
-      if (entry.isDirectory()) {
-        await walk(fullPath);
-      } else if (entry.isFile()) {
-        const fileStats = await stat(fullPath);
-        totalSize += fileStats.size;
-        fileCount++;
+    for (const entry of dirEntries) {
+      const fullPath = join(currentPath, entry.name);
+      const tarPath = prefix + relative(basePath, fullPath).split(sep).join('/');
+      const source = await sourceEntry(fullPath, entry, symlinks, ancestors);
+      if (!source || !filter(source.type === 'directory' ? tarPath + '/' : tarPath)) continue;
+
+      if (source.type === 'directory') {
+        entries.push({ path: tarPath + '/', size: 0, mtime: source.stats.mtimeMs, type: 'directory' });
+        ancestors.add(inodeKey(source.stats));
+        await walk(fullPath, basePath, prefix, ancestors);
+        ancestors.delete(inodeKey(source.stats));
+      } else if (source.type === 'file') {
+        addFile(tarPath, source.stats);
+      } else {
+        entries.push({ path: tarPath, size: 0, mtime: source.stats.mtimeMs, type: 'symlink' });
       }
     }
   }
 
-  await walk(sourcePath);
+  if (!roots) {
+    const sourcePath = typeof source === 'string' ? source : source[0];
+    const stats = await stat(sourcePath);
+
+    if (!stats.isDirectory()) {
+      // Single file
+      return {
+        totalSize: stats.size,
+        fileCount: 1,
+        isDirectory: false,
+        entries: [{ path: basename(sourcePath), size: stats.size, mtime: stats.mtimeMs, type: 'file' }],
+      };
+    }
+
+    // Directory - the folder itself, then walk recursively to list files
+    // and directories
+    const rootPath = basename(sourcePath) + '/';
+    if (filter(rootPath)) {
+      entries.push({ path: rootPath, size: 0, mtime: stats.mtimeMs, type: 'directory' });
+      await walk(sourcePath, dirname(sourcePath), '', new Set([inodeKey(stats)]));
+    }
+    return { totalSize, fileCount, isDirectory: true, entries };
+  }
+
+  // Several paths, each under its own name
+  for (const root of roots) {
+    const stats = await stat(root.path);
+    if (stats.isDirectory()) {
+      if (!filter(root.name + '/')) continue;
+      entries.push({ path: root.name + '/', size: 0, mtime: stats.mtimeMs, type: 'directory' });
+      await walk(root.path, root.path, root.name + '/', new Set([inodeKey(stats)]));
+    } else if (filter(root.name)) {
+      addFile(root.name, stats);
+    }
+  }
 
   return {
     totalSize,
     fileCount,
     isDirectory: true,
+    entries,
+    roots: roots.map((root) => root.name),
   };
 }
 
+/**
+ * Get metadata about the transfer source (file or directory, or several)
+ * @param source - Path to file or directory, or several
+ * @param options - Entry filter and symlink handling, as for createPackStream
+ * @returns Metadata including total size, file count, and whether it's a directory
+ *   (several paths count as one)
+ */
+export async function getTransferMetadata(
+  source: string | string[],
+  options: Pick<PackOptions, 'filter' | 'symlinks'> = {}
+): Promise<TransferMetadata> {
+  const { totalSize, fileCount, isDirectory } = await getTransferManifest(source, options);
+  return { totalSize, fileCount, isDirectory };
+}
+
+/**
+ * Options for createPackStream
+ */
+export interface PackOptions {
+  /**
+   * Decide whether to pack an entry, given its tar path (folders end in '/').
+   * Skipping a folder skips everything inside it.
+   */
+  filter?: (tarPath: string) => boolean;
+  /**
+   * Start one file part-way through, when the receiver already has its
+   * first `offset` bytes. The entry then holds only the rest of the file.
+   */
+  resume?: { path: string; offset: number };
+  symlinks?: SymlinkMode; // Default: keep
+}
+
 /**
  * Create a readable stream that packs a file or directory into tar format
- * @param sourcePath - Path to file or directory to pack
+ *
+ * Several paths go into one tar, each under its own top-level name (see
+ * packRoots), in the same order as getTransferManifest lists them.
+ *
+ * A file with several names (hardlinks) is packed once; its other names
+ * go out as link entries pointing at the first, which the receiver links
+ * instead of writing the data again. With parallel streams each stream
+ * does this for the files it packs itself.
+ *
+ * @param source - Path to file or directory to pack, or several
+ * @param options - Optional entry filter, resume point and symlink handling
  * @returns Readable stream of tar data
  */
-export function createPackStream(sourcePath: string): Readable {
+export function createPackStream(source: string | string[], options: PackOptions = {}): Readable {
+  const { filter = () => true, resume, symlinks = 'keep' } = options;
+  const startOf = (tarPath: string) => (resume && resume.path === tarPath ? resume.offset : 0);
   const pack = tarStream.pack();
 
-  // Start packing asynchronously
-  (async () => {
-    try {
-      const stats = await stat(sourcePath);
-
-      if (!stats.isDirectory()) {
-        // Single file - add it directly with just the filename (no path)
-        const relativeName = basename(sourcePath);
-        const fileStream = createReadStream(sourcePath);
-
-        const entry = pack.entry({
-          name: relativeName,
-          size: stats.size,
-          mode: stats.mode,
-          mtime: stats.mtime,
-        });
+  // Add an entry that has no data
+  const addEntry = (header: Header) =>
+    new Promise<void>((resolve, reject) => {
+      pack.entry(header, (err?: Error) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+
+  // Tar path each file was first packed under (a followed symlink can
+  // reach the same file again, as well as a hardlink)
+  const packedAs = new Map<string, string>();
+
+  const addFile = async (fullPath: string, tarPath: string, fileStats: Stats): Promise<void> => {
+    // Another name for a file already in this tar: link to it
+    const first = packedAs.get(inodeKey(fileStats));
+    if (first) {
+      await addEntry({
+        name: tarPath,
+        type: 'link',
+        linkname: first,
+        mode: fileStats.mode,
+        mtime: fileStats.mtime,
+        uid: fileStats.uid,
+        gid: fileStats.gid,
+      });
+      return;
+    }
+    packedAs.set(inodeKey(fileStats), tarPath);
+
+    const start = startOf(tarPath);
+    const fileStream = createReadStream(fullPath, { start });
+
+    const tarEntry = pack.entry({
+      name: tarPath,
+      size: fileStats.size - start,
+      mode: fileStats.mode,
+      mtime: fileStats.mtime,
+      uid: fileStats.uid,
+      gid: fileStats.gid,
+    });
+
+    fileStream.pipe(tarEntry);
+
+    await new Promise<void>((resolve, reject) => {
+      tarEntry.on('finish', resolve);
+      tarEntry.on('error', reject);
+      fileStream.on('error', reject);
+    });
+  };
 
-        fileStream.pipe(entry);
+  const addFolder = (tarPath: string, stats: Stats) =>
+    addEntry({
+      name: tarPath + '/',
+      type: 'directory',
+      mode: stats.mode,
+      mtime: stats.mtime,
+      uid: stats.uid,
+      gid: stats.gid,
+    });
+
+  // Directory - walk recursively and add all files and directories, named
+  // `prefix` + their path from `basePath`
+  async function addDirectory(currentPath: string, basePath: string, prefix: string, ancestors: Set<string>): Promise<void> {
+    const entries = await readdir(currentPath, { withFileTypes: true });
 
-        await new Promise<void>((resolve, reject) => {
-          entry.on('finish', resolve);
-          entry.on('error', reject);
-          fileStream.on('error', reject);
+    for (const entry of entries) {
+      const fullPath = join(currentPath, entry.name);
+      const relativePath = relative(basePath, fullPath);
+      // Normalize to forward slashes for tar format (cross-platform compatibility)
+      const tarPath = prefix + relativePath.split(sep).join('/');
+      const source = await sourceEntry(fullPath, entry, symlinks, ancestors);
+
+      if (source?.type === 'directory') {
+        if (!filter(tarPath + '/')) continue;
+        await addFolder(tarPath, source.stats);
+
+        // Recursively add subdirectory contents
+        ancestors.add(inodeKey(source.stats));
+        await addDirectory(fullPath, basePath, prefix, ancestors);
+        ancestors.delete(inodeKey(source.stats));
+      } else if (source?.type === 'symlink') {
+        if (!filter(tarPath)) continue;
+
+        await addEntry({
+          name: tarPath,
+          type: 'symlink',
+          linkname: source.target,
+          mode: source.stats.mode,
+          mtime: source.stats.mtime,
+          uid: source.stats.uid,
+          gid: source.stats.gid,
         });
-
-        pack.finalize();
-        return;
+      } else if (source?.type === 'file') {
+        if (!filter(tarPath)) continue;
+        await addFile(fullPath, tarPath, source.stats);
       }
+    }
+  }
 
-      // Directory - walk recursively and add all files and directories
-      async function addDirectory(currentPath: string, basePath: string): Promise<void> {
-        const entries = await readdir(currentPath, { withFileTypes: true });
-
-        for (const entry of entries) {
-          const fullPath = join(currentPath, entry.name);
-          const relativePath = relative(basePath, fullPath);
-          // Normalize to forward slashes for tar format (cross-platform compatibility)
-          const tarPath = relativePath.split(sep).join('/');
-
-          if (entry.isDirectory()) {
-            // Add directory entry
-            const dirStats = await stat(fullPath);
-
-            await new Promise<void>((resolve, reject) => {
-              pack.entry({
-                name: tarPath + '/',
-                type: 'directory',
-                mode: dirStats.mode,
-                mtime: dirStats.mtime,
-              }, (err?: Error) => {
-                if (err) reject(err);
-                else resolve();
-              });
-            });
-
-            // Recursively add subdirectory contents
-            await addDirectory(fullPath, basePath);
-          } else if (entry.isFile()) {
-            // Add file entry
-            const fileStats = await stat(fullPath);
-            const fileStream = createReadStream(fullPath);
-
-            const tarEntry = pack.entry({
-              name: tarPath,
-              size: fileStats.size,
-              mode: fileStats.mode,
-              mtime: fileStats.mtime,
-            });
+  // Start packing asynchronously
+  (async () => {
+    try {
+      const roots = multipleRoots(source);
 
-            fileStream.pipe(tarEntry);
+      if (!roots) {
+        const sourcePath = typeof source === 'string' ? source : source[0];
+        const stats = await stat(sourcePath);
 
-            await new Promise<void>((resolve, reject) => {
-              tarEntry.on('finish', resolve);
-              tarEntry.on('error', reject);
-              fileStream.on('error', reject);
-            });
+        if (!stats.isDirectory()) {
+          // Single file - add it directly with just the filename (no path)
+          const relativeName = basename(sourcePath);
+          if (filter(relativeName)) {
+            await addFile(sourcePath, relativeName, stats);
+          }
+        } else if (filter(basename(sourcePath) + '/')) {
+          // The folder itself first, for its mode and mtime
+          await addFolder(basename(sourcePath), stats);
+          await addDirectory(sourcePath, dirname(sourcePath), '', new Set([inodeKey(stats)]));
+        }
+      } else {
+        // Several paths, each under its own name (see packRoots)
+        for (const root of roots) {
+          const stats = await stat(root.path);
+          if (stats.isDirectory()) {
+            if (!filter(root.name + '/')) continue;
+            await addFolder(root.name, stats);
+            await addDirectory(root.path, root.path, root.name + '/', new Set([inodeKey(stats)]));
+          } else if (filter(root.name)) {
+            await addFile(root.path, root.name, stats);
           }
         }
       }
 
-      await addDirectory(sourcePath, dirname(sourcePath));
       pack.finalize();
     } catch (error) {
       pack.destroy(error as Error);
@@ -166,62 +448,179 @@ export function createPackStream(sourcePath: string): Readable {
   return pack;
 }
 
+/**
+ * Watches file contents as they are extracted (used by the resume journal)
+ */
+export interface ExtractTracker {
+  start(tarPath: string, offset: number): void;
+  data(chunk: Buffer): void;
+  end(): Promise<void>;
+}
+
+/**
+ * Options for createExtractStream
+ */
+export interface ExtractOptions {
+  /**
+   * Continue a partially received file: its entry holds the bytes from
+   * `offset` on, and is written after the first `offset` bytes on disk.
+   */
+  resume?: { path: string; offset: number };
+  tracker?: ExtractTracker;
+  /**
+   * Called for each entry the sandbox refused (see sandbox.ts); the entry
+   * is skipped and extraction carries on
+   */
+  onReject?: (rejected: UnsafeEntryError) => void;
+  /**
+   * Sets modes, mtimes and owners (see attributes.ts). Share one between
+   * every stream of a transfer and call its finish() when all are done;
+   * without one, the stream sets its own folders' attributes as it ends.
+   */
+  attributes?: AttributeRestorer;
+}
+
+/**
+ * Why an entry of this type is never extracted
+ */
+function unsupportedReason(type: string | undefined): string {
+  switch (type) {
+    case 'character-device':
+    case 'block-device':
+      return 'device files are not extracted';
+    case 'fifo':
+      return 'special files are not extracted';
+    default:
+      return `unsupported entry type ${type}`;
+  }
+}
+
+/**
+ * A writable that feeds `target` and, once `target` has finished, runs
+ * `finish` before finishing itself
+ */
+function finishingWith(target: Writable, finish: () => Promise<void>): Writable {
+  const writable = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      if (target.write(chunk)) callback();
+      else target.once('drain', () => callback());
+    },
+    final(callback) {
+      target.once('finish', () => finish().then(() => callback(), callback));
+      target.end();
+    },
+    destroy(err, callback) {
+      target.destroy(err ?? undefined);
+      callback(err);
+    },
+  });
+  target.on('error', (err: Error) => writable.destroy(err));
+  return writable;
+}
+
 /**
  * Create a writable stream that extracts tar data to a destination directory
+ *
+ * Every entry goes through the extraction sandbox (see sandbox.ts): one
+ * that would land outside `destPath`, go through a symlink, or that is a
+ * device or other special file, is skipped and handed to options.onReject.
+ * So is a symlink that could point outside `destPath`, or a hardlink to
+ * anything but a file extracted there.
+ *
+ * Files and symlinks get their mode, mtime and owner once written;
+ * folders once everything else is (see options.attributes).
+ *
  * @param destPath - Destination directory for extracted files
+ * @param options - Optional resume point, progress tracker, reject callback
+ *   and attribute restorer
  * @returns Writable stream that accepts tar data
  */
-export function createExtractStream(destPath: string): Writable {
+export function createExtractStream(destPath: string, options: ExtractOptions = {}): Writable {
+  const { resume, tracker, onReject } = options;
   const extract = tarStream.extract();
+  const sandbox = createSandbox(destPath);
+  // Don't fail as unhandled before the first entry arrives
+  sandbox.catch(() => {});
 
-  extract.on('entry', (header: Header, stream: Readable, next: (err?: Error) => void) => {
-    // Sanitize the entry name to prevent path traversal and absolute paths
-    let entryName = header.name;
-
-    // Remove any absolute path prefix (Windows or Unix)
-    // Strip drive letters like C:, D:, etc.
-    entryName = entryName.replace(/^[a-zA-Z]:/, '');
-    // Strip leading slashes
-    entryName = entryName.replace(/^[/\\]+/, '');
-
-    // Convert tar's forward slashes to platform-specific separators
-    const normalizedName = entryName.split('/').join(sep);
+  const attributes = options.attributes ?? createAttributeRestorer();
 
-    const outputPath = join(destPath, normalizedName);
-
-    // Ensure parent directory exists
+  extract.on('entry', (header: Header, stream: Readable, next: (err?: Error) => void) => {
     (async () => {
       try {
-        const parentDir = dirname(outputPath);
-        await mkdir(parentDir, { recursive: true });
-
-        if (header.type === 'file') {
-          // Write file
-          const writeStream = createWriteStream(outputPath, {
-            mode: header.mode,
-          });
-
-          stream.pipe(writeStream);
+        const { resolve, makeDirectory, openFile, makeSymlink, makeHardlink } = await sandbox;
+        const outputPath = resolve(header.name);
+
+        if (header.type === 'file' && outputPath) {
+          // Write file, appending after what's already there when resuming
+          const offset = resume && resume.path === header.name ? resume.offset : 0;
+          const fd = await openFile(header.name, outputPath, { offset, mode: WRITING_FILE_MODE });
+          const writeStream = createWriteStream(outputPath, { fd, start: offset });
+
+          if (tracker) {
+            // Report each chunk only once it's written, so the tracker
+            // never runs ahead of what's on disk
+            tracker.start(header.name, offset);
+            stream.on('data', (chunk: Buffer) => {
+              const ok = writeStream.write(chunk, (err) => {
+                if (!err) tracker.data(chunk);
+              });
+              if (!ok) {
+                stream.pause();
+                writeStream.once('drain', () => stream.resume());
+              }
+            });
+            stream.on('end', () => writeStream.end());
+          } else {
+            stream.pipe(writeStream);
+          }
 
           await new Promise<void>((resolve, reject) => {
             writeStream.on('finish', resolve);
             writeStream.on('error', reject);
             stream.on('error', reject);
           });
+          await attributes.restore(outputPath, header);
+
+          if (tracker) {
+            await tracker.end();
+          }
         } else if (header.type === 'directory') {
-          // Create directory
-          await mkdir(outputPath, { recursive: true, mode: header.mode });
+          // The root itself ('./') is already there
+          if (outputPath) {
+            await makeDirectory(header.name, outputPath, WRITING_FOLDER_MODE);
+            attributes.defer(outputPath, header);
+          }
           stream.resume(); // Drain the stream
+        } else if ((header.type === 'symlink' || header.type === 'link') && outputPath) {
+          if (header.type === 'symlink') {
+            await makeSymlink(header.name, outputPath, header.linkname ?? '');
+            await attributes.restore(outputPath, header);
+          } else {
+            // Shares the file's attributes
+            await makeHardlink(header.name, outputPath, header.linkname ?? '');
+          }
+          stream.resume();
+        } else if (header.type === 'file' || header.type === 'symlink' || header.type === 'link') {
+          throw new UnsafeEntryError(header.name, 'entry has no name');
         } else {
-          stream.resume(); // Skip unsupported types
+          throw new UnsafeEntryError(header.name, unsupportedReason(header.type));
         }
 
         next();
       } catch (error) {
+        if (error instanceof UnsafeEntryError) {
+          // Skip the entry's data and carry on with the next one
+          onReject?.(error);
+          stream.on('end', () => next());
+          stream.resume();
+          return;
+        }
         next(error as Error);
       }
     })();
   });
 
-  return extract;
+  // A restorer of our own finishes our folders after the last entry,
+  // before the stream finishes; a shared one is the caller's to finish
+  return options.attributes ? extract : finishingWith(extract, () => attributes.finish());
 }
@@ -0,0 +1,153 @@
+/**
+ * Direct TCP transport
+ *
+ * For networks without DHT access (isolated labs, air-gapped LANs) and for
+ * tests. One side listens on a port, the other connects to it; which side
+ * does which is independent of who sends. There is no discovery, so the
+ * topic plays no part: the session handshake that follows still proves
+ * both sides hold the same share key.
+ */
+
+import { createServer, connect, type Server, type Socket } from 'node:net';
+import type { Duplex } from 'node:stream';
+import type { Transport } from './transport.js';
+import { createPeerQueue } from './peerQueue.js';
+import { formatDuration } from './duration.js';
+
+// Constants
+const CONNECTION_TIMEOUT = 30000; // 30 seconds
+
+export interface HostPort {
+  host?: string; // Omitted when listening on all interfaces
+  port: number;
+}
+
+export type TcpOptions = { listen: HostPort } | { connect: HostPort };
+
+/**
+ * Parse "host:port", ":port" or "[v6]:port"
+ *
+ * @throws Error if the port is missing or out of range
+ */
+export function parseHostPort(value: string): HostPort {
+  const match = /^(?:\[([^\]]+)\]|([^:]*)):(\d+)$/.exec(value.trim());
+  const port = match ? Number(match[3]) : NaN;
+  if (!match || !Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid address "${value}": expected host:port or :port`);
+  }
+  const host = match[1] ?? match[2];
+  return { host: host || undefined, port };
+}
+
+function formatHostPort({ host, port }: HostPort): string {
+  const name = host ?? '0.0.0.0';
+  return name.includes(':') ? `[${name}]:${port}` : `${name}:${port}`;
+}
+
+function tune(socket: Socket): Socket {
+  socket.setNoDelay(true);
+  socket.setKeepAlive(true);
+  return socket;
+}
+
+/**
+ * Listen for peers on a TCP port
+ */
+async function listenTransport(address: HostPort): Promise<Transport & { address: HostPort }> {
+  const server: Server = createServer();
+  const sockets = new Set<Socket>();
+  const peers = createPeerQueue<Socket>();
+
+  server.on('connection', (socket) => {
+    tune(socket);
+    sockets.add(socket);
+    socket.once('close', () => sockets.delete(socket));
+    peers.push(socket);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(address.port, address.host, () => {
+      server.removeListener('error', reject);
+      resolve();
+    });
+  });
+
+  const bound = server.address();
+  const actual: HostPort = typeof bound === 'object' && bound
+    ? { host: address.host, port: bound.port }
+    : address;
+
+  return {
+    description: `TCP, listening on ${formatHostPort(actual)}`,
+    address: actual,
+
+    waitForPeer(timeout = CONNECTION_TIMEOUT): Promise<Duplex> {
+      return peers.next(timeout, () => new Error(
+        `Connection timeout after ${formatDuration(timeout)}. ` +
+        `No peer connected to ${formatHostPort(actual)}.`
+      ));
+    },
+
+    onPeer(handler: (socket: Duplex) => void): () => void {
+      return peers.subscribe(handler);
+    },
+
+    async close(): Promise<void> {
+      for (const socket of sockets) socket.destroy();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Connect to a listening peer
+ */
+function connectTransport(address: HostPort): Transport {
+  const host = address.host ?? 'localhost';
+  const sockets = new Set<Socket>();
+
+  const dial = (timeout = CONNECTION_TIMEOUT): Promise<Duplex> =>
+    new Promise((resolve, reject) => {
+      const socket = connect({
+        host,
+        port: address.port,
+        timeout: Number.isFinite(timeout) ? timeout : undefined,
+      });
+      sockets.add(socket);
+      socket.once('close', () => sockets.delete(socket));
+
+      const onError = (err: Error) => {
+        socket.destroy();
+        reject(new Error(`Could not connect to ${formatHostPort({ host, port: address.port })}: ${err.message}`));
+      };
+      socket.once('error', onError);
+      socket.once('timeout', () => onError(new Error('timed out')));
+      socket.once('connect', () => {
+        socket.removeListener('error', onError);
+        socket.setTimeout(0);
+        resolve(tune(socket));
+      });
+    });
+
+  return {
+    description: `TCP, connecting to ${formatHostPort({ host, port: address.port })}`,
+
+    waitForPeer: dial,
+
+    onPeer(): () => void {
+      throw new Error('A connecting TCP transport has a single peer: use --listen to serve several');
+    },
+
+    async close(): Promise<void> {
+      for (const socket of sockets) socket.destroy();
+    },
+  };
+}
+
+/**
+ * Create a TCP transport that either listens or connects
+ */
+export async function createTcpTransport(options: TcpOptions): Promise<Transport & { address?: HostPort }> {
+  return 'listen' in options ? listenTransport(options.listen) : connectTransport(options.connect);
+}
@@ -0,0 +1,30 @@
+/**
+ * Shared helpers for tests that need a socket without a network
+ */
+
+import { Duplex } from 'node:stream';
+
+/**
+ * Two in-memory duplex streams wired back to back, standing in for a socket
+ */
+export function createDuplexPair(): [Duplex, Duplex] {
+  const make = (getPeer: () => Duplex) => new Duplex({
+    read() {},
+    write(chunk, _encoding, callback) {
+      getPeer().push(chunk);
+      callback();
+    },
+    final(callback) {
+      getPeer().push(null);
+      callback();
+    },
+    destroy(err, callback) {
+      getPeer().destroy();
+      callback(err);
+    },
+  });
+
+  const a: Duplex = make(() => b);
+  const b: Duplex = make(() => a);
+  return [a, b];
+}
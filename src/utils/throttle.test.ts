@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { pipeline } from 'node:stream/promises';
+import { Readable, Writable } from 'node:stream';
+import {
+  parseRate,
+  formatRate,
+  stepRate,
+  parseTimeOfDay,
+  rateAt,
+  createRateLimiter,
+  createThrottleStream,
+  RATE_STEPS,
+} from './throttle.js';
+
+const MB = 1024 * 1024;
+
+describe('Bandwidth limiting', () => {
+  describe('Rates', () => {
+    it('should parse rates with and without units', () => {
+      assert.strictEqual(parseRate('5MB/s'), 5 * MB);
+      assert.strictEqual(parseRate('500KB/s'), 500 * 1024);
+      assert.strictEqual(parseRate('1.5m'), 1.5 * MB);
+      assert.strictEqual(parseRate('800'), 800);
+      assert.strictEqual(parseRate('unlimited'), Infinity);
+    });
+
+    it('should reject anything else', () => {
+      assert.throws(() => parseRate('fast'), /Invalid rate/);
+      assert.throws(() => parseRate('5MB/min'), /Invalid rate/);
+      assert.throws(() => parseRate('0KB/s'), /more than zero/);
+    });
+
+    it('should format rates for the UI', () => {
+      assert.strictEqual(formatRate(5 * MB), '5 MB/s');
+      assert.strictEqual(formatRate(Infinity), 'unlimited');
+    });
+
+    it('should step through the +/- presets', () => {
+      assert.strictEqual(stepRate(5 * MB, 1), 10 * MB);
+      assert.strictEqual(stepRate(5 * MB, -1), 2 * MB);
+      assert.strictEqual(stepRate(3 * MB, -1), 2 * MB, 'Custom rates snap to the next step');
+      assert.strictEqual(stepRate(RATE_STEPS[RATE_STEPS.length - 1], 1), Infinity);
+      assert.strictEqual(stepRate(Infinity, -1), RATE_STEPS[RATE_STEPS.length - 1]);
+      assert.strictEqual(stepRate(RATE_STEPS[0], -1), RATE_STEPS[0]);
+    });
+  });
+
+  describe('Schedule', () => {
+    const at = (time: string) => new Date(`2026-01-01T${time}:00`);
+    const settings = {
+      limit: 2 * MB,
+      schedule: [
+        { from: parseTimeOfDay('22:00'), to: parseTimeOfDay('07:00'), limit: Infinity },
+        { from: parseTimeOfDay('12:00'), to: parseTimeOfDay('13:00'), limit: 10 * MB },
+      ],
+    };
+
+    it('should parse times of day', () => {
+      assert.strictEqual(parseTimeOfDay('07:30'), 450);
+      assert.throws(() => parseTimeOfDay('24:00'), /Invalid time/);
+      assert.throws(() => parseTimeOfDay('7pm'), /Invalid time/);
+    });
+
+    it('should apply the matching rule, including across midnight', () => {
+      assert.strictEqual(rateAt(settings, at('23:30')), Infinity);
+      assert.strictEqual(rateAt(settings, at('06:59')), Infinity);
+      assert.strictEqual(rateAt(settings, at('12:15')), 10 * MB);
+    });
+
+    it('should fall back to the default limit', () => {
+      assert.strictEqual(rateAt(settings, at('07:00')), 2 * MB);
+      assert.strictEqual(rateAt({}, at('09:00')), Infinity);
+    });
+  });
+
+  describe('Token bucket', () => {
+    it('should allow a burst, then make callers wait', () => {
+      let now = 0;
+      const limiter = createRateLimiter(1000, () => now);
+
+      assert.strictEqual(limiter.reserve(500), 0, 'Half a second of burst is free');
+      assert.strictEqual(limiter.reserve(250), 250);
+
+      now += 1000;
+      assert.strictEqual(limiter.reserve(250), 0, 'Debt paid off after a second');
+    });
+
+    it('should apply a new rate straight away', () => {
+      let now = 0;
+      const limiter = createRateLimiter(1000, () => now);
+      limiter.reserve(500);
+
+      limiter.setRate(100);
+      assert.strictEqual(limiter.reserve(100), 1000);
+
+      limiter.setRate(Infinity);
+      assert.strictEqual(limiter.reserve(10 * MB), 0);
+    });
+
+    it('should hold a stream to the limit', async () => {
+      const limiter = createRateLimiter(64 * 1024);
+      const chunks = Array.from({ length: 6 }, () => Buffer.alloc(16 * 1024));
+      let received = 0;
+
+      const start = Date.now();
+      await pipeline(
+        Readable.from(chunks),
+        createThrottleStream(limiter),
+        new Writable({
+          write(chunk, _encoding, callback) {
+            received += chunk.length;
+            callback();
+          },
+        })
+      );
+
+      // 96 KB at 64 KB/s with a 32 KB burst: about one second
+      assert.strictEqual(received, 96 * 1024);
+      assert.ok(Date.now() - start >= 900, `finished after ${Date.now() - start}ms`);
+    });
+  });
+});
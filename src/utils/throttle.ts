@@ -0,0 +1,207 @@
+/**
+ * Bandwidth limiting (--limit)
+ *
+ * A token bucket shared by every pipeline of a command, so serving several
+ * receivers still stays under one limit. Each pipeline gets its own
+ * Transform that holds chunks back until the bucket has paid for them.
+ * The rate can change at any time (the +/- keys, time-of-day rules).
+ *
+ * Rates are in bytes per second; Infinity means no limit.
+ */
+
+import { Transform } from 'node:stream';
+import { formatFileSize } from './fileSystem.js';
+
+// Constants
+const BURST_SECONDS = 0.5; // How far ahead of the average rate a burst may run
+
+// Steps for the +/- keys
+const KB = 1024;
+const MB = 1024 * KB;
+export const RATE_STEPS = [
+  64 * KB, 128 * KB, 256 * KB, 512 * KB,
+  1 * MB, 2 * MB, 5 * MB, 10 * MB, 20 * MB, 50 * MB, 100 * MB,
+];
+
+const UNITS: Record<string, number> = {
+  b: 1,
+  k: KB,
+  kb: KB,
+  m: MB,
+  mb: MB,
+  g: 1024 * MB,
+  gb: 1024 * MB,
+};
+
+/**
+ * A time-of-day rule from the config file
+ *
+ * `from` and `to` are minutes after midnight; a rule whose `to` is earlier
+ * than its `from` runs past midnight (22:00 to 07:00).
+ */
+export interface RateRule {
+  from: number;
+  to: number;
+  limit: number;
+}
+
+/**
+ * Where the limit comes from: a fixed limit, optionally overridden by
+ * time-of-day rules
+ */
+export interface RateSettings {
+  limit?: number; // Default when no rule matches (no limit if omitted)
+  schedule?: RateRule[]; // First matching rule wins
+}
+
+export interface RateLimiter {
+  readonly rate: number;
+  setRate(bytesPerSecond: number): void;
+
+  /**
+   * Take `bytes` out of the bucket
+   *
+   * @returns Milliseconds to wait before sending them
+   */
+  reserve(bytes: number): number;
+}
+
+/**
+ * Parse a rate like "5MB/s", "800KB/s", "1.5m" or "unlimited"
+ *
+ * A bare number is bytes per second.
+ *
+ * @throws Error if the value isn't a positive rate
+ */
+export function parseRate(value: string): number {
+  const text = value.trim().toLowerCase();
+  if (text === 'unlimited' || text === 'none' || text === 'off') return Infinity;
+
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?b?)(\/s)?$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid rate "${value}": expected e.g. 500KB/s, 5MB/s or unlimited`);
+  }
+  const rate = Math.round(Number(match[1]) * UNITS[match[2] || 'b']);
+  if (rate <= 0) {
+    throw new Error(`Invalid rate "${value}": must be more than zero`);
+  }
+  return rate;
+}
+
+/**
+ * Format a rate for the UI: "5 MB/s", "unlimited"
+ */
+export function formatRate(bytesPerSecond: number): string {
+  if (!Number.isFinite(bytesPerSecond)) return 'unlimited';
+  return `${formatFileSize(bytesPerSecond)}/s`;
+}
+
+/**
+ * Next rate for the +/- keys
+ *
+ * Moves to the neighbouring step; past the largest step is no limit, and
+ * lowering from no limit starts at the largest step.
+ */
+export function stepRate(current: number, direction: 1 | -1): number {
+  if (direction > 0) {
+    return RATE_STEPS.find((step) => step > current) ?? Infinity;
+  }
+  return [...RATE_STEPS].reverse().find((step) => step < current) ?? RATE_STEPS[0];
+}
+
+/**
+ * Parse a time of day "HH:MM" into minutes after midnight
+ *
+ * @throws Error if the value isn't a valid time
+ */
+export function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!(hours >= 0 && hours < 24 && minutes >= 0 && minutes < 60)) {
+    throw new Error(`Invalid time "${value}": expected HH:MM, e.g. 22:00`);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * The limit that applies at a given moment
+ */
+export function rateAt(settings: RateSettings, date: Date = new Date()): number {
+  const now = date.getHours() * 60 + date.getMinutes();
+  const rule = settings.schedule?.find(({ from, to }) =>
+    from <= to ? now >= from && now < to : now >= from || now < to
+  );
+  return rule?.limit ?? settings.limit ?? Infinity;
+}
+
+/**
+ * Create a token bucket
+ *
+ * Chunks bigger than the bucket are let through on credit: the debt is
+ * paid off before anything else goes out, so the average rate holds
+ * without splitting chunks.
+ *
+ * @param rate - Bytes per second (Infinity for no limit)
+ * @param clock - Current time in milliseconds (for tests)
+ */
+export function createRateLimiter(
+  rate: number,
+  clock: () => number = Date.now
+): RateLimiter {
+  let current = rate;
+  let tokens = Number.isFinite(rate) ? rate * BURST_SECONDS : 0;
+  let last = clock();
+
+  const refill = () => {
+    const now = clock();
+    if (Number.isFinite(current)) {
+      tokens = Math.min(current * BURST_SECONDS, tokens + ((now - last) / 1000) * current);
+    }
+    last = now;
+  };
+
+  return {
+    get rate() {
+      return current;
+    },
+
+    setRate(bytesPerSecond: number): void {
+      refill();
+      current = bytesPerSecond;
+      if (Number.isFinite(current)) {
+        tokens = Math.min(tokens, current * BURST_SECONDS);
+      }
+    },
+
+    reserve(bytes: number): number {
+      if (!Number.isFinite(current)) return 0;
+      refill();
+      tokens -= bytes;
+      return tokens >= 0 ? 0 : (-tokens / current) * 1000;
+    },
+  };
+}
+
+/**
+ * Transform that passes data through at the limiter's rate
+ */
+export function createThrottleStream(limiter: RateLimiter): Transform {
+  let timer: NodeJS.Timeout | undefined;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const delay = limiter.reserve(chunk.length);
+      if (delay <= 0) {
+        callback(null, chunk);
+        return;
+      }
+      timer = setTimeout(() => callback(null, chunk), delay);
+    },
+
+    destroy(err, callback) {
+      clearTimeout(timer);
+      callback(err);
+    },
+  });
+}
@@ -0,0 +1,156 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { pipeline } from 'node:stream/promises';
+import type { Duplex } from 'node:stream';
+import { openTransport, backoffDelay, waitForPeerWithRetry, type Transport } from './transport.js';
+import { parseHostPort, createTcpTransport } from './tcp.js';
+import { exchangeHello } from './protocol.js';
+import { establishSession } from './handshake.js';
+import { generateTopicKey, parseTopicKey, createEncryptStream, createDecryptStream } from './crypto.js';
+import { createPackStream, createExtractStream } from './tar.js';
+import { readExact } from './wire.js';
+
+describe('Transports', () => {
+  describe('parseHostPort', () => {
+    it('should parse host:port, :port and [v6]:port', () => {
+      assert.deepStrictEqual(parseHostPort('10.0.0.5:9000'), { host: '10.0.0.5', port: 9000 });
+      assert.deepStrictEqual(parseHostPort(':9000'), { host: undefined, port: 9000 });
+      assert.deepStrictEqual(parseHostPort('[::1]:9000'), { host: '::1', port: 9000 });
+    });
+
+    it('should reject addresses without a valid port', () => {
+      assert.throws(() => parseHostPort('localhost'), /Invalid address/);
+      assert.throws(() => parseHostPort('localhost:99999'), /Invalid address/);
+    });
+  });
+
+  describe('Retries', () => {
+    it('should back off exponentially up to a cap', () => {
+      assert.deepStrictEqual([1, 2, 3, 4, 5, 6].map((attempt) => backoffDelay(attempt)), [
+        1000, 2000, 4000, 8000, 15000, 15000,
+      ]);
+    });
+
+    it('should retry until a peer turns up', async () => {
+      const peer = {} as Duplex;
+      const attempts: number[] = [];
+      let calls = 0;
+      const transport: Transport = {
+        description: 'flaky',
+        waitForPeer: async () => {
+          if (++calls < 3) throw new Error('nobody there yet');
+          return peer;
+        },
+        onPeer: () => () => undefined,
+        close: async () => undefined,
+      };
+
+      const socket = await waitForPeerWithRetry(transport, {
+        wait: 10000,
+        onAttempt: (attempt) => attempts.push(attempt),
+      });
+      assert.strictEqual(socket, peer);
+      assert.deepStrictEqual(attempts, [1, 2, 3]);
+    });
+
+    it('should give up with the last error once the wait is over', async () => {
+      const transport: Transport = {
+        description: 'empty',
+        waitForPeer: async () => {
+          throw new Error('still nobody');
+        },
+        onPeer: () => () => undefined,
+        close: async () => undefined,
+      };
+
+      await assert.rejects(waitForPeerWithRetry(transport, { wait: 500 }), /still nobody/);
+    });
+  });
+
+  describe('TCP', () => {
+    let sourceDir: string;
+    let outputDir: string;
+
+    beforeEach(async () => {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      sourceDir = join(tmpdir(), `tcp-src-${id}`);
+      outputDir = join(tmpdir(), `tcp-out-${id}`);
+      await mkdir(sourceDir, { recursive: true });
+      await mkdir(outputDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(sourceDir, { recursive: true, force: true });
+      await rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should connect a listening and a connecting peer', async () => {
+      const topic = randomBytes(32);
+      const listener = await createTcpTransport({ listen: { host: '127.0.0.1', port: 0 } });
+      const port = listener.address!.port;
+      const connector = await openTransport(topic, 'receiver', { kind: 'tcp', connect: { host: '127.0.0.1', port } });
+
+      const [a, b] = await Promise.all([listener.waitForPeer(), connector.waitForPeer()]);
+      a.write(Buffer.from('ping'));
+      assert.strictEqual((await readExact(b, 4)).toString(), 'ping');
+
+      await connector.close();
+      await listener.close();
+    });
+
+    it('should time out waiting for a peer after the given time', async () => {
+      const listener = await createTcpTransport({ listen: { host: '127.0.0.1', port: 0 } });
+      await assert.rejects(listener.waitForPeer(200), /Connection timeout after 200ms/);
+      await listener.close();
+    });
+
+    it('should fail clearly when nothing is listening', async () => {
+      const probe = await createTcpTransport({ listen: { host: '127.0.0.1', port: 0 } });
+      const port = probe.address!.port;
+      await probe.close();
+
+      const connector = await openTransport(randomBytes(32), 'receiver', { kind: 'tcp', connect: { host: '127.0.0.1', port } });
+      await assert.rejects(connector.waitForPeer(), /Could not connect/);
+    });
+
+    it('should carry a full encrypted transfer without the internet', async () => {
+      const content = randomBytes(256 * 1024);
+      await writeFile(join(sourceDir, 'data.bin'), content);
+
+      const { displayKey } = generateTopicKey();
+      const senderKey = parseTopicKey(displayKey);
+      const receiverKey = parseTopicKey(displayKey);
+
+      const listener = await createTcpTransport({ listen: { host: '127.0.0.1', port: 0 } });
+      const port = listener.address!.port;
+      const connector = await openTransport(receiverKey.topic, 'receiver', {
+        kind: 'tcp',
+        connect: { host: '127.0.0.1', port },
+      });
+
+      const send = async () => {
+        const socket = await listener.waitForPeer();
+        const protocol = await exchangeHello(socket, 'sender');
+        const { sendKey } = await establishSession(socket, 'sender', senderKey, protocol.transcript);
+        await pipeline(createPackStream(join(sourceDir, 'data.bin')), createEncryptStream(sendKey), socket);
+      };
+
+      const receive = async () => {
+        const socket = await connector.waitForPeer();
+        const protocol = await exchangeHello(socket, 'receiver');
+        const { receiveKey } = await establishSession(socket, 'receiver', receiverKey, protocol.transcript);
+        await pipeline(socket, createDecryptStream(receiveKey), createExtractStream(outputDir));
+      };
+
+      await Promise.all([send(), receive()]);
+      assert.ok((await readFile(join(outputDir, 'data.bin'))).equals(content));
+
+      await connector.close();
+      await listener.close();
+    });
+  });
+});
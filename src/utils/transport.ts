@@ -0,0 +1,276 @@
+/**
+ * Pluggable transports
+ *
+ * A transport finds the other peer and hands back a duplex byte stream;
+ * everything above it (protocol hello, session handshake, encrypted
+ * stream) is the same whichever transport carried it.
+ *
+ *   auto       - LAN and DHT discovery at once, first connection wins (default)
+ *   hyperswarm - DHT discovery by topic with NAT hole-punching
+ *   lan        - UDP multicast discovery on the local network only
+ *   tcp        - direct TCP to/from a known host:port, no internet needed
+ */
+
+import type { Duplex } from 'node:stream';
+import type Hyperswarm from 'hyperswarm';
+import { createSenderSwarm, createReceiverSwarm, cleanupSwarm, type SwarmOptions } from './network.js';
+import { createTcpTransport, type TcpOptions } from './tcp.js';
+import { createLanTransport, type LanOptions } from './lan.js';
+import { waitForData } from './wire.js';
+import { createPeerQueue } from './peerQueue.js';
+import { formatDuration } from './duration.js';
+
+// Constants
+const CONNECTION_TIMEOUT = 30000; // 30 seconds
+const ATTEMPT_TIMEOUT = 10000; // Per discovery attempt when retrying
+const RETRY_DELAY = 1000; // First backoff, doubling from there
+const MAX_RETRY_DELAY = 15000;
+
+export interface Transport {
+  description: string; // Shown in the UI, e.g. "TCP, listening on 0.0.0.0:9000"
+
+  /**
+   * Wait for the next peer connection
+   *
+   * @param timeout - Milliseconds to wait (default 30s, Infinity waits forever)
+   */
+  waitForPeer(timeout?: number): Promise<Duplex>;
+
+  /**
+   * Hand every new peer connection to `handler` until unsubscribed
+   * (serving several receivers at once)
+   */
+  onPeer(handler: (socket: Duplex) => void): () => void;
+
+  /**
+   * Close the transport and any connections it still has open
+   */
+  close(): Promise<void>;
+}
+
+export type TransportOptions =
+  | ({ kind: 'auto'; lan?: LanOptions } & SwarmOptions)
+  | ({ kind: 'hyperswarm' } & SwarmOptions)
+  | ({ kind: 'lan' } & LanOptions)
+  | ({ kind: 'tcp' } & TcpOptions);
+
+export type TransportRole = 'sender' | 'receiver';
+
+export interface RetryOptions {
+  wait?: number; // Give up after this long in total (default 30s, Infinity never)
+  attemptTimeout?: number; // How long each attempt waits (default 10s)
+  onAttempt?: (attempt: number) => void; // Called as each attempt starts (1-based)
+}
+
+/**
+ * Hyperswarm: announce (sender) or look up (receiver) the topic on the DHT
+ */
+async function createHyperswarmTransport(
+  topic: Buffer,
+  role: TransportRole,
+  options: SwarmOptions
+): Promise<Transport> {
+  const description = options.bootstrap ? 'Hyperswarm DHT (private bootstrap)' : 'Hyperswarm DHT';
+
+  if (role === 'sender') {
+    const { swarm, waitForPeer, onPeer } = await createSenderSwarm(topic, options);
+    return {
+      description,
+      waitForPeer,
+      onPeer,
+      close: () => cleanupSwarm(swarm),
+    };
+  }
+
+  const { swarm, waitForPeer } = await createReceiverSwarm(topic, options);
+  const extras: Hyperswarm[] = [];
+  let open: Duplex | null = null;
+  return {
+    description,
+    async waitForPeer(timeout?: number): Promise<Duplex> {
+      // Hyperswarm keeps a single connection per pair of peers, so a second
+      // one while the first is still up (parallel streams) needs a swarm
+      // with a key pair of its own
+      if (open && !open.destroyed) {
+        const extra = await createReceiverSwarm(topic, options);
+        extras.push(extra.swarm);
+        return extra.waitForPeer(timeout);
+      }
+      open = await waitForPeer(timeout);
+      return open;
+    },
+    onPeer() {
+      throw new Error('A receiver connects to a single sender');
+    },
+    close: async () => {
+      await Promise.all([swarm, ...extras].map(cleanupSwarm));
+    },
+  };
+}
+
+/**
+ * Accept peers from whichever of several transports finds one first
+ *
+ * The transports open side by side and none waits for the others, so a
+ * slow DHT announce doesn't hold up the LAN. A receiver asks all of them,
+ * takes the first connection and closes every other transport, so later
+ * waits (reconnects) only ask the winner. A receiver may well reach
+ * the sender by more than one path before that, so the sender takes the
+ * first connection the peer actually speaks on and lets the rest drop.
+ *
+ * @param description - Shown in the UI
+ * @param role - Which side of the transfer we are
+ * @param opening - Transports being opened
+ * @throws Error (the first transport's) if none of them opens
+ */
+export async function raceTransports(
+  description: string,
+  role: TransportRole,
+  opening: Array<Promise<Transport>>
+): Promise<Transport> {
+  const transports: Transport[] = [];
+  const peers = createPeerQueue<Duplex>();
+  let winner: Transport | null = null;
+  let closed = false;
+
+  // Receiver: first connection wins
+  const ask = (transport: Transport, timeout: number) => {
+    transport.waitForPeer(timeout).then((socket) => {
+      // Lost the race, or arrived after the wait it was for timed out
+      if (closed || (winner && winner !== transport) || !peers.wanted()) {
+        socket.destroy();
+        return;
+      }
+      if (!winner) {
+        winner = transport;
+        for (const other of transports.splice(0)) {
+          if (other !== transport) void other.close();
+        }
+        transports.push(transport);
+      }
+      peers.push(socket);
+    }, () => undefined);
+  };
+
+  // Sender: first connection the receiver speaks on wins
+  const offer = (socket: Duplex) => {
+    waitForData(socket).then(() => (closed ? socket.destroy() : peers.push(socket)), () => socket.destroy());
+  };
+
+  let pendingTimeout = CONNECTION_TIMEOUT;
+  const started = opening.map((promise) =>
+    promise.then((transport) => {
+      if (closed || (winner && role === 'receiver')) {
+        void transport.close();
+        return transport;
+      }
+      transports.push(transport);
+      if (role === 'sender') {
+        transport.onPeer(offer);
+      } else if (peers.wanted()) {
+        // Opened while a wait was already under way
+        ask(transport, pendingTimeout);
+      }
+      return transport;
+    })
+  );
+
+  // Ready as soon as any one of them is; only fail if all of them do
+  try {
+    await Promise.any(started);
+  } catch (err) {
+    throw (err as AggregateError).errors[0];
+  }
+
+  return {
+    description,
+
+    waitForPeer(timeout = CONNECTION_TIMEOUT): Promise<Duplex> {
+      const next = peers.next(timeout, () => new Error(
+        `Connection timeout after ${formatDuration(timeout)}. ` +
+        `No peer found (${description}). ` +
+        'Ensure the other side is running and the share key is correct.'
+      ));
+      if (role === 'receiver') {
+        pendingTimeout = timeout;
+        for (const transport of transports) ask(transport, timeout);
+      }
+      return next;
+    },
+
+    onPeer(handler: (socket: Duplex) => void): () => void {
+      if (role === 'receiver') {
+        throw new Error('A receiver connects to a single sender');
+      }
+      return peers.subscribe(handler);
+    },
+
+    async close(): Promise<void> {
+      closed = true;
+      await Promise.all(transports.map((transport) => transport.close()));
+    },
+  };
+}
+
+/**
+ * Open the transport for one side of a transfer
+ *
+ * @param topic - Public discovery topic (ignored by transports without discovery)
+ * @param role - Which side of the transfer we are
+ * @param options - Which transport to use (defaults to LAN and DHT together)
+ */
+export async function openTransport(
+  topic: Buffer,
+  role: TransportRole,
+  options: TransportOptions = { kind: 'auto' }
+): Promise<Transport> {
+  switch (options.kind) {
+    case 'tcp':
+      return createTcpTransport(options);
+    case 'lan':
+      return createLanTransport(topic, role, options);
+    case 'hyperswarm':
+      return createHyperswarmTransport(topic, role, options);
+    case 'auto':
+      return raceTransports('LAN + Hyperswarm DHT', role, [
+        createLanTransport(topic, role, options.lan),
+        createHyperswarmTransport(topic, role, options),
+      ]);
+  }
+}
+
+/**
+ * Delay before retrying after failed attempt number `attempt` (1-based):
+ * 1s, 2s, 4s... capped at 15s
+ */
+export function backoffDelay(attempt: number, initial = RETRY_DELAY, max = MAX_RETRY_DELAY): number {
+  return Math.min(initial * 2 ** (attempt - 1), max);
+}
+
+/**
+ * Wait for a peer, retrying with backoff until `wait` runs out
+ *
+ * Every attempt asks the transport again, which looks the topic up again
+ * (DHT), re-queries the LAN or re-dials (TCP), so a sender that comes up
+ * late or a lookup that came back empty doesn't end the run.
+ *
+ * @throws The last attempt's error once time is up
+ */
+export async function waitForPeerWithRetry(
+  transport: Transport,
+  options: RetryOptions = {}
+): Promise<Duplex> {
+  const { wait = CONNECTION_TIMEOUT, attemptTimeout = ATTEMPT_TIMEOUT, onAttempt } = options;
+  const deadline = Date.now() + wait;
+
+  for (let attempt = 1; ; attempt++) {
+    onAttempt?.(attempt);
+    try {
+      return await transport.waitForPeer(Math.min(attemptTimeout, deadline - Date.now()));
+    } catch (err) {
+      const delay = backoffDelay(attempt);
+      if (Date.now() + delay >= deadline) throw err;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Low-level wire helpers for handshakes that run on the raw socket
+ * before the transfer pipeline takes over.
+ *
+ * Works with both Node streams and the streamx-based sockets Hyperswarm
+ * hands out: bytes are collected from 'data' events, the stream is paused
+ * once enough has arrived, and any surplus is unshifted back so the
+ * pipeline that follows sees it.
+ */
+
+import type { Duplex } from 'node:stream';
+
+/**
+ * Read exactly `length` bytes from a stream
+ *
+ * @param stream - Socket or duplex to read from
+ * @param length - Number of bytes to read
+ * @throws Error if the stream ends or errors before enough bytes arrive
+ */
+export function readExact(stream: Duplex, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    const cleanup = () => {
+      stream.removeListener('data', onData);
+      stream.removeListener('end', onEnd);
+      stream.removeListener('close', onEnd);
+      stream.removeListener('error', onError);
+    };
+
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      received += chunk.length;
+      if (received < length) {
+        return;
+      }
+
+      cleanup();
+      stream.pause();
+
+      const combined = Buffer.concat(chunks);
+      const leftover = combined.subarray(length);
+      if (leftover.length > 0) {
+        stream.unshift(leftover);
+      }
+      resolve(combined.subarray(0, length));
+    };
+
+    const onEnd = () => {
+      cleanup();
+      reject(new Error(
+        `Connection closed during handshake (expected ${length} bytes, got ${received})`
+      ));
+    };
+
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+
+    if (length === 0) {
+      resolve(Buffer.alloc(0));
+      return;
+    }
+
+    stream.on('data', onData);
+    stream.once('end', onEnd);
+    stream.once('close', onEnd);
+    stream.once('error', onError);
+    stream.resume();
+  });
+}
+
+/**
+ * Wait until the peer sends its first bytes, without consuming them
+ *
+ * @param stream - Socket or duplex to watch
+ * @throws Error if the stream ends or errors before anything arrives
+ */
+export async function waitForData(stream: Duplex): Promise<void> {
+  const first = await readExact(stream, 1);
+  stream.unshift(first);
+}
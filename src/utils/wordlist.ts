@@ -0,0 +1,42 @@
+/**
+ * Word list for human-friendly short codes
+ *
+ * 256 short, distinct, easy-to-spell words, so each randomly chosen word
+ * carries exactly 8 bits of entropy.
+ */
+export const WORDLIST: readonly string[] = [
+  'acid', 'acorn', 'actor', 'adobe', 'agent', 'alarm', 'album', 'alley',
+  'amber', 'anchor', 'angle', 'ankle', 'apple', 'apron', 'arena', 'arrow',
+  'aspen', 'atlas', 'atom', 'autumn', 'badge', 'bagel', 'baker', 'bamboo',
+  'banjo', 'barley', 'basil', 'beacon', 'beaver', 'bench', 'berry', 'bison',
+  'blade', 'blanket', 'blossom', 'bonnet', 'bottle', 'boulder', 'bracket',
+  'breeze', 'brick', 'bridge', 'bronze', 'brook', 'bubble', 'bucket',
+  'buffalo', 'bugle', 'butter', 'cabin', 'cactus', 'camel', 'candle', 'canoe',
+  'canyon', 'carbon', 'carpet', 'castle', 'cedar', 'cello', 'chalk', 'cherry',
+  'chess', 'cider', 'circus', 'citrus', 'clover', 'cobalt', 'cocoa', 'comet',
+  'copper', 'coral', 'cotton', 'cradle', 'crane', 'crater', 'cricket',
+  'crystal', 'curtain', 'cypress', 'dagger', 'daisy', 'dancer', 'delta',
+  'denim', 'desert', 'dolphin', 'domino', 'donkey', 'dragon', 'drum', 'eagle',
+  'echo', 'eclipse', 'elbow', 'ember', 'emerald', 'engine', 'falcon', 'fennel',
+  'ferry', 'fiddle', 'fig', 'flannel', 'flute', 'fossil', 'fox', 'galaxy',
+  'garden', 'garlic', 'gazelle', 'geyser', 'ginger', 'glacier', 'goblet',
+  'gopher', 'granite', 'grape', 'gravel', 'guitar', 'hammer', 'harbor',
+  'harvest', 'hazel', 'helmet', 'hermit', 'honey', 'hornet', 'igloo', 'indigo',
+  'island', 'ivory', 'jacket', 'jaguar', 'jasmine', 'jelly', 'jigsaw',
+  'jungle', 'kayak', 'kettle', 'kiwi', 'koala', 'ladder', 'lagoon', 'lantern',
+  'lemon', 'lentil', 'lilac', 'linen', 'lizard', 'locket', 'lotus', 'magnet',
+  'mango', 'maple', 'marble', 'meadow', 'melon', 'mentor', 'meteor', 'mint',
+  'mirror', 'mitten', 'mosaic', 'muffin', 'nectar', 'needle', 'nickel',
+  'noodle', 'nutmeg', 'oasis', 'ocean', 'olive', 'onion', 'opal', 'orbit',
+  'orchid', 'otter', 'oyster', 'paddle', 'panda', 'paper', 'parrot', 'peach',
+  'pebble', 'pepper', 'piano', 'pickle', 'pigeon', 'pilot', 'pine', 'pixel',
+  'planet', 'plum', 'pocket', 'pony', 'poppy', 'prism', 'pumpkin', 'puzzle',
+  'quartz', 'quill', 'rabbit', 'radar', 'radish', 'raven', 'reef', 'ribbon',
+  'river', 'robin', 'rocket', 'saddle', 'salmon', 'satin', 'shadow', 'shell',
+  'silver', 'sketch', 'sled', 'spoon', 'sprout', 'squid', 'stable', 'summit',
+  'sunset', 'swan', 'tango', 'teapot', 'thistle', 'thunder', 'tiger', 'timber',
+  'toast', 'tomato', 'topaz', 'torch', 'tractor', 'tulip', 'tundra', 'tunnel',
+  'turnip', 'valley', 'velvet', 'violet', 'violin', 'waffle', 'walnut',
+  'walrus', 'willow', 'window', 'wizard', 'yarn', 'yodel', 'zebra', 'zephyr',
+  'zinc',
+];